@@ -12,22 +12,56 @@ import {
   ActivityIndicator,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
-import { ChatMessage, Persona } from '../types';
+import { ChatMessage, Persona, ThreadMessage } from '../types';
 import { apiService } from '../services/api';
 
 interface ChatInterfaceProps {
   persona: Persona;
+  // Restore this thread's messages; without one the first message starts a new thread
+  threadId?: string | null;
+  onThreadStarted?: (threadId: string) => void;
 }
 
-export const ChatInterface: React.FC<ChatInterfaceProps> = ({ persona }) => {
+// Each stored exchange becomes the user's bubble and the agent's reply
+const toChatMessages = (entry: ThreadMessage, persona: Persona): ChatMessage[] => [
+  {
+    id: `${entry.id}-user`,
+    message: entry.user_message,
+    sender: 'user',
+    timestamp: new Date(entry.timestamp),
+  },
+  {
+    id: `${entry.id}-agent`,
+    message: entry.agent_response,
+    sender: 'agent',
+    timestamp: new Date(entry.timestamp),
+    persona: persona.name,
+    skill_used: entry.skill_used,
+  },
+];
+
+export const ChatInterface: React.FC<ChatInterfaceProps> = ({ persona, threadId, onThreadStarted }) => {
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [inputText, setInputText] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const [isLoadingHistory, setIsLoadingHistory] = useState(false);
+  const [olderCursor, setOlderCursor] = useState<string | null>(null);
+  const currentThreadId = useRef<string | null>(null);
+  const scrollToEndOnChange = useRef(true);
   const flatListRef = useRef<FlatList>(null);
 
   useEffect(() => {
-    // Add initial message when persona changes
-    if (persona.first_message) {
+    // Already showing it: this chat just started the thread
+    if (threadId && threadId === currentThreadId.current) return;
+
+    currentThreadId.current = threadId ?? null;
+    setOlderCursor(null);
+
+    if (threadId) {
+      setMessages([]);
+      loadHistory(threadId);
+    } else if (persona.first_message) {
+      // Add initial message when starting a new conversation
       const welcomeMessage: ChatMessage = {
         id: `welcome-${persona.id}`,
         message: persona.first_message,
@@ -36,8 +70,29 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ persona }) => {
         persona: persona.name,
       };
       setMessages([welcomeMessage]);
+    } else {
+      setMessages([]);
     }
-  }, [persona]);
+  }, [persona, threadId]);
+
+  /** Load the latest page of a thread, or the page before `cursor` */
+  const loadHistory = async (id: string, cursor?: string) => {
+    setIsLoadingHistory(true);
+    const result = await apiService.getThreadMessages(id, cursor);
+    setIsLoadingHistory(false);
+
+    // The user moved to another conversation while this page was loading
+    if (currentThreadId.current !== id) return;
+
+    if (result.success && result.data) {
+      const page = result.data.messages.flatMap(entry => toChatMessages(entry, persona));
+      scrollToEndOnChange.current = !cursor;
+      setMessages(prev => (cursor ? [...page, ...prev] : page));
+      setOlderCursor(result.data.next_cursor);
+    } else {
+      Alert.alert('Error', result.error || 'Failed to load conversation');
+    }
+  };
 
   const sendMessage = async () => {
     if (!inputText.trim() || isLoading) return;
@@ -49,31 +104,56 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ persona }) => {
       timestamp: new Date(),
     };
 
+    scrollToEndOnChange.current = true;
     setMessages(prev => [...prev, userMessage]);
     setInputText('');
     setIsLoading(true);
 
+    // Placeholder that fills in as tokens stream from the server
+    const agentMessageId = Date.now().toString() + '-agent';
+    const updateAgentMessage = (update: (message: ChatMessage) => ChatMessage) => {
+      setMessages(prev => prev.map(m => (m.id === agentMessageId ? update(m) : m)));
+    };
+    setMessages(prev => [...prev, {
+      id: agentMessageId,
+      message: '',
+      sender: 'agent',
+      timestamp: new Date(),
+      persona: persona.name,
+    }]);
+
     try {
-      const response = await apiService.sendChatMessage({
+      const response = await apiService.streamChatMessage({
         message: inputText,
         persona: persona.id,
-        user_id: 'demo-user', // TODO: Replace with actual user ID
+        timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+        thread_id: currentThreadId.current ?? undefined,
+      }, (event) => {
+        if (event.type === 'token') {
+          updateAgentMessage(m => ({ ...m, message: m.message + event.delta }));
+        } else if (event.type === 'reset') {
+          updateAgentMessage(m => ({ ...m, message: '' }));
+        }
       });
 
       if (response.success && response.data) {
-        const agentMessage: ChatMessage = {
-          id: Date.now().toString() + '-agent',
-          message: response.data.response,
-          sender: 'agent',
-          timestamp: new Date(),
-          persona: response.data.persona,
-          skill_used: response.data.skill_used,
-        };
-        setMessages(prev => [...prev, agentMessage]);
+        const data = response.data;
+        if (!currentThreadId.current && data.thread_id) {
+          currentThreadId.current = data.thread_id;
+          onThreadStarted?.(data.thread_id);
+        }
+        updateAgentMessage(m => ({
+          ...m,
+          message: data.response,
+          persona: data.persona,
+          skill_used: data.skill_used,
+        }));
       } else {
+        setMessages(prev => prev.filter(m => m.id !== agentMessageId));
         Alert.alert('Error', response.error || 'Failed to send message');
       }
     } catch (error) {
+      setMessages(prev => prev.filter(m => m.id !== agentMessageId));
       Alert.alert('Error', 'Network error. Make sure the API server is running.');
     } finally {
       setIsLoading(false);
@@ -121,7 +201,21 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ persona }) => {
         keyExtractor={(item) => item.id}
         style={styles.messagesList}
         contentContainerStyle={styles.messagesContent}
-        onContentSizeChange={() => flatListRef.current?.scrollToEnd({ animated: true })}
+        onContentSizeChange={() => {
+          if (scrollToEndOnChange.current) flatListRef.current?.scrollToEnd({ animated: true });
+        }}
+        ListHeaderComponent={
+          isLoadingHistory ? (
+            <ActivityIndicator style={styles.historyIndicator} color="#007AFF" />
+          ) : olderCursor && currentThreadId.current ? (
+            <TouchableOpacity
+              style={styles.loadEarlierButton}
+              onPress={() => loadHistory(currentThreadId.current!, olderCursor)}
+            >
+              <Text style={styles.loadEarlierText}>Load earlier messages</Text>
+            </TouchableOpacity>
+          ) : null
+        }
       />
 
       {/* Input */}
@@ -177,6 +271,22 @@ const styles = StyleSheet.create({
   messagesContent: {
     padding: 16,
   },
+  historyIndicator: {
+    marginBottom: 12,
+  },
+  loadEarlierButton: {
+    alignSelf: 'center',
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    marginBottom: 12,
+    borderRadius: 14,
+    backgroundColor: '#E5F0FF',
+  },
+  loadEarlierText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#007AFF',
+  },
   messageContainer: {
     maxWidth: '80%',
     marginVertical: 4,
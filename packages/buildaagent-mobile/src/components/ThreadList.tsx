@@ -0,0 +1,272 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TextInput,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+  Modal,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { Thread } from '../types';
+import { apiService } from '../services/api';
+
+interface ThreadListProps {
+  visible: boolean;
+  activeThreadId: string | null;
+  onSelectThread: (thread: Thread) => void;
+  onNewChat: () => void;
+  onThreadDeleted: (threadId: string) => void;
+  onClose: () => void;
+}
+
+const formatUpdatedAt = (timestamp: string): string => {
+  const date = new Date(timestamp);
+  const isToday = date.toDateString() === new Date().toDateString();
+  return isToday
+    ? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+    : date.toLocaleDateString([], { month: 'short', day: 'numeric' });
+};
+
+export const ThreadList: React.FC<ThreadListProps> = ({
+  visible,
+  activeThreadId,
+  onSelectThread,
+  onNewChat,
+  onThreadDeleted,
+  onClose,
+}) => {
+  const [threads, setThreads] = useState<Thread[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingTitle, setEditingTitle] = useState('');
+
+  useEffect(() => {
+    if (visible) {
+      loadThreads();
+    } else {
+      setEditingId(null);
+    }
+  }, [visible]);
+
+  const loadThreads = async () => {
+    setLoading(true);
+    const result = await apiService.getThreads();
+    if (result.success && result.data) {
+      setThreads(result.data);
+      setError(null);
+    } else {
+      setError(result.error || 'Failed to load conversations');
+    }
+    setLoading(false);
+  };
+
+  const startRename = (thread: Thread) => {
+    setEditingId(thread.id);
+    setEditingTitle(thread.title);
+  };
+
+  const saveRename = async () => {
+    const threadId = editingId;
+    const title = editingTitle.trim();
+    setEditingId(null);
+    if (!threadId || !title || title === threads.find(t => t.id === threadId)?.title) return;
+
+    const result = await apiService.renameThread(threadId, title);
+    if (result.success && result.data) {
+      const renamed = result.data;
+      setThreads(prev => prev.map(t => (t.id === renamed.id ? renamed : t)));
+    } else {
+      Alert.alert('Error', result.error || 'Failed to rename conversation');
+    }
+  };
+
+  const confirmDelete = (thread: Thread) => {
+    Alert.alert(
+      'Delete Conversation',
+      `Delete "${thread.title}"? Its messages can't be recovered.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            const result = await apiService.deleteThread(thread.id);
+            if (result.success) {
+              setThreads(prev => prev.filter(t => t.id !== thread.id));
+              onThreadDeleted(thread.id);
+            } else {
+              Alert.alert('Error', result.error || 'Failed to delete conversation');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const showActions = (thread: Thread) => {
+    Alert.alert(thread.title, undefined, [
+      { text: 'Rename', onPress: () => startRename(thread) },
+      { text: 'Delete', style: 'destructive', onPress: () => confirmDelete(thread) },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
+  const renderThread = ({ item }: { item: Thread }) => {
+    if (item.id === editingId) {
+      return (
+        <View style={styles.threadRow}>
+          <TextInput
+            style={styles.titleInput}
+            value={editingTitle}
+            onChangeText={setEditingTitle}
+            onBlur={saveRename}
+            maxLength={120}
+            autoFocus
+            returnKeyType="done"
+          />
+        </View>
+      );
+    }
+
+    return (
+      <TouchableOpacity
+        style={[styles.threadRow, item.id === activeThreadId && styles.threadRowActive]}
+        onPress={() => onSelectThread(item)}
+        onLongPress={() => showActions(item)}
+      >
+        <View style={styles.threadText}>
+          <Text style={styles.threadTitle} numberOfLines={1}>{item.title}</Text>
+          <Text style={styles.threadDetail}>{formatUpdatedAt(item.updated_at)}</Text>
+        </View>
+        <TouchableOpacity onPress={() => showActions(item)} hitSlop={8}>
+          <Ionicons name="ellipsis-horizontal" size={20} color="#999" />
+        </TouchableOpacity>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+      <SafeAreaView style={styles.container} edges={['top', 'bottom']}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose} hitSlop={8}>
+            <Ionicons name="close" size={24} color="#fff" />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>Conversations</Text>
+          <TouchableOpacity onPress={onNewChat} hitSlop={8}>
+            <Ionicons name="create-outline" size={24} color="#fff" />
+          </TouchableOpacity>
+        </View>
+
+        {loading && threads.length === 0 ? (
+          <ActivityIndicator style={styles.centered} size="large" color="#007AFF" />
+        ) : error ? (
+          <View style={styles.centered}>
+            <Text style={styles.emptyText}>{error}</Text>
+            <TouchableOpacity style={styles.retryButton} onPress={loadThreads}>
+              <Text style={styles.retryButtonText}>Retry</Text>
+            </TouchableOpacity>
+          </View>
+        ) : (
+          <FlatList
+            data={threads}
+            renderItem={renderThread}
+            keyExtractor={(item) => item.id}
+            contentContainerStyle={threads.length === 0 ? styles.centered : styles.listContent}
+            refreshing={loading}
+            onRefresh={loadThreads}
+            keyboardShouldPersistTaps="handled"
+            ListEmptyComponent={
+              <Text style={styles.emptyText}>No conversations yet. Start one from the chat.</Text>
+            }
+          />
+        )}
+      </SafeAreaView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    backgroundColor: '#007AFF',
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#fff',
+  },
+  listContent: {
+    padding: 16,
+  },
+  centered: {
+    flexGrow: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+  },
+  threadRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    marginBottom: 8,
+  },
+  threadRowActive: {
+    borderWidth: 1,
+    borderColor: '#007AFF',
+  },
+  threadText: {
+    flex: 1,
+    marginRight: 12,
+  },
+  threadTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  threadDetail: {
+    fontSize: 13,
+    color: '#999',
+    marginTop: 2,
+  },
+  titleInput: {
+    flex: 1,
+    fontSize: 16,
+    color: '#333',
+    paddingVertical: 0,
+  },
+  emptyText: {
+    fontSize: 15,
+    color: '#999',
+    textAlign: 'center',
+  },
+  retryButton: {
+    backgroundColor: '#007AFF',
+    paddingHorizontal: 24,
+    paddingVertical: 10,
+    borderRadius: 8,
+    marginTop: 16,
+  },
+  retryButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -2,8 +2,13 @@ export const API_CONFIG = {
   baseURL: 'http://localhost:3000', // Change to your server IP for device testing
   endpoints: {
     health: '/api/health',
+    authSignup: '/api/auth/signup',
+    authLogin: '/api/auth/login',
+    authMe: '/api/auth/me',
     personas: '/api/personas',
     chat: '/api/chat',
+    chatStream: '/api/chat/stream',
+    threads: '/api/threads',
     authGmailCallback: '/api/auth/gmail/callback',
     authGmailStatus: '/api/auth/gmail/status',
     authGmailDisconnect: '/api/auth/gmail/disconnect',
@@ -9,16 +9,21 @@ import {
   TouchableOpacity,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { Persona } from '../types';
+import { Ionicons } from '@expo/vector-icons';
+import { Persona, Thread } from '../types';
 import { apiService } from '../services/api';
 import { ChatInterface } from '../components/ChatInterface';
 import { PersonaSelector } from '../components/PersonaSelector';
+import { ThreadList } from '../components/ThreadList';
 
 export const HomeScreen: React.FC = () => {
   const [personas, setPersonas] = useState<Persona[]>([]);
   const [selectedPersona, setSelectedPersona] = useState<Persona | null>(null);
   const [loading, setLoading] = useState(true);
   const [serverConnected, setServerConnected] = useState(false);
+  // The conversation on screen; null until the first message of a new chat is answered
+  const [threadId, setThreadId] = useState<string | null>(null);
+  const [showThreads, setShowThreads] = useState(false);
 
   useEffect(() => {
     checkServerConnection();
@@ -90,6 +95,23 @@ export const HomeScreen: React.FC = () => {
 
   const handlePersonaSelect = (persona: Persona) => {
     setSelectedPersona(persona);
+    setThreadId(null);
+  };
+
+  const handleThreadSelect = (thread: Thread) => {
+    const persona = personas.find(p => p.id === thread.persona);
+    if (persona) setSelectedPersona(persona);
+    setThreadId(thread.id);
+    setShowThreads(false);
+  };
+
+  const startNewChat = () => {
+    setThreadId(null);
+    setShowThreads(false);
+  };
+
+  const handleThreadDeleted = (deletedId: string) => {
+    if (deletedId === threadId) setThreadId(null);
   };
 
   if (loading) {
@@ -134,10 +156,37 @@ export const HomeScreen: React.FC = () => {
         onSelectPersona={handlePersonaSelect}
       />
       
+      {/* Conversation Actions */}
+      {serverConnected && (
+        <View style={styles.threadBar}>
+          <TouchableOpacity style={styles.threadBarButton} onPress={() => setShowThreads(true)}>
+            <Ionicons name="albums-outline" size={18} color="#007AFF" />
+            <Text style={styles.threadBarText}>Conversations</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.threadBarButton} onPress={startNewChat}>
+            <Ionicons name="create-outline" size={18} color="#007AFF" />
+            <Text style={styles.threadBarText}>New Chat</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+      
       {/* Chat Interface */}
       {selectedPersona && (
-        <ChatInterface persona={selectedPersona} />
+        <ChatInterface
+          persona={selectedPersona}
+          threadId={threadId}
+          onThreadStarted={setThreadId}
+        />
       )}
+
+      <ThreadList
+        visible={showThreads}
+        activeThreadId={threadId}
+        onSelectThread={handleThreadSelect}
+        onNewChat={startNewChat}
+        onThreadDeleted={handleThreadDeleted}
+        onClose={() => setShowThreads(false)}
+      />
     </SafeAreaView>
   );
 };
@@ -189,6 +238,25 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '600',
   },
+  threadBar: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    backgroundColor: '#fff',
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: '#E0E0E0',
+  },
+  threadBarButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  threadBarText: {
+    marginLeft: 6,
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#007AFF',
+  },
   offlineBar: {
     backgroundColor: '#FF9500',
     paddingVertical: 8,
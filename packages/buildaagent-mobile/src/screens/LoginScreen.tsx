@@ -0,0 +1,178 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  TouchableOpacity,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { apiService } from '../services/api';
+
+/**
+ * Sign in or create an account. On success the API service stores the
+ * session token and notifies App, which swaps this screen for the tabs.
+ */
+export const LoginScreen: React.FC = () => {
+  const [mode, setMode] = useState<'login' | 'signup'>('login');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [displayName, setDisplayName] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isSignUp = mode === 'signup';
+  const canSubmit = email.trim().length > 0 && password.length > 0 && !submitting;
+
+  const submit = async () => {
+    setSubmitting(true);
+    setError(null);
+    const result = isSignUp
+      ? await apiService.signUp(email.trim(), password, displayName.trim() || undefined)
+      : await apiService.logIn(email.trim(), password);
+    if (!result.success) {
+      setError(result.error || 'Something went wrong');
+      setSubmitting(false);
+    }
+  };
+
+  const toggleMode = () => {
+    setMode(isSignUp ? 'login' : 'signup');
+    setError(null);
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <KeyboardAvoidingView
+        style={styles.content}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        <Ionicons name="chatbubbles" size={56} color="#007AFF" style={styles.logo} />
+        <Text style={styles.title}>BuildAAgent</Text>
+        <Text style={styles.subtitle}>
+          {isSignUp ? 'Create an account' : 'Sign in to your account'}
+        </Text>
+
+        {isSignUp && (
+          <TextInput
+            style={styles.input}
+            value={displayName}
+            onChangeText={setDisplayName}
+            placeholder="Name (optional)"
+            autoCapitalize="words"
+            editable={!submitting}
+          />
+        )}
+        <TextInput
+          style={styles.input}
+          value={email}
+          onChangeText={setEmail}
+          placeholder="Email"
+          autoCapitalize="none"
+          autoCorrect={false}
+          keyboardType="email-address"
+          textContentType="emailAddress"
+          editable={!submitting}
+        />
+        <TextInput
+          style={styles.input}
+          value={password}
+          onChangeText={setPassword}
+          placeholder="Password"
+          secureTextEntry
+          textContentType={isSignUp ? 'newPassword' : 'password'}
+          editable={!submitting}
+        />
+
+        {error && <Text style={styles.errorText}>{error}</Text>}
+
+        <TouchableOpacity
+          style={[styles.submitButton, !canSubmit && styles.submitButtonDisabled]}
+          onPress={submit}
+          disabled={!canSubmit}
+        >
+          {submitting ? (
+            <ActivityIndicator size="small" color="#fff" />
+          ) : (
+            <Text style={styles.submitButtonText}>{isSignUp ? 'Sign Up' : 'Sign In'}</Text>
+          )}
+        </TouchableOpacity>
+
+        <TouchableOpacity onPress={toggleMode} disabled={submitting}>
+          <Text style={styles.toggleText}>
+            {isSignUp ? 'Already have an account? Sign in' : 'New here? Create an account'}
+          </Text>
+        </TouchableOpacity>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  content: {
+    flex: 1,
+    justifyContent: 'center',
+    paddingHorizontal: 24,
+  },
+  logo: {
+    alignSelf: 'center',
+    marginBottom: 12,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: '700',
+    color: '#333',
+    textAlign: 'center',
+  },
+  subtitle: {
+    fontSize: 15,
+    color: '#888',
+    textAlign: 'center',
+    marginTop: 4,
+    marginBottom: 24,
+  },
+  input: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: '#E0E0E0',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+    marginBottom: 12,
+  },
+  errorText: {
+    fontSize: 13,
+    color: '#FF3B30',
+    marginBottom: 12,
+    marginHorizontal: 4,
+  },
+  submitButton: {
+    backgroundColor: '#007AFF',
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  submitButtonDisabled: {
+    backgroundColor: '#B0C4DE',
+  },
+  submitButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  toggleText: {
+    fontSize: 14,
+    color: '#007AFF',
+    textAlign: 'center',
+  },
+});
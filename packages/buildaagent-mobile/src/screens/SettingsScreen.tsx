@@ -13,13 +13,12 @@ import { Ionicons } from '@expo/vector-icons';
 import { signInWithGoogle, signOutFromGoogle } from '../services/auth';
 import { apiService } from '../services/api';
 
-const USER_ID = 'demo-user'; // same user ID used in ChatInterface
-
 export const SettingsScreen: React.FC = () => {
   const [gmailConnected, setGmailConnected] = useState(false);
   const [gmailEmail, setGmailEmail] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [connecting, setConnecting] = useState(false);
+  const account = apiService.currentAccount;
 
   useEffect(() => {
     checkGmailStatus();
@@ -27,7 +26,7 @@ export const SettingsScreen: React.FC = () => {
 
   const checkGmailStatus = async () => {
     setLoading(true);
-    const result = await apiService.getGmailStatus(USER_ID);
+    const result = await apiService.getGmailStatus();
     if (result.success && result.data) {
       setGmailConnected(result.data.connected);
       setGmailEmail(result.data.email);
@@ -37,7 +36,7 @@ export const SettingsScreen: React.FC = () => {
 
   const connectGmail = async () => {
     setConnecting(true);
-    const data = await signInWithGoogle(USER_ID);
+    const data = await signInWithGoogle();
     if (data) {
       setGmailConnected(true);
       setGmailEmail(data.email);
@@ -57,7 +56,7 @@ export const SettingsScreen: React.FC = () => {
           style: 'destructive',
           onPress: async () => {
             setConnecting(true);
-            const result = await apiService.disconnectGmail(USER_ID);
+            const result = await apiService.disconnectGmail();
             if (result.success) {
               await signOutFromGoogle();
               setGmailConnected(false);
@@ -72,6 +71,21 @@ export const SettingsScreen: React.FC = () => {
     );
   };
 
+  const signOut = () => {
+    Alert.alert(
+      'Sign Out',
+      'Are you sure you want to sign out?',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Sign Out',
+          style: 'destructive',
+          onPress: () => apiService.logOut(),
+        },
+      ]
+    );
+  };
+
   return (
     <SafeAreaView style={styles.container} edges={['top']}>
       <View style={styles.header}>
@@ -79,6 +93,29 @@ export const SettingsScreen: React.FC = () => {
       </View>
 
       <ScrollView contentContainerStyle={styles.content}>
+        {/* Account Section */}
+        <Text style={styles.sectionTitle}>Account</Text>
+        <View style={[styles.card, styles.cardSpacing]}>
+          <View style={[styles.serviceRow, styles.serviceRowLast]}>
+            <View style={styles.serviceInfo}>
+              <Ionicons name="person-circle" size={28} color="#007AFF" />
+              <View style={styles.serviceText}>
+                <Text style={styles.serviceName}>
+                  {account?.display_name || 'Signed in'}
+                </Text>
+                <Text style={styles.serviceDetailMuted}>{account?.email}</Text>
+              </View>
+            </View>
+
+            <TouchableOpacity
+              style={[styles.actionButton, styles.disconnectButton]}
+              onPress={signOut}
+            >
+              <Text style={styles.actionButtonText}>Sign Out</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+
         {/* Connected Services Section */}
         <Text style={styles.sectionTitle}>Connected Services</Text>
         <View style={styles.card}>
@@ -171,6 +208,9 @@ const styles = StyleSheet.create({
     borderRadius: 12,
     overflow: 'hidden',
   },
+  cardSpacing: {
+    marginBottom: 24,
+  },
   serviceRow: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -1,9 +1,15 @@
 import axios from 'axios';
 import { API_CONFIG } from '../config';
+import { loadSessionToken, saveSessionToken, clearSessionToken } from './session';
 import {
+  Account,
+  SessionResponse,
   Persona,
   ChatRequest,
   ChatResponse,
+  ChatStreamEvent,
+  Thread,
+  ThreadMessagesResponse,
   ApiResponse,
   GmailCallbackRequest,
   GmailCallbackResponse,
@@ -11,8 +17,13 @@ import {
   ServicesStatusResponse,
 } from '../types';
 
+type SessionListener = (account: Account | null) => void;
+
 class ApiService {
   private baseURL: string;
+  private token: string | null = null;
+  private account: Account | null = null;
+  private sessionListeners = new Set<SessionListener>();
 
   constructor() {
     this.baseURL = API_CONFIG.baseURL;
@@ -20,6 +31,106 @@ class ApiService {
     // Configure axios defaults (30s for LLM + Gmail API calls)
     axios.defaults.timeout = 30000;
     axios.defaults.headers.common['Content-Type'] = 'application/json';
+
+    // An expired or revoked session signs the user out
+    axios.interceptors.response.use(
+      (response) => response,
+      (error) => {
+        if (error.response?.status === 401 && this.token) {
+          this.endSession();
+        }
+        return Promise.reject(error);
+      }
+    );
+  }
+
+  // --- Session Methods ---
+
+  get currentAccount(): Account | null {
+    return this.account;
+  }
+
+  /** Subscribe to sign-in / sign-out; returns an unsubscribe function */
+  onSessionChange(listener: SessionListener): () => void {
+    this.sessionListeners.add(listener);
+    return () => {
+      this.sessionListeners.delete(listener);
+    };
+  }
+
+  /** Resume the session saved on the device, if it is still valid */
+  async restoreSession(): Promise<Account | null> {
+    const token = await loadSessionToken();
+    if (!token) return null;
+
+    this.setToken(token);
+    try {
+      const response = await axios.get(`${this.baseURL}${API_CONFIG.endpoints.authMe}`);
+      this.setAccount(response.data.user);
+      return this.account;
+    } catch (error: any) {
+      console.error('Failed to restore session:', error);
+      if (error.response?.status === 401) {
+        await this.endSession();
+      }
+      return null;
+    }
+  }
+
+  async signUp(email: string, password: string, displayName?: string): Promise<ApiResponse<Account>> {
+    try {
+      const response = await axios.post(`${this.baseURL}${API_CONFIG.endpoints.authSignup}`, {
+        email,
+        password,
+        display_name: displayName,
+      });
+      await this.startSession(response.data);
+      return { success: true, data: response.data.user };
+    } catch (error: any) {
+      console.error('Sign up failed:', error);
+      return { success: false, error: error.response?.data?.error || error.message || 'Sign up failed' };
+    }
+  }
+
+  async logIn(email: string, password: string): Promise<ApiResponse<Account>> {
+    try {
+      const response = await axios.post(`${this.baseURL}${API_CONFIG.endpoints.authLogin}`, { email, password });
+      await this.startSession(response.data);
+      return { success: true, data: response.data.user };
+    } catch (error: any) {
+      console.error('Login failed:', error);
+      return { success: false, error: error.response?.data?.error || error.message || 'Login failed' };
+    }
+  }
+
+  async logOut(): Promise<void> {
+    await this.endSession();
+  }
+
+  private async startSession(session: SessionResponse): Promise<void> {
+    await saveSessionToken(session.token);
+    this.setToken(session.token);
+    this.setAccount(session.user);
+  }
+
+  private async endSession(): Promise<void> {
+    this.setToken(null);
+    this.setAccount(null);
+    await clearSessionToken();
+  }
+
+  private setToken(token: string | null): void {
+    this.token = token;
+    if (token) {
+      axios.defaults.headers.common['Authorization'] = `Bearer ${token}`;
+    } else {
+      delete axios.defaults.headers.common['Authorization'];
+    }
+  }
+
+  private setAccount(account: Account | null): void {
+    this.account = account;
+    this.sessionListeners.forEach((listener) => listener(account));
   }
 
   async checkHealth(): Promise<boolean> {
@@ -81,6 +192,153 @@ class ApiService {
       };
     }
   }
+  /**
+   * Stream a chat response over Server-Sent Events.
+   * Uses XMLHttpRequest because React Native's fetch can't read a body incrementally.
+   */
+  streamChatMessage(
+    request: ChatRequest,
+    onEvent: (event: ChatStreamEvent) => void
+  ): Promise<ApiResponse<ChatResponse>> {
+    return new Promise((resolve) => {
+      const xhr = new XMLHttpRequest();
+      let parsedLength = 0;
+      let finalResponse: ChatResponse | null = null;
+      let streamError: string | null = null;
+      let settled = false;
+
+      const settle = (response: ApiResponse<ChatResponse>) => {
+        if (settled) return;
+        settled = true;
+        resolve(response);
+      };
+
+      const parseNewEvents = () => {
+        if (settled) return;
+        const text = xhr.responseText;
+        const lastBoundary = text.lastIndexOf('\n\n');
+        if (lastBoundary < parsedLength) return;
+
+        const chunk = text.slice(parsedLength, lastBoundary);
+        parsedLength = lastBoundary + 2;
+
+        for (const block of chunk.split('\n\n')) {
+          let eventName = 'message';
+          const dataLines: string[] = [];
+          for (const line of block.split('\n')) {
+            if (line.startsWith('event:')) eventName = line.slice(6).trim();
+            // Per the SSE format, one space after the colon is not part of the data
+            else if (line.startsWith('data:')) dataLines.push(line.slice(line.startsWith('data: ') ? 6 : 5));
+          }
+          if (dataLines.length === 0) continue;
+
+          let payload: any;
+          try {
+            payload = JSON.parse(dataLines.join('\n'));
+          } catch {
+            console.error('Chat stream sent an unreadable event');
+            settle({ success: false, error: 'Received an invalid response from the server' });
+            xhr.abort();
+            return;
+          }
+          if (eventName === 'done') {
+            finalResponse = payload;
+          } else if (eventName === 'error') {
+            streamError = payload.error;
+          } else {
+            onEvent({ type: eventName, ...payload } as ChatStreamEvent);
+          }
+        }
+      };
+
+      xhr.open('POST', `${this.baseURL}${API_CONFIG.endpoints.chatStream}`);
+      xhr.setRequestHeader('Content-Type', 'application/json');
+      xhr.setRequestHeader('Accept', 'text/event-stream');
+      if (this.token) {
+        xhr.setRequestHeader('Authorization', `Bearer ${this.token}`);
+      }
+      xhr.onprogress = parseNewEvents;
+      xhr.onload = () => {
+        if (xhr.status === 401) {
+          this.endSession();
+          settle({ success: false, error: 'Your session has expired. Please sign in again.' });
+          return;
+        }
+        // Rejected before streaming began (e.g. an unknown thread_id): a plain JSON error
+        if (xhr.status >= 400) {
+          let error = `Request failed (${xhr.status})`;
+          try {
+            error = JSON.parse(xhr.responseText).error || error;
+          } catch {}
+          settle({ success: false, error });
+          return;
+        }
+        parseNewEvents();
+        if (finalResponse) {
+          settle({ success: true, data: finalResponse });
+        } else {
+          settle({ success: false, error: streamError || `Stream ended unexpectedly (${xhr.status})` });
+        }
+      };
+      xhr.onerror = () => {
+        console.error('Chat stream failed');
+        settle({ success: false, error: 'Failed to send message' });
+      };
+      xhr.send(JSON.stringify(request));
+    });
+  }
+
+  // --- Thread Methods ---
+
+  async getThreads(): Promise<ApiResponse<Thread[]>> {
+    try {
+      const response = await axios.get(`${this.baseURL}${API_CONFIG.endpoints.threads}`);
+      return { success: true, data: response.data.threads };
+    } catch (error: any) {
+      console.error('Failed to fetch threads:', error);
+      return { success: false, error: error.message || 'Failed to fetch conversations' };
+    }
+  }
+
+  /** The latest messages of a thread, or those before `cursor` (a previous page's next_cursor) */
+  async getThreadMessages(threadId: string, cursor?: string): Promise<ApiResponse<ThreadMessagesResponse>> {
+    try {
+      const response = await axios.get(
+        `${this.baseURL}${API_CONFIG.endpoints.threads}/${encodeURIComponent(threadId)}/messages`,
+        { params: cursor ? { cursor } : undefined }
+      );
+      return { success: true, data: response.data };
+    } catch (error: any) {
+      console.error('Failed to fetch thread messages:', error);
+      return { success: false, error: error.message || 'Failed to load conversation' };
+    }
+  }
+
+  async renameThread(threadId: string, title: string): Promise<ApiResponse<Thread>> {
+    try {
+      const response = await axios.patch(
+        `${this.baseURL}${API_CONFIG.endpoints.threads}/${encodeURIComponent(threadId)}`,
+        { title }
+      );
+      return { success: true, data: response.data };
+    } catch (error: any) {
+      console.error('Failed to rename thread:', error);
+      return { success: false, error: error.response?.data?.error || error.message || 'Failed to rename conversation' };
+    }
+  }
+
+  async deleteThread(threadId: string): Promise<ApiResponse<{ deleted: boolean }>> {
+    try {
+      const response = await axios.delete(
+        `${this.baseURL}${API_CONFIG.endpoints.threads}/${encodeURIComponent(threadId)}`
+      );
+      return { success: true, data: response.data };
+    } catch (error: any) {
+      console.error('Failed to delete thread:', error);
+      return { success: false, error: error.message || 'Failed to delete conversation' };
+    }
+  }
+
   // --- Auth / Services Methods ---
 
   async gmailCallback(request: GmailCallbackRequest): Promise<ApiResponse<GmailCallbackResponse>> {
@@ -96,12 +354,9 @@ class ApiService {
     }
   }
 
-  async getGmailStatus(userId: string): Promise<ApiResponse<GmailStatusResponse>> {
+  async getGmailStatus(): Promise<ApiResponse<GmailStatusResponse>> {
     try {
-      const response = await axios.get(
-        `${this.baseURL}${API_CONFIG.endpoints.authGmailStatus}`,
-        { params: { user_id: userId } }
-      );
+      const response = await axios.get(`${this.baseURL}${API_CONFIG.endpoints.authGmailStatus}`);
       return { success: true, data: response.data };
     } catch (error: any) {
       console.error('Gmail status check failed:', error);
@@ -109,12 +364,9 @@ class ApiService {
     }
   }
 
-  async disconnectGmail(userId: string): Promise<ApiResponse<{ disconnected: boolean }>> {
+  async disconnectGmail(): Promise<ApiResponse<{ disconnected: boolean }>> {
     try {
-      const response = await axios.post(
-        `${this.baseURL}${API_CONFIG.endpoints.authGmailDisconnect}`,
-        { user_id: userId }
-      );
+      const response = await axios.post(`${this.baseURL}${API_CONFIG.endpoints.authGmailDisconnect}`);
       return { success: true, data: response.data };
     } catch (error: any) {
       console.error('Gmail disconnect failed:', error);
@@ -122,12 +374,9 @@ class ApiService {
     }
   }
 
-  async getServicesStatus(userId: string): Promise<ApiResponse<ServicesStatusResponse>> {
+  async getServicesStatus(): Promise<ApiResponse<ServicesStatusResponse>> {
     try {
-      const response = await axios.get(
-        `${this.baseURL}${API_CONFIG.endpoints.servicesStatus}`,
-        { params: { user_id: userId } }
-      );
+      const response = await axios.get(`${this.baseURL}${API_CONFIG.endpoints.servicesStatus}`);
       return { success: true, data: response.data };
     } catch (error: any) {
       console.error('Services status check failed:', error);
@@ -29,10 +29,11 @@ GoogleSignin.configure({
 });
 
 /**
- * Sign in with Google and send the auth code to the backend.
+ * Sign in with Google and send the auth code to the backend, which links
+ * Gmail to the signed-in account.
  * Returns { connected, email } on success, null on failure/cancellation.
  */
-export async function signInWithGoogle(userId: string) {
+export async function signInWithGoogle() {
   try {
     await GoogleSignin.hasPlayServices();
     const response = await GoogleSignin.signIn();
@@ -51,7 +52,6 @@ export async function signInWithGoogle(userId: string) {
     const result = await apiService.gmailCallback({
       code: serverAuthCode,
       redirect_uri: '', // not needed for native sign-in
-      user_id: userId,
     });
 
     if (result.success && result.data) {
@@ -0,0 +1,32 @@
+/**
+ * Session Storage
+ *
+ * Keeps the API session token (from sign-up or login) in the device's
+ * secure storage (Keychain / Keystore), so the user stays signed in
+ * across app launches.
+ */
+
+import * as SecureStore from 'expo-secure-store';
+
+const SESSION_TOKEN_KEY = 'buildaagent.sessionToken';
+
+export async function loadSessionToken(): Promise<string | null> {
+  try {
+    return await SecureStore.getItemAsync(SESSION_TOKEN_KEY);
+  } catch (error) {
+    console.error('[SESSION] Failed to read session token:', error);
+    return null;
+  }
+}
+
+export async function saveSessionToken(token: string): Promise<void> {
+  await SecureStore.setItemAsync(SESSION_TOKEN_KEY, token);
+}
+
+export async function clearSessionToken(): Promise<void> {
+  try {
+    await SecureStore.deleteItemAsync(SESSION_TOKEN_KEY);
+  } catch (error) {
+    console.error('[SESSION] Failed to clear session token:', error);
+  }
+}
@@ -22,7 +22,8 @@ export interface ChatMessage {
 export interface ChatRequest {
   message: string;
   persona: string;
-  user_id: string;
+  timezone?: string; // IANA name, used for the persona's quiet hours
+  thread_id?: string; // continue this thread; without one the server starts a new thread
 }
 
 export interface ChatResponse {
@@ -30,6 +31,44 @@ export interface ChatResponse {
   skill_used?: string;
   persona: string;
   timestamp: string;
+  thread_id?: string; // absent when a new chat's first message failed and no thread was kept
+}
+
+// Server-Sent Events from POST /api/chat/stream
+export type ChatStreamEvent =
+  | { type: 'routing'; route: 'delegation'; agent: string; agents?: string[] }
+  | { type: 'routing'; route: 'skill'; skill: string | null }
+  | { type: 'skill_start'; skill: string }
+  | { type: 'skill_finish'; skill: string; success: boolean }
+  | { type: 'token'; delta: string }
+  | { type: 'reset' };
+
+// --- Thread Types ---
+
+export interface Thread {
+  id: string;
+  title: string;
+  persona: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// One exchange in a thread: the user's message and the agent's reply
+export interface ThreadMessage {
+  id: number;
+  user_message: string;
+  agent_response: string;
+  persona: string;
+  skill_used?: string;
+  delegated_agent?: string;
+  timestamp: string;
+}
+
+// A page of a thread's messages, oldest first; pass next_cursor back to get the page before it
+export interface ThreadMessagesResponse {
+  thread_id: string;
+  messages: ThreadMessage[];
+  next_cursor: string | null;
 }
 
 export interface ApiResponse<T> {
@@ -38,13 +77,39 @@ export interface ApiResponse<T> {
   error?: string;
 }
 
+// --- Account Types ---
+
+export interface Account {
+  id: string;
+  email: string;
+  display_name?: string;
+  created_at: string;
+}
+
+export interface SignUpRequest {
+  email: string;
+  password: string;
+  display_name?: string;
+}
+
+export interface LoginRequest {
+  email: string;
+  password: string;
+}
+
+// Sign-up and login; the token goes in the Authorization header of every other request
+export interface SessionResponse {
+  token: string;
+  expires_at: string;
+  user: Account;
+}
+
 // --- Service / Auth Types ---
 
 export interface GmailCallbackRequest {
   code: string;
   code_verifier?: string;
   redirect_uri: string;
-  user_id: string;
 }
 
 export interface GmailCallbackResponse {
@@ -0,0 +1,31 @@
+/**
+ * Copies everything under src/skills that tsc doesn't emit (skill.yaml
+ * manifests and any other non-TypeScript files) into dist/skills, so the
+ * compiled server finds each manifest next to its compiled executor.
+ *
+ * Run after `tsc` by `npm run build`.
+ */
+
+const fs = require('fs')
+const path = require('path')
+
+const packageRoot = path.resolve(__dirname, '..')
+const source = path.join(packageRoot, 'src', 'skills')
+const target = path.join(packageRoot, 'dist', 'skills')
+
+if (!fs.existsSync(source)) {
+  process.exit(0)
+}
+
+let copied = 0
+fs.cpSync(source, target, {
+  recursive: true,
+  filter: (file) => {
+    if (fs.statSync(file).isDirectory()) return true
+    if (file.endsWith('.ts')) return false
+    copied++
+    return true
+  }
+})
+
+console.log(`Copied ${copied} skill asset${copied === 1 ? '' : 's'} to ${path.relative(packageRoot, target)}`)
@@ -0,0 +1,103 @@
+/**
+ * Login Throttle
+ *
+ * Counts failed logins per email and per client address in a fixed window.
+ * Once either reaches the limit, further attempts are refused (429) until the
+ * window ends, so passwords can't be guessed at request speed. Each attempt
+ * is counted as a failure before the password is checked, so parallel
+ * guesses can't all pass the check first. A successful login clears the
+ * email's count and takes back its own attempt from the address, whose
+ * earlier failures stay so one valid account can't be used to keep spraying
+ * others.
+ */
+
+export interface LoginThrottleConfig {
+  maxAttempts: number
+  windowMs: number
+}
+
+const DEFAULT_LOGIN_THROTTLE: LoginThrottleConfig = {
+  maxAttempts: 10,
+  windowMs: 15 * 60 * 1000 // 15 minutes
+}
+
+interface FailureWindow {
+  failures: number
+  // Unix timestamp in ms
+  resetsAt: number
+}
+
+export class LoginThrottle {
+  readonly config: LoginThrottleConfig
+  private windows = new Map<string, FailureWindow>()
+
+  constructor(config: Partial<LoginThrottleConfig> = {}) {
+    this.config = { ...DEFAULT_LOGIN_THROTTLE, ...config }
+  }
+
+  /**
+   * Ms until an attempt for this email and address is allowed again. When it
+   * is allowed now, returns 0 and counts the attempt as a failure until
+   * recordSuccess.
+   */
+  reserve(email: string, address: string): number {
+    const wait = this.retryAfterMs(email, address)
+    if (wait === 0) this.recordFailure(email, address)
+    return wait
+  }
+
+  /** Ms until an attempt for this email and address is allowed again; 0 if it is now */
+  retryAfterMs(email: string, address: string): number {
+    const now = Date.now()
+    let wait = 0
+    for (const key of this.keys(email, address)) {
+      const window = this.windows.get(key)
+      if (!window) continue
+      if (window.resetsAt <= now) {
+        this.windows.delete(key)
+      } else if (window.failures >= this.config.maxAttempts) {
+        wait = Math.max(wait, window.resetsAt - now)
+      }
+    }
+    return wait
+  }
+
+  recordFailure(email: string, address: string): void {
+    const now = Date.now()
+    for (const key of this.keys(email, address)) {
+      const window = this.windows.get(key)
+      if (window && window.resetsAt > now) {
+        window.failures++
+      } else {
+        this.windows.set(key, { failures: 1, resetsAt: now + this.config.windowMs })
+      }
+    }
+    this.prune(now)
+  }
+
+  /** Clears a reserved attempt that logged in */
+  recordSuccess(email: string, address: string): void {
+    this.windows.delete(this.emailKey(email))
+    const window = this.windows.get(this.addressKey(address))
+    if (window && window.failures > 0) window.failures--
+  }
+
+  private keys(email: string, address: string): string[] {
+    return [this.emailKey(email), this.addressKey(address)]
+  }
+
+  private addressKey(address: string): string {
+    return `address:${address}`
+  }
+
+  private emailKey(email: string): string {
+    return `email:${email.trim().toLowerCase()}`
+  }
+
+  // Expired windows would otherwise pile up for every address that ever failed once
+  private prune(now: number): void {
+    for (const [key, window] of this.windows) {
+      if (window.resetsAt <= now) this.windows.delete(key)
+    }
+  }
+}
@@ -0,0 +1,102 @@
+/**
+ * Token Bridge Auth - Signed requests from allowlisted OpenClaw agents
+ *
+ * The token bridge hands out users' OAuth access tokens, so it only answers
+ * agents configured with their own shared secret. Each request is signed:
+ *
+ *   X-Bridge-Agent:     <agent id>
+ *   X-Bridge-Timestamp: <unix ms>
+ *   X-Bridge-Signature: hex HMAC-SHA256(secret, "<timestamp>\n<METHOD>\n<path and query>")
+ *
+ * Timestamps outside the allowed clock skew are rejected, and a signature
+ * is only accepted once, so a captured request cannot be replayed.
+ */
+
+import crypto from 'crypto'
+import { Request, Response, NextFunction, RequestHandler } from 'express'
+import { Logger } from '../core/logger'
+import { isPlaceholderSecret } from '../services/account-store'
+
+export interface TokenBridgeAgent {
+  // OpenClaw agent id, sent as X-Bridge-Agent
+  id: string
+  // Shared secret (at least 32 characters) the agent signs requests with
+  secret: string
+  // Services whose tokens this agent may fetch, e.g. ['gmail']
+  services: string[]
+}
+
+export const BRIDGE_AGENT_HEADER = 'X-Bridge-Agent'
+export const BRIDGE_TIMESTAMP_HEADER = 'X-Bridge-Timestamp'
+export const BRIDGE_SIGNATURE_HEADER = 'X-Bridge-Signature'
+
+const DEFAULT_MAX_CLOCK_SKEW_MS = 5 * 60 * 1000
+
+/** Signature for a bridge request; `path` includes the query string */
+export function signBridgeRequest(secret: string, timestamp: number, method: string, path: string): string {
+  return crypto
+    .createHmac('sha256', secret)
+    .update(`${timestamp}\n${method.toUpperCase()}\n${path}`)
+    .digest('hex')
+}
+
+/**
+ * Rejects requests that are unsigned, from an agent not on the allowlist,
+ * badly signed, stale or replayed (401). The agent is available to handlers
+ * as `authenticatedAgent(res)`.
+ */
+export function requireAgent(
+  agents: TokenBridgeAgent[],
+  logger: Logger,
+  maxClockSkewMs: number = DEFAULT_MAX_CLOCK_SKEW_MS
+): RequestHandler {
+  for (const agent of agents) {
+    if (!agent.secret || agent.secret.length < 32) {
+      throw new Error(`Token bridge secret for agent "${agent.id}" must be at least 32 characters`)
+    }
+    if (isPlaceholderSecret(agent.secret)) {
+      throw new Error(`Token bridge secret for agent "${agent.id}" is a placeholder value; generate one`)
+    }
+  }
+  const allowlist = new Map(agents.map(agent => [agent.id, agent]))
+  // Accepted signatures until their timestamp falls out of the skew window
+  const seenSignatures = new Map<string, number>()
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    const agentId = req.get(BRIDGE_AGENT_HEADER) || ''
+    const timestamp = Number(req.get(BRIDGE_TIMESTAMP_HEADER))
+    const signature = req.get(BRIDGE_SIGNATURE_HEADER) || ''
+    const now = Date.now()
+
+    const reject = (reason: string) => {
+      logger.warn(`[TokenBridge] Rejected request: ${reason}`, { agent: agentId || null, path: req.baseUrl + req.path })
+      return res.status(401).json({ error: 'Invalid agent credentials' })
+    }
+
+    const agent = allowlist.get(agentId)
+    if (!agent) return reject(agentId ? 'agent not allowlisted' : 'missing agent id')
+    if (!Number.isFinite(timestamp) || Math.abs(now - timestamp) > maxClockSkewMs) {
+      return reject('timestamp missing or outside the allowed clock skew')
+    }
+
+    const expected = Buffer.from(signBridgeRequest(agent.secret, timestamp, req.method, req.originalUrl))
+    const actual = Buffer.from(signature)
+    if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) {
+      return reject('bad signature')
+    }
+
+    for (const [seen, seenAt] of seenSignatures) {
+      if (now - seenAt > maxClockSkewMs) seenSignatures.delete(seen)
+    }
+    if (seenSignatures.has(signature)) return reject('replayed signature')
+    seenSignatures.set(signature, timestamp)
+
+    res.locals.bridgeAgent = agent
+    next()
+  }
+}
+
+/** The calling agent; only valid behind requireAgent */
+export function authenticatedAgent(res: Response): TokenBridgeAgent {
+  return res.locals.bridgeAgent as TokenBridgeAgent
+}
@@ -0,0 +1,50 @@
+/**
+ * Auth Middleware
+ *
+ * Routes behind requireUser act for the account named by the request's
+ * session token (`Authorization: Bearer <token>`), never for a user id from
+ * the body or query string.
+ */
+
+import { Request, Response, NextFunction, RequestHandler } from 'express'
+import { AccountStore } from '../services/account-store'
+import { withLogContext } from '../core/logger'
+
+/** The bearer token from an Authorization header, if there is one */
+export function bearerToken(req: Request): string | null {
+  const match = /^Bearer\s+(.+)$/i.exec(req.get('Authorization') || '')
+  return match ? match[1].trim() : null
+}
+
+/**
+ * Rejects requests without a valid session token (401). The user id is
+ * available to handlers as `authenticatedUserId(res)`.
+ */
+export function requireUser(accounts: AccountStore): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const token = bearerToken(req)
+    const userId = token ? accounts.verifySessionToken(token) : null
+
+    let account
+    try {
+      // Tokens outlive deleted accounts (and in-memory ones across restarts)
+      account = userId ? await accounts.getAccount(userId) : null
+    } catch (error) {
+      // Express 4 doesn't catch rejected promises from async middleware
+      return next(error)
+    }
+
+    if (!account) {
+      res.setHeader('WWW-Authenticate', 'Bearer')
+      return res.status(401).json({ error: token ? 'Invalid or expired session' : 'Authentication required' })
+    }
+
+    res.locals.userId = account.id
+    withLogContext({ userId: account.id }, next)
+  }
+}
+
+/** The signed-in user's id; only valid behind requireUser */
+export function authenticatedUserId(res: Response): string {
+  return res.locals.userId as string
+}
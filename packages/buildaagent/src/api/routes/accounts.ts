@@ -0,0 +1,101 @@
+/**
+ * Account Routes
+ *
+ * Sign-up and login for the HTTP API. Both return a session token the
+ * client sends as `Authorization: Bearer <token>` on every other request.
+ */
+
+import { Router, Request, Response } from 'express'
+import { AccountError, AccountStore, UserAccount, toPublicAccount } from '../../services/account-store'
+import { Logger } from '../../core/logger'
+import { authenticatedUserId, requireUser } from '../require-user'
+import { LoginThrottle } from '../login-throttle'
+
+const ACCOUNT_ERROR_STATUS = {
+  invalid_email: 400,
+  weak_password: 400,
+  invalid_display_name: 400,
+  email_taken: 409
+} as const
+
+export function createAccountsRouter(
+  accounts: AccountStore,
+  logger: Logger,
+  throttle: LoginThrottle = new LoginThrottle()
+): Router {
+  const router = Router()
+
+  const sessionResponse = (account: UserAccount) => {
+    const session = accounts.issueSessionToken(account)
+    return {
+      token: session.token,
+      expires_at: new Date(session.expiresAt).toISOString(),
+      user: toPublicAccount(account)
+    }
+  }
+
+  /**
+   * POST /api/auth/signup
+   * Body: { email, password, display_name? }
+   */
+  router.post('/signup', async (req: Request, res: Response) => {
+    try {
+      const { email, password, display_name } = req.body
+      const account = await accounts.signUp(email, password, display_name)
+      res.status(201).json(sessionResponse(account))
+    } catch (error: any) {
+      if (error instanceof AccountError) {
+        return res.status(ACCOUNT_ERROR_STATUS[error.code]).json({ error: error.message, code: error.code })
+      }
+      logger.error('[Accounts] Sign-up error:', error)
+      res.status(500).json({ error: 'Failed to create account' })
+    }
+  })
+
+  /**
+   * POST /api/auth/login
+   * Body: { email, password }
+   * Too many failures for the email or from the client: 429 with Retry-After
+   */
+  router.post('/login', async (req: Request, res: Response) => {
+    try {
+      const { email, password } = req.body
+      const throttleEmail = typeof email === 'string' ? email : ''
+      const address = req.ip || 'unknown'
+
+      // Counted before the password check so parallel guesses can't all get through
+      const retryAfterMs = throttle.reserve(throttleEmail, address)
+      if (retryAfterMs > 0) {
+        logger.warn('[Accounts] Login throttled', { address })
+        res.setHeader('Retry-After', Math.ceil(retryAfterMs / 1000).toString())
+        return res.status(429).json({ error: 'Too many failed login attempts. Try again later.' })
+      }
+
+      const account = await accounts.logIn(email, password)
+      if (!account) {
+        return res.status(401).json({ error: 'Incorrect email or password' })
+      }
+      throttle.recordSuccess(throttleEmail, address)
+      res.json(sessionResponse(account))
+    } catch (error: any) {
+      logger.error('[Accounts] Login error:', error)
+      res.status(500).json({ error: 'Failed to log in' })
+    }
+  })
+
+  /**
+   * GET /api/auth/me
+   * The signed-in account
+   */
+  router.get('/me', requireUser(accounts), async (req: Request, res: Response) => {
+    try {
+      const account = await accounts.getAccount(authenticatedUserId(res))
+      res.json({ user: account && toPublicAccount(account) })
+    } catch (error: any) {
+      logger.error('[Accounts] Failed to load account:', error)
+      res.status(500).json({ error: 'Failed to load account' })
+    }
+  })
+
+  return router
+}
@@ -3,12 +3,14 @@
  *
  * Handles Gmail OAuth flow: code exchange, connection status, and disconnect.
  * The mobile app initiates the OAuth flow and sends the auth code here.
+ * Mounted behind requireUser: every route acts for the signed-in user.
  */
 
 import { Router, Request, Response } from 'express'
 import { TokenStore } from '../../services/token-store'
 import { OAuthTokens } from '../../services/gmail/types'
 import { Logger } from '../../core/logger'
+import { authenticatedUserId } from '../require-user'
 
 export function createAuthRouter(tokenStore: TokenStore, logger: Logger): Router {
   const router = Router()
@@ -19,13 +21,14 @@ export function createAuthRouter(tokenStore: TokenStore, logger: Logger): Router
    */
   router.post('/gmail/callback', async (req: Request, res: Response) => {
     try {
-      const { code, code_verifier, redirect_uri, user_id } = req.body
+      const { code, code_verifier, redirect_uri } = req.body
+      const user_id = authenticatedUserId(res)
 
-      logger.info(`[Auth] Gmail callback received: user_id="${user_id}" code_length=${code?.length || 0} has_code_verifier=${!!code_verifier} redirect_uri="${redirect_uri || 'none'}"`)
+      logger.info(`[Auth] Gmail callback received: user_id="${user_id}" has_code=${!!code} has_code_verifier=${!!code_verifier} redirect_uri="${redirect_uri || 'none'}"`)
 
-      if (!code || !user_id) {
-        logger.error(`[Auth] Missing required fields: code=${!!code} user_id=${!!user_id}`)
-        return res.status(400).json({ error: 'Missing required fields: code, user_id' })
+      if (!code) {
+        logger.error('[Auth] Missing required field: code')
+        return res.status(400).json({ error: 'Missing required field: code' })
       }
 
       const clientId = process.env.GOOGLE_CLIENT_ID
@@ -68,14 +71,14 @@ export function createAuthRouter(tokenStore: TokenStore, logger: Logger): Router
         scope: string
       }
 
-      logger.info(`[Auth] Google token exchange SUCCESS: access_token length=${tokenData.access_token?.length || 0} refresh_token length=${tokenData.refresh_token?.length || 0} expires_in=${tokenData.expires_in}s scope="${tokenData.scope}"`)
+      logger.info(`[Auth] Google token exchange SUCCESS: has_refresh_token=${!!tokenData.refresh_token} expires_in=${tokenData.expires_in}s scope="${tokenData.scope}"`)
 
       if (!tokenData.refresh_token) {
         logger.warn('[Auth] NO REFRESH TOKEN returned — user may need to re-authorize with access_type=offline&prompt=consent')
       }
 
       // Fetch the user's email address from Google
-      logger.info(`[Auth] Fetching user email from Google userinfo API`)
+      logger.debug(`[Auth] Fetching user email from Google userinfo API`)
       const userinfoResponse = await fetch('https://www.googleapis.com/oauth2/v2/userinfo', {
         headers: { Authorization: `Bearer ${tokenData.access_token}` }
       })
@@ -84,7 +87,7 @@ export function createAuthRouter(tokenStore: TokenStore, logger: Logger): Router
       if (userinfoResponse.ok) {
         const userinfo = await userinfoResponse.json() as { email?: string }
         email = userinfo.email || 'unknown'
-        logger.info(`[Auth] User email resolved: ${email}`)
+        logger.debug('[Auth] User email resolved', { email })
       } else {
         logger.warn(`[Auth] Userinfo fetch failed: ${userinfoResponse.status}`)
       }
@@ -98,19 +101,19 @@ export function createAuthRouter(tokenStore: TokenStore, logger: Logger): Router
         email
       }
 
-      logger.info(`[Auth] Storing tokens for user_id="${user_id}" provider="gmail" email="${email}" expiresAt=${new Date(tokens.expiresAt).toISOString()}`)
+      logger.debug(`[Auth] Storing tokens for user_id="${user_id}" provider="gmail" expiresAt=${new Date(tokens.expiresAt).toISOString()}`)
 
       await tokenStore.storeTokens(user_id, 'gmail', tokens)
 
       // Verify the store worked by reading back
       const verified = await tokenStore.hasValidConnection(user_id, 'gmail')
-      logger.info(`[Auth] Token store verification: hasValidConnection=${verified}`)
+      logger.debug(`[Auth] Token store verification: hasValidConnection=${verified}`)
 
       if (!verified) {
         logger.error(`[Auth] TOKEN STORE VERIFICATION FAILED — tokens were stored but cannot be read back!`)
       }
 
-      logger.info(`[Auth] Gmail connected successfully for user ${user_id} (${email})`)
+      logger.info(`[Auth] Gmail connected successfully for user ${user_id}`, { email })
 
       res.json({ connected: true, email })
     } catch (error: any) {
@@ -120,23 +123,19 @@ export function createAuthRouter(tokenStore: TokenStore, logger: Logger): Router
   })
 
   /**
-   * GET /api/auth/gmail/status?user_id=<id>
-   * Check if Gmail is connected for a user
+   * GET /api/auth/gmail/status
+   * Check if Gmail is connected for the user
    */
   router.get('/gmail/status', async (req: Request, res: Response) => {
     try {
-      const userId = req.query.user_id as string
+      const userId = authenticatedUserId(res)
 
-      logger.info(`[Auth] Gmail status check: user_id="${userId}"`)
-
-      if (!userId) {
-        return res.status(400).json({ error: 'Missing required query parameter: user_id' })
-      }
+      logger.debug(`[Auth] Gmail status check: user_id="${userId}"`)
 
       const connected = await tokenStore.hasValidConnection(userId, 'gmail')
       const email = connected ? await tokenStore.getConnectionEmail(userId, 'gmail') : null
 
-      logger.info(`[Auth] Gmail status result: user_id="${userId}" connected=${connected} email=${email}`)
+      logger.info(`[Auth] Gmail status result: user_id="${userId}" connected=${connected}`, { email })
 
       res.json({ connected, email })
     } catch (error: any) {
@@ -151,14 +150,10 @@ export function createAuthRouter(tokenStore: TokenStore, logger: Logger): Router
    */
   router.post('/gmail/disconnect', async (req: Request, res: Response) => {
     try {
-      const { user_id } = req.body
+      const user_id = authenticatedUserId(res)
 
       logger.info(`[Auth] Gmail disconnect request: user_id="${user_id}"`)
 
-      if (!user_id) {
-        return res.status(400).json({ error: 'Missing required field: user_id' })
-      }
-
       await tokenStore.deleteTokens(user_id, 'gmail')
 
       logger.info(`[Auth] Gmail disconnected for user ${user_id}`)
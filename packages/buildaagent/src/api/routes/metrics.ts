@@ -0,0 +1,23 @@
+/**
+ * Metrics Route
+ *
+ * Prometheus scrape endpoint: request, LLM, skill, OpenClaw retry and token
+ * refresh metrics from the process-wide registry, in the text format.
+ */
+
+import { Router, Request, Response } from 'express'
+import { MetricsRegistry, PROMETHEUS_CONTENT_TYPE } from '../../core/metrics'
+
+export function createMetricsRouter(registry: MetricsRegistry): Router {
+  const router = Router()
+
+  /**
+   * GET /metrics
+   */
+  router.get('/', (req: Request, res: Response) => {
+    res.setHeader('Content-Type', PROMETHEUS_CONTENT_TYPE)
+    res.send(registry.render())
+  })
+
+  return router
+}
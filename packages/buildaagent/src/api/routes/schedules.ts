@@ -0,0 +1,59 @@
+/**
+ * Scheduled Job Routes
+ *
+ * Exposes status of a user's persona cron jobs and lets the app
+ * trigger a job (e.g. the morning briefing) on demand, for the signed-in user.
+ */
+
+import { Router, Request, Response } from 'express'
+import { Scheduler, SchedulerError } from '../../core/scheduler'
+import { Logger } from '../../core/logger'
+import { authenticatedUserId } from '../require-user'
+
+const SCHEDULER_ERROR_STATUS = {
+  persona_not_found: 404,
+  job_not_found: 404,
+  job_running: 409
+} as const
+
+export function createSchedulesRouter(scheduler: Scheduler, logger: Logger): Router {
+  const router = Router()
+
+  /**
+   * GET /api/schedules
+   * List scheduled jobs and their last run status for the user
+   */
+  router.get('/', async (req: Request, res: Response) => {
+    try {
+      const userId = authenticatedUserId(res)
+      res.json({ user_id: userId, jobs: scheduler.getJobs(userId) })
+    } catch (error: any) {
+      logger.error('[Schedules] List error:', error)
+      res.status(500).json({ error: 'Failed to list scheduled jobs' })
+    }
+  })
+
+  /**
+   * POST /api/schedules/:jobName/run
+   * Run a scheduled job immediately
+   * Body: { persona }
+   */
+  router.post('/:jobName/run', async (req: Request, res: Response) => {
+    try {
+      const jobName = req.params.jobName as string
+      const { persona } = req.body
+
+      const job = await scheduler.trigger(authenticatedUserId(res), persona || 'personal-assistant', jobName)
+
+      res.json({ job })
+    } catch (error: any) {
+      if (error instanceof SchedulerError) {
+        return res.status(SCHEDULER_ERROR_STATUS[error.code]).json({ error: error.message, code: error.code })
+      }
+      logger.error(`[Schedules] Manual run of "${req.params.jobName}" failed:`, error)
+      res.status(500).json({ error: 'Failed to run scheduled job' })
+    }
+  })
+
+  return router
+}
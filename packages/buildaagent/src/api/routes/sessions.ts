@@ -0,0 +1,41 @@
+/**
+ * OpenClaw Session Routes
+ *
+ * The signed-in user's OpenClaw sessions (one per agent and conversation thread), and
+ * resetting them so the next message starts with a fresh agent session.
+ * Only mounted with the openclaw provider.
+ */
+
+import { Router, Request, Response } from 'express'
+import { OpenClawSessionManager } from '../../gateway/openclaw-sessions'
+import { Logger } from '../../core/logger'
+import { authenticatedUserId } from '../require-user'
+
+export function createSessionsRouter(sessions: OpenClawSessionManager, logger: Logger): Router {
+  const router = Router()
+
+  /**
+   * GET /api/sessions
+   * Active sessions, most recently used first
+   */
+  router.get('/', (req: Request, res: Response) => {
+    const userId = authenticatedUserId(res)
+    res.json({ user_id: userId, sessions: sessions.list(userId) })
+  })
+
+  /**
+   * DELETE /api/sessions[?agent=<agent>][&thread_id=<thread>]
+   * Resets all of the user's sessions, or only one agent's and/or one thread's
+   */
+  router.delete('/', (req: Request, res: Response) => {
+    const userId = authenticatedUserId(res)
+    const agent = req.query.agent as string | undefined
+    const threadId = req.query.thread_id as string | undefined
+    const reset = sessions.reset(userId, { agent, threadId })
+    logger.info(`[Sessions] Reset ${reset} OpenClaw session(s) for ${userId}`, { agent, threadId })
+
+    res.json({ user_id: userId, reset })
+  })
+
+  return router
+}
@@ -0,0 +1,201 @@
+/**
+ * Conversation Thread Routes
+ *
+ * The signed-in user's conversation threads: list them, page back through a
+ * thread's messages, rename and delete. Threads are created by sending a
+ * chat message without a thread_id; the reply carries the new thread's id.
+ */
+
+import { Router, Request, Response } from 'express'
+import { ConversationEntry, ConversationThread, Database } from '../../core/storage'
+import { Logger } from '../../core/logger'
+import { authenticatedUserId } from '../require-user'
+
+const DEFAULT_THREAD_LIMIT = 50
+const DEFAULT_MESSAGE_LIMIT = 20
+const MAX_LIMIT = 100
+const MAX_TITLE_LENGTH = 120
+const AUTO_TITLE_LENGTH = 60
+
+/** A new thread's title: the first line of its first message, shortened */
+export function threadTitle(message: string): string {
+  const line = message.trim().split('\n')[0].replace(/\s+/g, ' ')
+  if (!line) return 'New conversation'
+  return line.length > AUTO_TITLE_LENGTH ? `${line.slice(0, AUTO_TITLE_LENGTH - 1).trimEnd()}…` : line
+}
+
+function toThreadResponse(thread: ConversationThread) {
+  return {
+    id: thread.id,
+    title: thread.title,
+    persona: thread.persona,
+    created_at: thread.createdAt,
+    updated_at: thread.updatedAt
+  }
+}
+
+function toMessageResponse(entry: ConversationEntry) {
+  return {
+    id: entry.id,
+    user_message: entry.userMessage,
+    agent_response: entry.agentResponse,
+    persona: entry.persona,
+    ...(entry.skillUsed ? { skill_used: entry.skillUsed } : {}),
+    ...(entry.delegatedAgent ? { delegated_agent: entry.delegatedAgent } : {}),
+    ...(entry.toolCalls?.length ? { tool_calls: entry.toolCalls } : {}),
+    timestamp: entry.timestamp
+  }
+}
+
+/** Cursors are opaque to clients; they wrap the id of the oldest message returned */
+function encodeCursor(id: number): string {
+  return Buffer.from(`m:${id}`).toString('base64url')
+}
+
+function decodeCursor(cursor: string): number | null {
+  const match = /^m:(\d+)$/.exec(Buffer.from(cursor, 'base64url').toString('utf8'))
+  return match ? Number(match[1]) : null
+}
+
+function parseLimit(value: unknown, fallback: number): number | null {
+  if (value === undefined) return fallback
+  const limit = Number(value)
+  return Number.isInteger(limit) && limit > 0 ? Math.min(limit, MAX_LIMIT) : null
+}
+
+/**
+ * `onDelete` runs after a thread is deleted, e.g. to drop its OpenClaw
+ * sessions.
+ */
+export function createThreadsRouter(
+  database: Database,
+  logger: Logger,
+  onDelete?: (userId: string, threadId: string) => void
+): Router {
+  const router = Router()
+
+  /**
+   * GET /api/threads[?limit=50]
+   * Threads, most recently active first
+   */
+  router.get('/', async (req: Request, res: Response) => {
+    try {
+      const userId = authenticatedUserId(res)
+      const limit = parseLimit(req.query.limit, DEFAULT_THREAD_LIMIT)
+      if (limit === null) {
+        return res.status(400).json({ error: 'limit must be a positive integer' })
+      }
+
+      const threads = await database.listThreads(userId, limit)
+      res.json({ threads: threads.map(toThreadResponse) })
+    } catch (error: any) {
+      logger.error('[Threads] List error:', error)
+      res.status(500).json({ error: 'Failed to list threads' })
+    }
+  })
+
+  /**
+   * GET /api/threads/:id
+   */
+  router.get('/:id', async (req: Request, res: Response) => {
+    try {
+      const thread = await database.getThread(authenticatedUserId(res), req.params.id as string)
+      if (!thread) {
+        return res.status(404).json({ error: 'Thread not found' })
+      }
+      res.json(toThreadResponse(thread))
+    } catch (error: any) {
+      logger.error('[Threads] Get error:', error)
+      res.status(500).json({ error: 'Failed to get thread' })
+    }
+  })
+
+  /**
+   * GET /api/threads/:id/messages[?limit=20][&cursor=<next_cursor>]
+   * The latest messages, oldest first; pass next_cursor back for the page
+   * before them (null once the start of the thread is reached)
+   */
+  router.get('/:id/messages', async (req: Request, res: Response) => {
+    try {
+      const userId = authenticatedUserId(res)
+      const threadId = req.params.id as string
+      const limit = parseLimit(req.query.limit, DEFAULT_MESSAGE_LIMIT)
+      if (limit === null) {
+        return res.status(400).json({ error: 'limit must be a positive integer' })
+      }
+
+      const cursor = req.query.cursor as string | undefined
+      const beforeId = cursor ? decodeCursor(cursor) : undefined
+      if (beforeId === null) {
+        return res.status(400).json({ error: 'Invalid cursor' })
+      }
+
+      if (!(await database.getThread(userId, threadId))) {
+        return res.status(404).json({ error: 'Thread not found' })
+      }
+
+      // One extra row tells whether there is an earlier page
+      const entries = await database.getThreadMessages(userId, threadId, limit + 1, beforeId)
+      const page = entries.slice(0, limit)
+      const oldest = page[page.length - 1]
+
+      res.json({
+        thread_id: threadId,
+        messages: page.reverse().map(toMessageResponse),
+        next_cursor: entries.length > limit && oldest?.id !== undefined ? encodeCursor(oldest.id) : null
+      })
+    } catch (error: any) {
+      logger.error('[Threads] Messages error:', error)
+      res.status(500).json({ error: 'Failed to get thread messages' })
+    }
+  })
+
+  /**
+   * PATCH /api/threads/:id
+   * Body: { title }
+   */
+  router.patch('/:id', async (req: Request, res: Response) => {
+    try {
+      const userId = authenticatedUserId(res)
+      const threadId = req.params.id as string
+      const title = typeof req.body?.title === 'string' ? req.body.title.trim() : ''
+      if (!title || title.length > MAX_TITLE_LENGTH) {
+        return res.status(400).json({ error: `title must be 1-${MAX_TITLE_LENGTH} characters` })
+      }
+
+      if (!(await database.updateThread(userId, threadId, { title }))) {
+        return res.status(404).json({ error: 'Thread not found' })
+      }
+
+      const thread = await database.getThread(userId, threadId)
+      res.json(toThreadResponse(thread!))
+    } catch (error: any) {
+      logger.error('[Threads] Rename error:', error)
+      res.status(500).json({ error: 'Failed to rename thread' })
+    }
+  })
+
+  /**
+   * DELETE /api/threads/:id
+   * Deletes the thread and its messages
+   */
+  router.delete('/:id', async (req: Request, res: Response) => {
+    try {
+      const userId = authenticatedUserId(res)
+      const threadId = req.params.id as string
+
+      if (!(await database.deleteThread(userId, threadId))) {
+        return res.status(404).json({ error: 'Thread not found' })
+      }
+
+      onDelete?.(userId, threadId)
+      logger.info(`[Threads] Deleted thread ${threadId}`, { userId })
+      res.json({ deleted: true, thread_id: threadId })
+    } catch (error: any) {
+      logger.error('[Threads] Delete error:', error)
+      res.status(500).json({ error: 'Failed to delete thread' })
+    }
+  })
+
+  return router
+}
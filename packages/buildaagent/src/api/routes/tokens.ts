@@ -1,58 +1,99 @@
 /**
  * Token Bridge API - OAuth Token Access for OpenClaw Agents
  * 
- * Provides secure access to OAuth tokens for OpenClaw agents to use
- * integrated services like Gmail. Only accessible from the configured
- * OpenClaw gateway (not public API).
+ * Provides access to users' OAuth tokens for OpenClaw agents to use
+ * integrated services like Gmail. Only allowlisted agents with a signed
+ * request get through (see require-agent.ts), each limited to the services
+ * it is scoped to. Every access-token request is appended to the audit log.
  */
 
+import fs from 'fs/promises'
+import path from 'path'
 import { Router, Request, Response } from 'express'
 import { TokenStore } from '../../services/token-store'
 import { Logger } from '../../core/logger'
+import { tokenBridgeRequests } from '../../core/metrics'
+import { authenticatedAgent } from '../require-agent'
 
-export function createTokenBridgeRouter(tokenStore: TokenStore, logger: Logger): Router {
+const SUPPORTED_SERVICES = ['gmail'] // Add more services as they're implemented
+
+type TokenAuditOutcome = 'granted' | 'out_of_scope' | 'not_connected' | 'refresh_failed' | 'error'
+
+interface TokenAuditRecord {
+  agent: string
+  service: string
+  userId: string
+  outcome: TokenAuditOutcome
+  requestId?: string
+}
+
+export function createTokenBridgeRouter(tokenStore: TokenStore, logger: Logger, auditPath: string): Router {
   const router = Router()
 
+  const audit = async (res: Response, record: TokenAuditRecord) => {
+    tokenBridgeRequests.inc({ agent: record.agent, service: record.service, outcome: record.outcome })
+
+    const requestId = res.getHeader('X-Request-Id')
+    const line = JSON.stringify({
+      timestamp: new Date().toISOString(),
+      ...record,
+      ...(requestId ? { requestId: String(requestId) } : {})
+    })
+
+    try {
+      await fs.mkdir(path.dirname(auditPath), { recursive: true })
+      await fs.appendFile(auditPath, line + '\n', 'utf8')
+    } catch (error) {
+      // The token is still handed out; the failure is logged instead
+      logger.error('[TokenBridge] Failed to write audit record:', error)
+    }
+  }
+
   /**
    * GET /api/tokens/:service/access-token?user_id=<id>
    * Get a valid access token for a service (auto-refreshes if needed)
    * This is called by OpenClaw agents to access user's connected services
    */
   router.get('/:service/access-token', async (req: Request, res: Response) => {
-    try {
-      const service = req.params.service as string
-      const userId = req.query.user_id as string
+    const agent = authenticatedAgent(res)
+    const service = (req.params.service as string).toLowerCase()
+    const userId = req.query.user_id as string
 
-      logger.info(`[TokenBridge] access-token request: service="${service}" user_id="${userId}"`)
+    try {
+      logger.info(`[TokenBridge] access-token request from ${agent.id}`, { service, userId })
 
       if (!userId) {
-        logger.warn(`[TokenBridge] Missing user_id in access-token request`)
         return res.status(400).json({ error: 'Missing required query parameter: user_id' })
       }
 
-      if (!service || !['gmail'].includes(service.toLowerCase())) {
-        logger.warn(`[TokenBridge] Unsupported service: "${service}"`)
+      if (!SUPPORTED_SERVICES.includes(service)) {
         return res.status(400).json({ error: `Unsupported service: ${service}` })
       }
 
+      if (!agent.services.includes(service)) {
+        logger.warn(`[TokenBridge] Agent ${agent.id} is not scoped for ${service}`)
+        await audit(res, { agent: agent.id, service, userId, outcome: 'out_of_scope' })
+        return res.status(403).json({ error: `Agent ${agent.id} may not access ${service}` })
+      }
+
       // Check if user has connected this service
-      const connected = await tokenStore.hasValidConnection(userId, service)
-      logger.info(`[TokenBridge] hasValidConnection(${userId}, ${service}) = ${connected}`)
-      if (!connected) {
-        logger.warn(`[TokenBridge] Service ${service} NOT connected for user ${userId} — returning 404`)
+      if (!(await tokenStore.hasValidConnection(userId, service))) {
+        await audit(res, { agent: agent.id, service, userId, outcome: 'not_connected' })
         return res.status(404).json({ error: `Service ${service} not connected for user ${userId}` })
       }
 
       // Get a valid access token (auto-refreshes if needed)
       const accessToken = await tokenStore.getValidAccessToken(userId, service)
       if (!accessToken) {
-        logger.error(`[TokenBridge] getValidAccessToken returned null for user ${userId} service ${service} — returning 401`)
+        logger.error(`[TokenBridge] No valid ${service} token for user ${userId}`)
+        await audit(res, { agent: agent.id, service, userId, outcome: 'refresh_failed' })
         return res.status(401).json({ error: `Failed to get valid token for ${service}` })
       }
 
       const email = await tokenStore.getConnectionEmail(userId, service)
 
-      logger.info(`[TokenBridge] SUCCESS: Provided ${service} access token for user ${userId} (${email}), token length=${accessToken.length}`)
+      await audit(res, { agent: agent.id, service, userId, outcome: 'granted' })
+      logger.info(`[TokenBridge] Provided ${service} access token to ${agent.id}`, { userId, email })
 
       res.json({
         access_token: accessToken,
@@ -63,27 +104,29 @@ export function createTokenBridgeRouter(tokenStore: TokenStore, logger: Logger):
       })
 
     } catch (error: any) {
-      logger.error(`[TokenBridge] Error for ${req.params.service}:`, error)
+      logger.error(`[TokenBridge] Error for ${service}:`, error)
+      await audit(res, { agent: agent.id, service, userId, outcome: 'error' })
       res.status(500).json({ error: 'Failed to get access token' })
     }
   })
 
   /**
    * GET /api/tokens/status?user_id=<id>  
-   * Check connection status for all services for a user
+   * Check connection status for the services the calling agent is scoped to
    * Used by OpenClaw agents to know which tools are available
    */
   router.get('/status', async (req: Request, res: Response) => {
     try {
+      const agent = authenticatedAgent(res)
       const userId = req.query.user_id as string
 
-      logger.info(`[TokenBridge] status request: user_id="${userId}"`)
+      logger.debug(`[TokenBridge] status request from ${agent.id}`, { userId })
 
       if (!userId) {
         return res.status(400).json({ error: 'Missing required query parameter: user_id' })
       }
 
-      const services = ['gmail'] // Add more services as they're implemented
+      const services = SUPPORTED_SERVICES.filter(service => agent.services.includes(service))
       const status: Record<string, any> = {}
 
       for (const service of services) {
@@ -94,7 +137,6 @@ export function createTokenBridgeRouter(tokenStore: TokenStore, logger: Logger):
           connected,
           email
         }
-        logger.info(`[TokenBridge] status: ${service} connected=${connected} email=${email}`)
       }
 
       res.json({
@@ -109,4 +151,4 @@ export function createTokenBridgeRouter(tokenStore: TokenStore, logger: Logger):
   })
 
   return router
-}
\ No newline at end of file
+}
@@ -0,0 +1,56 @@
+/**
+ * Trace Debug Routes
+ *
+ * Recent chat request traces kept in memory by the Tracer. Each chat
+ * response carries its trace id in the X-Trace-Id header.
+ */
+
+import { Router, Request, Response } from 'express'
+import { Tracer, toOTLP } from '../../core/tracing'
+
+export function createTracesRouter(tracer: Tracer): Router {
+  const router = Router()
+
+  /**
+   * GET /api/debug/traces
+   * Most recent traces first
+   */
+  router.get('/', (req: Request, res: Response) => {
+    res.json({ traces: tracer.recentTraces() })
+  })
+
+  /**
+   * GET /api/debug/traces/:traceId[?format=otlp]
+   * The trace's spans in start order, or the OTLP/JSON export of them
+   */
+  router.get('/:traceId', (req: Request, res: Response) => {
+    const traceId = req.params.traceId as string
+    const spans = tracer.getTrace(traceId)
+    if (!spans) {
+      return res.status(404).json({ error: 'Trace not found (it may have been evicted)' })
+    }
+
+    if (req.query.format === 'otlp') {
+      return res.json(toOTLP(spans, tracer.config.serviceName))
+    }
+
+    res.json({
+      trace_id: traceId,
+      spans: [...spans]
+        .sort((a, b) => a.startTime - b.startTime)
+        .map(span => ({
+          name: span.name,
+          span_id: span.spanId,
+          parent_span_id: span.parentSpanId,
+          kind: span.kind,
+          start: new Date(span.startTime).toISOString(),
+          duration_ms: span.endTime !== undefined ? span.endTime - span.startTime : undefined,
+          status: span.status,
+          ...(span.statusMessage ? { error: span.statusMessage } : {}),
+          attributes: span.attributes
+        }))
+    })
+  })
+
+  return router
+}
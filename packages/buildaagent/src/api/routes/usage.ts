@@ -0,0 +1,53 @@
+/**
+ * LLM Usage Routes
+ *
+ * The signed-in user's token usage and estimated cost, broken down by day,
+ * purpose (routing, orchestration, response, delegation) and model.
+ */
+
+import { Router, Request, Response } from 'express'
+import { UsageTracker, usageDay } from '../../core/usage-tracker'
+import { Logger } from '../../core/logger'
+import { authenticatedUserId } from '../require-user'
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+const DEFAULT_WINDOW_DAYS = 7
+
+export function createUsageRouter(usageTracker: UsageTracker, logger: Logger): Router {
+  const router = Router()
+
+  /**
+   * GET /api/usage[?day=YYYY-MM-DD | &from=YYYY-MM-DD&to=YYYY-MM-DD][&include_records=true]
+   * Defaults to the last 7 days (UTC)
+   */
+  router.get('/', async (req: Request, res: Response) => {
+    try {
+      const userId = authenticatedUserId(res)
+      const day = req.query.day as string | undefined
+
+      const to = day || (req.query.to as string) || usageDay()
+      const from = day || (req.query.from as string) ||
+        usageDay(new Date(Date.now() - (DEFAULT_WINDOW_DAYS - 1) * 24 * 60 * 60 * 1000))
+
+      if (!DAY_PATTERN.test(from) || !DAY_PATTERN.test(to)) {
+        return res.status(400).json({ error: 'Dates must be in YYYY-MM-DD format' })
+      }
+
+      const records = await usageTracker.getRecords(userId, from, to)
+      const summary = usageTracker.summarize(records)
+
+      res.json({
+        user_id: userId,
+        from,
+        to,
+        ...summary,
+        ...(req.query.include_records === 'true' ? { records } : {})
+      })
+    } catch (error: any) {
+      logger.error('[Usage] Query error:', error)
+      res.status(500).json({ error: 'Failed to get usage' })
+    }
+  })
+
+  return router
+}
@@ -7,76 +7,385 @@
 
 import express from 'express'
 import cors from 'cors'
-import { PersonaEngine } from '../core/persona-engine'
+import crypto from 'crypto'
+import fs from 'fs'
+import path from 'path'
+import { PersonaEngine, ChatStreamListener, MessageResponse } from '../core/persona-engine'
+import { PersonaEnginePool, EnginePoolConfig } from '../core/persona-engine-pool'
 import { SkillRegistry } from '../core/skill-registry'
-import { AgentGateway, DirectGateway } from '../gateway/agent-gateway'
-import { OpenClawGateway, OpenClawConfig } from '../gateway/openclaw-gateway'
-import { MockDatabase as Database } from '../core/mock-database'
-import { Logger } from '../core/logger'
+import { Scheduler } from '../core/scheduler'
+import { ProactiveOutbox } from '../core/proactive-outbox'
+import { UsageTracker } from '../core/usage-tracker'
+import { TIMEZONE_PREFERENCE_KEY, isValidTimezone } from '../core/quiet-hours'
+import { ModelConfig, validateModelConfig, withoutModelNames } from '../core/model-config'
+import { AgentRoster } from '../core/agent-roster'
+import { Orchestrator, OrchestratorConfig } from '../core/orchestrator'
+import { AgentGateway, DirectGateway, DirectProvider, LocalModelConfig } from '../gateway/agent-gateway'
+import { RoutingModel, AnthropicRoutingModel, OpenAICompatibleRoutingModel } from '../gateway/routing-model'
+import { OpenClawGateway, OpenClawConfig, canDelegate } from '../gateway/openclaw-gateway'
+import { RecordingGateway, ReplayGateway } from '../gateway/replay-gateway'
+import { Cassette } from '../gateway/cassette'
+import { OpenClawSessionManager } from '../gateway/openclaw-sessions'
+import { IlanaGateway } from '../gateway/ilana-gateway'
+import { FallbackGateway } from '../gateway/fallback-gateway'
+import { CircuitBreakerConfig } from '../gateway/circuit-breaker'
+import { Database, StorageBackend, createDatabase } from '../core/storage'
+import { FileTransport, FileTransportOptions, LogFormat, Logger, withLogContext } from '../core/logger'
+import { Span, Tracer, TracerConfig } from '../core/tracing'
+import { httpRequestDuration, httpRequests, metrics } from '../core/metrics'
 import { TokenStore } from '../services/token-store'
+import { AccountStore } from '../services/account-store'
 import { GmailService } from '../services/gmail/gmail-service'
-import { createEmailManagerExecutor } from '../skills/email-manager/executor'
 import { createAuthRouter } from './routes/auth'
+import { createAccountsRouter } from './routes/accounts'
+import { authenticatedUserId, requireUser } from './require-user'
+import { LoginThrottle } from './login-throttle'
 import { createTokenBridgeRouter } from './routes/tokens'
+import { requireAgent, TokenBridgeAgent } from './require-agent'
+import { createSchedulesRouter } from './routes/schedules'
+import { createUsageRouter } from './routes/usage'
+import { createSessionsRouter } from './routes/sessions'
+import { createTracesRouter } from './routes/traces'
+import { createMetricsRouter } from './routes/metrics'
+import { createThreadsRouter, threadTitle } from './routes/threads'
 
 export interface ServerConfig {
   port: number
   logLevel: 'debug' | 'info' | 'warn' | 'error'
-  aiProvider: 'anthropic' | 'openai' | 'openclaw'
+  aiProvider: 'anthropic' | 'openai' | 'local' | 'openclaw'
   aiKeyRef: string
   workspacePath: string
+  // Where conversations, preferences, accounts and tokens live (default: sqlite under workspacePath)
+  storage?: {
+    backend?: StorageBackend
+  }
   personasPath: string
   skillsPath: string
+  // Mega's delegation roster (YAML); the built-in roster is used when absent
+  agentsPath?: string
+  // Confidence needed to fan out, most agents per request, decision log path
+  orchestrator?: Partial<OrchestratorConfig>
+  // Trace export (OTLP/JSON file and/or collector) and how many traces to keep
+  tracing?: Partial<TracerConfig>
+  // Console format, redacted keys and an optional rotated JSON log file
+  logging?: {
+    format?: LogFormat
+    redactKeys?: string[]
+    file?: Partial<FileTransportOptions> & { path: string }
+  }
   openclaw?: {
     gatewayUrl: string
     agentId?: string
     model?: string
     sessionPrefix?: string
+    sessionIdleTimeoutMs?: number
     authToken?: string
     timeout?: number
   }
+  // Required for the local provider, which also uses it for routing
+  local?: LocalModelConfig
+  // Model, max_tokens and temperature per purpose; personas can override them
+  models?: ModelConfig
+  enginePool?: Partial<EnginePoolConfig>
+  governance?: {
+    enabled: boolean
+    auditPath?: string
+  }
+  // Providers tried in order when aiProvider fails (anthropic/openai primaries only)
+  fallbackProviders?: Array<'anthropic' | 'openai'>
+  circuitBreaker?: Partial<CircuitBreakerConfig>
+  // Session token signing key and lifetime (a random key is used when unset) and login throttling
+  auth?: {
+    sessionSecret?: string
+    sessionTtlMs?: number
+    loginMaxAttempts?: number
+    loginWindowMs?: number
+  }
+  // OpenClaw agents allowed to fetch users' OAuth tokens; the bridge is off when none are listed
+  tokenBridge?: {
+    agents: TokenBridgeAgent[]
+    maxClockSkewMs?: number
+    auditPath?: string
+  }
+  // Mount /api/debug/traces and /api/debug/database (signed-in callers only); off by default
+  debugEndpoints?: boolean
+  // Record LLM traffic to a cassette file, or replay one instead of calling providers
+  cassette?: {
+    mode: 'record' | 'replay'
+    path: string
+  }
+}
+
+/** Tenant the server's database is named after (workspace/database/api-server.db) */
+export const SERVER_TENANT_ID = 'api-server'
+
+/** API key env var for providers added as fallbacks */
+const PROVIDER_KEY_REFS = {
+  anthropic: 'ANTHROPIC_API_KEY',
+  openai: 'OPENAI_API_KEY'
+} as const
+
+/**
+ * Metrics label for a request: its mount path and route pattern, without a
+ * trailing slash so a router's `/` (e.g. `/api/threads`) is one series
+ */
+function routeLabel(req: express.Request): string {
+  if (!req.route) return 'unmatched'
+  const route = `${req.baseUrl}${req.route.path}`
+  return route.length > 1 ? route.replace(/\/+$/, '') : route
+}
+
+/** The thread a chat request runs in; `created` when the request started it */
+interface ChatThread {
+  id: string
+  created: boolean
 }
 
 export class BuildAAgentServer {
   private app: express.Application
-  private personaEngine!: PersonaEngine
+  private enginePool: PersonaEnginePool
+  private scheduler: Scheduler
+  private outbox: ProactiveOutbox
+  private usageTracker: UsageTracker
   private skillRegistry: SkillRegistry
   private gateway: AgentGateway
+  private routingModel: RoutingModel
+  private roster: AgentRoster
+  private orchestrator: Orchestrator
   private database: Database
   private logger: Logger
+  private tracer: Tracer
   private server: any
   private tokenStore: TokenStore | null = null
+  private accounts: AccountStore
+  private cassette: Cassette | null = null
+  // OpenClaw sessions (openclaw provider only)
+  private sessions: OpenClawSessionManager | null = null
   private gmailService: GmailService
 
   constructor(private config: ServerConfig) {
+    validateModelConfig(config.models, 'server config')
+
     this.app = express()
-    this.logger = new Logger(config.logLevel)
-    this.database = new Database('api-server', config.workspacePath)
+    this.logger = new Logger(config.logLevel, {
+      format: config.logging?.format,
+      redactKeys: config.logging?.redactKeys,
+      transports: config.logging?.file ? [new FileTransport(config.logging.file)] : []
+    })
+    this.tracer = new Tracer(this.logger, config.tracing)
+    this.database = createDatabase(
+      config.storage?.backend || 'sqlite',
+      SERVER_TENANT_ID,
+      config.workspacePath,
+      this.logger.child({ component: 'database' })
+    )
     this.skillRegistry = new SkillRegistry(this.logger)
+    this.usageTracker = new UsageTracker(this.database, this.logger)
+    this.accounts = this.createAccountStore(config)
+    this.roster = this.loadRoster(config.agentsPath)
+    // Local setups route on the local server too, so nothing needs the internet
+    this.routingModel = config.aiProvider === 'local' && config.local
+      ? new OpenAICompatibleRoutingModel(config.local, this.usageTracker, config.models)
+      : new AnthropicRoutingModel(this.usageTracker, config.models)
     this.gateway = this.createGateway(config)
+    // After createGateway, which swaps in the cassette's or governed routing model
+    this.orchestrator = new Orchestrator(this.roster, this.routingModel, this.logger, {
+      ...config.orchestrator,
+      decisionLogPath: config.orchestrator?.decisionLogPath ||
+        path.join(config.workspacePath, 'audit', 'orchestrator-decisions.jsonl')
+    })
     this.gmailService = new GmailService(this.logger)
+    this.enginePool = new PersonaEnginePool(
+      (personaId) => new PersonaEngine(
+        personaId,
+        this.skillRegistry,
+        this.gateway,
+        this.database,
+        this.logger,
+        this.usageTracker,
+        this.routingModel,
+        this.orchestrator
+      ),
+      this.logger,
+      config.enginePool
+    )
+    this.outbox = new ProactiveOutbox(this.database, this.logger)
+    this.scheduler = new Scheduler(this.enginePool, this.outbox, this.database, this.logger)
 
     this.setupMiddleware()
     this.setupGmailIntegration()
     this.setupRoutes()
   }
 
+  /**
+   * The provider gateway (or a cassette replay of one), recorded when a
+   * cassette is being made, with governance applied on the outside so it is
+   * enforced live in both modes. Recording and replay also take over routing,
+   * and governance then checks the routing calls too.
+   */
   private createGateway(config: ServerConfig): AgentGateway {
-    if (config.aiProvider === 'openclaw') {
-      if (!config.openclaw) {
-        throw new Error('OpenClaw configuration required when using openclaw provider')
-      }
-      
-      this.logger.info('Creating OpenClaw gateway', { 
-        gatewayUrl: config.openclaw.gatewayUrl,
-        agentId: config.openclaw.agentId 
-      })
-      
-      return new OpenClawGateway(config.openclaw, this.logger)
+    let gateway: AgentGateway
+
+    if (config.cassette?.mode === 'replay') {
+      this.logger.info('Replaying LLM traffic from cassette', { path: config.cassette.path })
+      this.cassette = Cassette.load(config.cassette.path)
+      const replay = new ReplayGateway(this.cassette)
+      this.routingModel = replay.routingModel
+      gateway = replay
     } else {
-      this.logger.info('Creating direct gateway', { provider: config.aiProvider })
-      return new DirectGateway(config.aiProvider, config.aiKeyRef)
+      gateway = config.aiProvider === 'openclaw'
+        ? this.createOpenClawGateway(config)
+        : this.createDirectGateway(config, config.aiProvider)
+
+      if (config.cassette?.mode === 'record') {
+        this.logger.info('Recording LLM traffic to cassette', { path: config.cassette.path })
+        this.cassette = Cassette.create(config.cassette.path, {
+          supportsTools: !!gateway.supportsTools,
+          supportsDelegation: canDelegate(gateway)
+        })
+        const recording = new RecordingGateway(gateway, this.cassette, this.routingModel)
+        this.routingModel = recording.routingModel
+        gateway = recording
+      }
+    }
+
+    if (config.governance?.enabled) {
+      const auditPath = config.governance.auditPath || path.join(config.workspacePath, 'audit', 'ilana-audit.jsonl')
+      this.logger.info('Wrapping gateway with Ilana governance', { auditPath })
+      const governed = new IlanaGateway(gateway, this.logger, { auditPath, usageTracker: this.usageTracker }, this.routingModel)
+      this.routingModel = governed.routingModel
+      return governed
+    }
+
+    return gateway
+  }
+
+  private createOpenClawGateway(config: ServerConfig): AgentGateway {
+    if (!config.openclaw) {
+      throw new Error('OpenClaw configuration required when using openclaw provider')
     }
+
+    if (config.fallbackProviders?.length) {
+      this.logger.warn('Provider fallbacks are not supported with the openclaw provider, ignoring')
+    }
+
+    this.logger.info('Creating OpenClaw gateway', { 
+      gatewayUrl: config.openclaw.gatewayUrl,
+      agentId: config.openclaw.agentId 
+    })
+    
+    const gateway = new OpenClawGateway(config.openclaw, this.logger, this.usageTracker, config.models, this.roster)
+    this.sessions = gateway.sessions
+    return gateway
+  }
+
+  /** Invalid roster files fail startup; a missing one falls back to the built-in roster */
+  private loadRoster(agentsPath?: string): AgentRoster {
+    if (!agentsPath || !fs.existsSync(agentsPath)) {
+      this.logger.info('Using the built-in agent roster')
+      return AgentRoster.default()
+    }
+
+    const roster = AgentRoster.load(agentsPath)
+    this.logger.info('Loaded agent roster', { path: agentsPath, agents: roster.ids, default: roster.defaultAgent })
+    return roster
+  }
+
+  private createDirectGateway(config: ServerConfig, provider: DirectProvider): AgentGateway {
+    this.logger.info('Creating direct gateway', {
+      provider,
+      ...(provider === 'local' ? { baseUrl: config.local?.baseUrl, model: config.local?.model } : {})
+    })
+    const gateway = new DirectGateway(
+      provider,
+      config.aiKeyRef,
+      this.usageTracker,
+      config.local,
+      config.models
+    )
+
+    const fallbacks = (config.fallbackProviders || []).filter(fallback => fallback !== provider)
+    if (fallbacks.length === 0) {
+      return gateway
+    }
+
+    this.logger.info('Adding provider fallback chain', { providers: [provider, ...fallbacks] })
+    return new FallbackGateway([
+      { name: provider, gateway },
+      ...fallbacks.map(fallback => ({
+        name: fallback,
+        // Configured model names are for the primary provider
+        gateway: new DirectGateway(
+          fallback,
+          PROVIDER_KEY_REFS[fallback],
+          this.usageTracker,
+          undefined,
+          withoutModelNames(config.models)
+        )
+      }))
+    ], this.logger, config.circuitBreaker)
+  }
+
+  private createAccountStore(config: ServerConfig): AccountStore {
+    let sessionSecret = config.auth?.sessionSecret
+    if (!sessionSecret) {
+      this.logger.warn('AUTH_SESSION_SECRET not set — using a random key, so sign-ins end when the server restarts')
+      sessionSecret = crypto.randomBytes(32).toString('hex')
+    }
+
+    return new AccountStore(this.database, this.logger, {
+      sessionSecret,
+      ...(config.auth?.sessionTtlMs ? { sessionTtlMs: config.auth.sessionTtlMs } : {})
+    })
+  }
+
+  /**
+   * Traces and database stats span every user (user and thread ids, span
+   * attributes), so they exist only when debugEndpoints is set, and then
+   * only for signed-in callers.
+   */
+  private setupDebugEndpoints(signedIn: express.RequestHandler): void {
+    if (!this.config.debugEndpoints) return
+    this.logger.warn('Debug endpoints enabled — any signed-in account can read every user\'s traces')
+
+    // Recent request traces
+    this.app.use('/api/debug/traces', signedIn, createTracesRouter(this.tracer))
+
+    // Database state
+    this.app.get('/api/debug/database', signedIn, async (req, res) => {
+      try {
+        const stats = await this.database.getStats()
+
+        res.json({
+          storage_backend: this.config.storage?.backend || 'sqlite',
+          database_stats: stats,
+          token_store_enabled: !!this.tokenStore
+        })
+      } catch (error: any) {
+        this.logger.error('Error reading database stats:', error)
+        res.status(500).json({ error: 'Failed to read database stats' })
+      }
+    })
+  }
+
+  /** Mounted only for configured agents; without any, no caller can fetch tokens */
+  private setupTokenBridge(tokenStore: TokenStore): void {
+    const bridge = this.config.tokenBridge
+    if (!bridge?.agents.length) {
+      this.logger.warn('No token bridge agents configured — /api/tokens disabled')
+      return
+    }
+
+    const auditPath = bridge.auditPath || path.join(this.config.workspacePath, 'audit', 'token-bridge.jsonl')
+    this.app.use(
+      '/api/tokens',
+      requireAgent(bridge.agents, this.logger, bridge.maxClockSkewMs),
+      createTokenBridgeRouter(tokenStore, this.logger, auditPath)
+    )
+    this.logger.info('Token bridge enabled', {
+      agents: bridge.agents.map(agent => `${agent.id} (${agent.services.join(', ')})`),
+      auditPath
+    })
   }
 
   private setupGmailIntegration(): void {
@@ -98,18 +407,37 @@ export class BuildAAgentServer {
     // CORS for React Native mobile app
     this.app.use(cors({
       origin: ['http://localhost:19000', 'http://localhost:19001'], // Expo dev server
-      methods: ['GET', 'POST', 'PUT', 'DELETE'],
-      allowedHeaders: ['Content-Type', 'Authorization']
+      methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'],
+      allowedHeaders: ['Content-Type', 'Authorization', 'X-Request-Id'],
+      exposedHeaders: ['X-Request-Id', 'X-Trace-Id']
     }))
 
     this.app.use(express.json({ limit: '10mb' }))
     this.app.use(express.urlencoded({ extended: true }))
 
-    // Request logging
+    // Request logging; everything logged while handling a request carries its requestId
+    this.app.use((req, res, next) => {
+      const requestId = req.get('X-Request-Id') || crypto.randomUUID()
+      res.setHeader('X-Request-Id', requestId)
+
+      withLogContext({ requestId }, () => {
+        this.logger.info(`${req.method} ${req.path}`, { queryKeys: Object.keys(req.query) })
+        // Bodies hold chat messages and OAuth codes; redaction masks those keys
+        if (req.body && Object.keys(req.body).length > 0) {
+          this.logger.debug('Request body', { body: req.body })
+        }
+        next()
+      })
+    })
+
+    // Request count and latency, labelled by the matched route pattern (not the raw path)
     this.app.use((req, res, next) => {
-      this.logger.info(`${req.method} ${req.path}`, { 
-        body: req.body,
-        query: req.query 
+      const start = process.hrtime.bigint()
+      res.on('finish', () => {
+        const route = routeLabel(req)
+        const seconds = Number(process.hrtime.bigint() - start) / 1e9
+        httpRequests.inc({ method: req.method, route, status: String(res.statusCode) })
+        httpRequestDuration.observe({ method: req.method, route }, seconds)
       })
       next()
     })
@@ -153,58 +481,147 @@ export class BuildAAgentServer {
     })
 
     // Chat endpoint - main interaction with agent
-    this.app.post('/api/chat', async (req, res) => {
-      try {
-        const { message, persona, user_id } = req.body
+    this.app.post('/api/chat', requireUser(this.accounts), async (req, res) => {
+      const { message, persona, timezone, thread_id } = req.body
+      const userId = authenticatedUserId(res)
+
+      if (!message) {
+        return res.status(400).json({ error: 'Message is required' })
+      }
 
-        if (!message) {
-          return res.status(400).json({ error: 'Message is required' })
+      await this.traceChat('chat', userId, req.body, false, async span => {
+        res.setHeader('X-Trace-Id', span.traceId)
+
+        try {
+          const thread = await this.resolveThread(userId, thread_id, message, persona || 'personal-assistant')
+          if (!thread) {
+            res.status(404).json({ error: 'Thread not found' })
+            return
+          }
+
+          // Device timezone resolves `timezone: auto` for quiet hours
+          if (timezone && isValidTimezone(timezone)) {
+            await this.database.setUserPreference(userId, TIMEZONE_PREFERENCE_KEY, timezone)
+          }
+
+          const response = await this.processMessage(
+            message, 
+            persona || 'personal-assistant', 
+            userId,
+            undefined,
+            thread
+          )
+
+          res.json(response)
+        } catch (error: any) {
+          this.logger.error('Error processing chat message:', error)
+          span.setError(error)
+          res.status(500).json({ error: 'Failed to process message' })
         }
+      })
+    })
 
-        const response = await this.processMessage(
-          message, 
-          persona || 'personal-assistant', 
-          user_id || 'mobile_user'
-        )
+    // Streaming chat - same as /api/chat but emits Server-Sent Events:
+    // routing, skill_start, skill_finish, token, reset, then done (or error)
+    this.app.post('/api/chat/stream', requireUser(this.accounts), async (req, res) => {
+      const { message, persona, timezone, thread_id } = req.body
+      const userId = authenticatedUserId(res)
 
-        res.json(response)
-      } catch (error: any) {
-        this.logger.error('Error processing chat message:', error)
-        res.status(500).json({ error: 'Failed to process message' })
+      if (!message) {
+        return res.status(400).json({ error: 'Message is required' })
       }
+
+      await this.traceChat('chat.stream', userId, req.body, true, async span => {
+        // Checked before the stream starts so a bad thread_id gets a plain 404
+        let thread: ChatThread | null
+        try {
+          thread = await this.resolveThread(userId, thread_id, message, persona || 'personal-assistant')
+        } catch (error: any) {
+          this.logger.error('Error resolving chat thread:', error)
+          span.setError(error)
+          res.status(500).json({ error: 'Failed to process message' })
+          return
+        }
+        if (!thread) {
+          res.status(404).json({ error: 'Thread not found' })
+          return
+        }
+
+        res.writeHead(200, {
+          'Content-Type': 'text/event-stream',
+          'Cache-Control': 'no-cache',
+          'Connection': 'keep-alive',
+          'X-Trace-Id': span.traceId
+        })
+
+        const send = (event: string, data: unknown) => {
+          if (res.writableEnded) return
+          res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+        }
+
+        try {
+          if (timezone && isValidTimezone(timezone)) {
+            await this.database.setUserPreference(userId, TIMEZONE_PREFERENCE_KEY, timezone)
+          }
+
+          const response = await this.processMessage(
+            message,
+            persona || 'personal-assistant',
+            userId,
+            ({ type, ...data }) => send(type, data),
+            thread
+          )
+
+          send('done', response)
+        } catch (error: any) {
+          this.logger.error('Error processing streamed chat message:', error)
+          span.setError(error)
+          send('error', { error: 'Failed to process message' })
+        } finally {
+          res.end()
+        }
+      })
     })
 
+    // Prometheus scrape endpoint
+    this.app.use('/metrics', createMetricsRouter(metrics))
+
+    // Sign-up and login (public); everything user-scoped below requires a session token
+    this.app.use('/api/auth', createAccountsRouter(this.accounts, this.logger, new LoginThrottle({
+      ...(this.config.auth?.loginMaxAttempts ? { maxAttempts: this.config.auth.loginMaxAttempts } : {}),
+      ...(this.config.auth?.loginWindowMs ? { windowMs: this.config.auth.loginWindowMs } : {})
+    })))
+    const signedIn = requireUser(this.accounts)
+
+    // Scheduled persona jobs (cron_schedules)
+    this.app.use('/api/schedules', signedIn, createSchedulesRouter(this.scheduler, this.logger))
+
+    // LLM token usage and cost
+    this.app.use('/api/usage', signedIn, createUsageRouter(this.usageTracker, this.logger))
+
+    // Conversation threads and their messages
+    this.app.use('/api/threads', signedIn, createThreadsRouter(this.database, this.logger, (userId, threadId) => {
+      this.sessions?.reset(userId, { threadId })
+    }))
+
+    // OpenClaw sessions per user, agent and thread
+    if (this.sessions) {
+      this.app.use('/api/sessions', signedIn, createSessionsRouter(this.sessions, this.logger))
+    }
+
     // Auth routes (Gmail OAuth)
     if (this.tokenStore) {
+      this.app.use('/api/auth/gmail', signedIn)
       this.app.use('/api/auth', createAuthRouter(this.tokenStore, this.logger))
-      this.app.use('/api/tokens', createTokenBridgeRouter(this.tokenStore, this.logger))
+      this.setupTokenBridge(this.tokenStore)
     }
 
-    // Debug endpoint - show database state
-    this.app.get('/api/debug/database', async (req, res) => {
-      try {
-        const stats = await this.database.getStats()
-        const allTokens = (this.database as any).oauthTokens || new Map()
-        const tokenKeys = Array.from(allTokens.keys())
-        
-        res.json({
-          database_stats: stats,
-          oauth_tokens_stored: tokenKeys,
-          oauth_count: allTokens.size,
-          token_store_enabled: !!this.tokenStore
-        })
-      } catch (error: any) {
-        res.status(500).json({ error: error.message })
-      }
-    })
+    this.setupDebugEndpoints(signedIn)
 
     // Services status endpoint
-    this.app.get('/api/services/status', async (req, res) => {
+    this.app.get('/api/services/status', signedIn, async (req, res) => {
       try {
-        const userId = req.query.user_id as string
-        if (!userId) {
-          return res.status(400).json({ error: 'Missing required query parameter: user_id' })
-        }
+        const userId = authenticatedUserId(res)
 
         const gmail = this.tokenStore
           ? {
@@ -238,28 +655,95 @@ export class BuildAAgentServer {
     })
   }
 
-  private async processMessage(message: string, personaId: string, userId: string) {
+  /**
+   * The chat's thread: the user's thread named by thread_id (now its latest
+   * activity), or a new one titled after the message. Null when thread_id
+   * names no thread of theirs.
+   */
+  private async resolveThread(
+    userId: string,
+    threadId: unknown,
+    message: string,
+    personaId: string
+  ): Promise<ChatThread | null> {
+    const now = new Date().toISOString()
+    if (threadId !== undefined && threadId !== null) {
+      if (typeof threadId !== 'string') return null
+      return await this.database.updateThread(userId, threadId, { updatedAt: now }) ? { id: threadId, created: false } : null
+    }
+
+    const id = `thread_${crypto.randomUUID()}`
+    await this.database.createThread({ id, userId, title: threadTitle(message), persona: personaId, createdAt: now, updatedAt: now })
+    return { id, created: true }
+  }
+
+  /** Delete a thread the chat created but stored nothing in; true if it was deleted */
+  private async discardEmptyThread(userId: string, threadId: string): Promise<boolean> {
+    try {
+      const [first] = await this.database.getThreadMessages(userId, threadId, 1)
+      if (first) return false
+      return await this.database.deleteThread(userId, threadId)
+    } catch (error) {
+      this.logger.warn(`Failed to discard empty thread ${threadId}:`, error)
+      return false
+    }
+  }
+
+  /** Run a chat request as a new trace; its id goes back in X-Trace-Id */
+  private traceChat(
+    name: string,
+    userId: string,
+    body: { persona?: string, thread_id?: string, message: string },
+    stream: boolean,
+    handle: (span: Span) => Promise<void>
+  ): Promise<void> {
+    return this.tracer.trace(name, {
+      'user.id': userId,
+      'persona.id': body.persona || 'personal-assistant',
+      'thread.id': body.thread_id,
+      'message.length': body.message.length,
+      stream
+    }, span => withLogContext({ traceId: span.traceId, userId }, () => handle(span)))
+  }
+
+  private async processMessage(
+    message: string,
+    personaId: string,
+    userId: string,
+    onEvent?: ChatStreamListener,
+    thread?: ChatThread
+  ) {
     this.logger.info(`Processing message for persona: ${personaId}, user: ${userId}`)
     
-    // Load persona if not already loaded or if switching personas
-    if (!this.personaEngine || this.personaEngine.currentPersona !== personaId) {
-      this.personaEngine = new PersonaEngine(
-        personaId,
-        this.skillRegistry,
-        this.gateway,
-        this.database,
-        this.logger
+    // Start running this persona's cron_schedules for the user
+    this.scheduler.registerUser(userId, personaId).catch(error => {
+      this.logger.warn(`Failed to register scheduled jobs for ${userId}:`, error)
+    })
+
+    // Process the message through the persona engine. A thread started by
+    // this message is removed again if it failed or only got the persona's
+    // error reply (neither is stored), and the reply then names no thread.
+    let threadId = thread?.id
+    let response: MessageResponse
+    try {
+      // Each user gets their own engine per persona, loaded on first use
+      response = await this.enginePool.use(userId, personaId, engine =>
+        engine.processMessage(message, userId, onEvent, threadId)
       )
-      await this.personaEngine.loadPersona(personaId)
+    } catch (error) {
+      if (thread?.created) await this.discardEmptyThread(userId, thread.id)
+      throw error
+    }
+    if (thread?.created && await this.discardEmptyThread(userId, thread.id)) {
+      threadId = undefined
     }
-
-    // Process the message through the persona engine
-    const response = await this.personaEngine.processMessage(message, userId)
     
     return {
       response: response.message,
       persona: personaId,
       skill_used: response.skillUsed,
+      ...(response.toolCalls ? { tool_calls: response.toolCalls } : {}),
+      ...(threadId ? { thread_id: threadId } : {}),
       timestamp: new Date().toISOString(),
       user_id: userId
     }
@@ -334,6 +818,7 @@ export class BuildAAgentServer {
       details: {
         database: dbStatus,
         gateway: gatewayStatus,
+        engines: this.enginePool.getStats(),
         uptime: process.uptime(),
         memory: process.memoryUsage(),
         timestamp: new Date().toISOString()
@@ -345,48 +830,49 @@ export class BuildAAgentServer {
     try {
       // Initialize core systems
       await this.database.init()
-      await this.skillRegistry.loadSkills(this.config.skillsPath)
-
-      // Register real email-manager skill (replaces placeholder)
-      if (this.tokenStore) {
-        const emailExecutor = createEmailManagerExecutor(
-          this.tokenStore,
-          this.gmailService,
-          this.logger
-        )
-        this.skillRegistry.registerExternalSkill(
-          {
-            name: 'email-manager',
-            version: '1.0.0',
-            description: 'Gmail integration for reading, sending, and organizing emails',
-            capabilities: [
-              { name: 'read', description: 'Read recent emails', parameters: [] },
-              { name: 'send', description: 'Send an email', parameters: [] },
-              { name: 'unread_count', description: 'Get unread email count', parameters: [] },
-              { name: 'search', description: 'Search emails', parameters: [] }
-            ]
-          },
-          emailExecutor
-        )
-      }
+      // Filesystem skills (e.g. email-manager) get the services they need from here
+      await this.skillRegistry.loadSkills(this.config.skillsPath, {
+        tokenStore: this.tokenStore,
+        gmailService: this.gmailService
+      })
 
-      // Start HTTP server
-      this.server = this.app.listen(this.config.port, () => {
-        this.logger.info(`🚀 BuildAAgent API Server running on port ${this.config.port}`)
-        this.logger.info(`📱 Mobile app can connect to: http://localhost:${this.config.port}`)
-        this.logger.info(`🎭 Available endpoints:`)
-        this.logger.info(`   GET  /api/health - Health check`)
-        this.logger.info(`   GET  /api/personas - List available personas`)
-        this.logger.info(`   GET  /api/personas/:id - Get persona details`)
-        this.logger.info(`   POST /api/chat - Chat with agent`)
-        if (this.tokenStore) {
-          this.logger.info(`   POST /api/auth/gmail/callback - Gmail OAuth callback`)
-          this.logger.info(`   GET  /api/auth/gmail/status - Gmail connection status`)
-          this.logger.info(`   POST /api/auth/gmail/disconnect - Disconnect Gmail`)
-          this.logger.info(`   GET  /api/services/status - Connected services status`)
-          this.logger.info(`   GET  /api/tokens/:service/access-token - Token bridge for OpenClaw`)
-          this.logger.info(`   GET  /api/tokens/status - Token status for OpenClaw`)
-        }
+      await this.outbox.start()
+      await this.scheduler.start()
+
+      // Start HTTP server; resolves once it is accepting connections
+      await new Promise<void>((resolve, reject) => {
+        this.server = this.app.listen(this.config.port, () => {
+          this.logger.info(`🚀 BuildAAgent API Server running on port ${this.port}`)
+          this.logger.info(`📱 Mobile app can connect to: http://localhost:${this.port}`)
+          this.logger.info(`🎭 Available endpoints:`)
+          this.logger.info(`   GET  /api/health - Health check`)
+          this.logger.info(`   GET  /metrics - Prometheus metrics`)
+          this.logger.info(`   POST /api/auth/signup - Create an account`)
+          this.logger.info(`   POST /api/auth/login - Log in (returns a session token)`)
+          this.logger.info(`   GET  /api/auth/me - Signed-in account`)
+          this.logger.info(`   GET  /api/personas - List available personas`)
+          this.logger.info(`   GET  /api/personas/:id - Get persona details`)
+          this.logger.info(`   POST /api/chat - Chat with agent`)
+          this.logger.info(`   POST /api/chat/stream - Chat with agent (Server-Sent Events)`)
+          this.logger.info(`   GET  /api/schedules - Scheduled job status`)
+          this.logger.info(`   GET  /api/usage - LLM token usage and cost`)
+          this.logger.info(`   GET  /api/threads - Conversation threads`)
+          this.logger.info(`   GET  /api/threads/:id/messages - Thread messages (paged)`)
+          this.logger.info(`   PATCH/DELETE /api/threads/:id - Rename or delete a thread`)
+          this.logger.info(`   POST /api/schedules/:job/run - Run a scheduled job now`)
+          if (this.tokenStore) {
+            this.logger.info(`   POST /api/auth/gmail/callback - Gmail OAuth callback`)
+            this.logger.info(`   GET  /api/auth/gmail/status - Gmail connection status`)
+            this.logger.info(`   POST /api/auth/gmail/disconnect - Disconnect Gmail`)
+            this.logger.info(`   GET  /api/services/status - Connected services status`)
+          }
+          if (this.tokenStore && this.config.tokenBridge?.agents.length) {
+            this.logger.info(`   GET  /api/tokens/:service/access-token - Token bridge for OpenClaw (signed)`)
+            this.logger.info(`   GET  /api/tokens/status - Token status for OpenClaw (signed)`)
+          }
+          resolve()
+        })
+        this.server.once('error', reject)
       })
     } catch (error: any) {
       this.logger.error('❌ Failed to start server:', error)
@@ -394,11 +880,29 @@ export class BuildAAgentServer {
     }
   }
 
+  /** The port being listened on (the OS-assigned one when configured as 0) */
+  get port(): number {
+    return this.server?.address()?.port ?? this.config.port
+  }
+
+  /** The cassette being recorded or replayed, if any */
+  getCassette(): Cassette | null {
+    return this.cassette
+  }
+
   async stop(): Promise<void> {
     if (this.server) {
-      this.server.close()
+      const closed = new Promise<void>(resolve => this.server.close(() => resolve()))
+      // Idle keep-alive connections would otherwise hold the server open
+      this.server.closeIdleConnections?.()
+      await closed
       this.logger.info('⏹️ Server stopped')
     }
+
+    this.scheduler.stop()
+    this.outbox.stop()
+    this.sessions?.stop()
+    await this.enginePool.shutdown()
     
     if (this.database) {
       await this.database.close()
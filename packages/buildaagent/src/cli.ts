@@ -15,7 +15,62 @@ const MONOREPO_ROOT = path.resolve(__dirname, '..', '..', '..')
 dotenv.config({ path: path.join(MONOREPO_ROOT, '.env.local') })
 dotenv.config({ path: path.join(MONOREPO_ROOT, '.env') })
 
-import { BuildAAgentServer, ServerConfig } from './api/server'
+import fs from 'fs'
+import BetterSqlite3 from 'better-sqlite3'
+import { BuildAAgentServer, ServerConfig, SERVER_TENANT_ID } from './api/server'
+import { databasePath } from './core/database'
+import { parseStorageBackend } from './core/storage'
+import { MigrationRunner } from './core/migrations'
+import { Logger } from './core/logger'
+import { ModelConfig, ModelSettings, MODEL_PURPOSES } from './core/model-config'
+import { TokenBridgeAgent } from './api/require-agent'
+
+/** AI_MODEL, AI_MAX_TOKENS, AI_TEMPERATURE, or with a purpose: AI_RESPONSE_MODEL, ... */
+function modelSettingsFromEnv(prefix: string): ModelSettings | undefined {
+  const model = process.env[`${prefix}_MODEL`]
+  const maxTokens = process.env[`${prefix}_MAX_TOKENS`]
+  const temperature = process.env[`${prefix}_TEMPERATURE`]
+  if (!model && !maxTokens && !temperature) return undefined
+
+  // Malformed numbers come through as NaN and fail validation at startup
+  return {
+    ...(model ? { model } : {}),
+    ...(maxTokens ? { max_tokens: Number(maxTokens) } : {}),
+    ...(temperature ? { temperature: Number(temperature) } : {})
+  }
+}
+
+function modelConfigFromEnv(): ModelConfig | undefined {
+  const config: ModelConfig = {}
+  const defaults = modelSettingsFromEnv('AI')
+  if (defaults) config.default = defaults
+  for (const purpose of MODEL_PURPOSES) {
+    const settings = modelSettingsFromEnv(`AI_${purpose.toUpperCase()}`)
+    if (settings) config[purpose] = settings
+  }
+  return Object.keys(config).length > 0 ? config : undefined
+}
+
+/**
+ * TOKEN_BRIDGE_AGENTS=assistant:gmail,main:gmail+calendar — agent ids and
+ * the services each may fetch. Each agent's secret is
+ * TOKEN_BRIDGE_SECRET_<ID> (e.g. TOKEN_BRIDGE_SECRET_ASSISTANT).
+ */
+function tokenBridgeAgentsFromEnv(): TokenBridgeAgent[] {
+  return (process.env.TOKEN_BRIDGE_AGENTS || '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map(entry => {
+      const [id, services = ''] = entry.split(':').map(part => part.trim())
+      return {
+        id,
+        // A missing secret fails startup rather than leaving the agent unauthenticated
+        secret: process.env[`TOKEN_BRIDGE_SECRET_${id.toUpperCase().replace(/-/g, '_')}`] || '',
+        services: services.split('+').map(service => service.trim().toLowerCase()).filter(Boolean)
+      }
+    })
+}
 
 function getConfig(): ServerConfig {
   const config: ServerConfig = {
@@ -24,8 +79,88 @@ function getConfig(): ServerConfig {
     aiProvider: (process.env.AI_PROVIDER as any) || 'anthropic',
     aiKeyRef: process.env.AI_KEY_REF || 'ANTHROPIC_API_KEY',
     workspacePath: process.env.WORKSPACE_PATH || path.join(process.cwd(), 'workspace'),
+    storage: {
+      backend: parseStorageBackend(process.env.STORAGE_BACKEND)
+    },
     personasPath: process.env.PERSONAS_PATH || path.join(process.cwd(), 'config', 'personas'),
-    skillsPath: process.env.SKILLS_PATH || path.join(process.cwd(), 'src', 'skills')
+    agentsPath: process.env.AGENTS_PATH || path.join(process.cwd(), 'config', 'agents.yaml'),
+    orchestrator: {
+      fanOutThreshold: parseFloat(process.env.ORCHESTRATOR_FANOUT_THRESHOLD || '0.5'),
+      maxFanOut: parseInt(process.env.ORCHESTRATOR_MAX_AGENTS || '3'),
+      decisionLogPath: process.env.ORCHESTRATOR_DECISION_LOG
+    },
+    // The skills next to this file: src/skills under tsx, dist/skills once built
+    skillsPath: process.env.SKILLS_PATH || path.join(__dirname, 'skills'),
+    models: modelConfigFromEnv(),
+    enginePool: {
+      maxEngines: parseInt(process.env.ENGINE_POOL_MAX || '100'),
+      idleTimeoutMs: parseInt(process.env.ENGINE_IDLE_TIMEOUT_MS || '1800000')
+    },
+    logging: {
+      format: process.env.LOG_FORMAT === 'json' ? 'json' : 'text',
+      redactKeys: process.env.LOG_REDACT_KEYS
+        ? process.env.LOG_REDACT_KEYS.split(',').map(key => key.trim()).filter(Boolean)
+        : undefined,
+      file: process.env.LOG_FILE
+        ? {
+            path: process.env.LOG_FILE,
+            maxBytes: parseInt(process.env.LOG_FILE_MAX_BYTES || '10485760'),
+            maxFiles: parseInt(process.env.LOG_FILE_MAX_FILES || '5')
+          }
+        : undefined
+    },
+    auth: {
+      sessionSecret: process.env.AUTH_SESSION_SECRET,
+      sessionTtlMs: parseInt(process.env.AUTH_SESSION_TTL_MS || '2592000000'),
+      loginMaxAttempts: parseInt(process.env.AUTH_LOGIN_MAX_ATTEMPTS || '10'),
+      loginWindowMs: parseInt(process.env.AUTH_LOGIN_WINDOW_MS || '900000')
+    },
+    tracing: {
+      maxTraces: parseInt(process.env.TRACE_BUFFER_SIZE || '100'),
+      filePath: process.env.TRACE_FILE,
+      collectorUrl: process.env.TRACE_COLLECTOR_URL
+    },
+    debugEndpoints: process.env.DEBUG_ENDPOINTS === 'true',
+    tokenBridge: {
+      agents: tokenBridgeAgentsFromEnv(),
+      maxClockSkewMs: parseInt(process.env.TOKEN_BRIDGE_MAX_SKEW_MS || '300000'),
+      auditPath: process.env.TOKEN_BRIDGE_AUDIT_PATH
+    },
+    governance: {
+      enabled: process.env.GOVERNANCE_ENABLED === 'true',
+      auditPath: process.env.GOVERNANCE_AUDIT_PATH
+    },
+    fallbackProviders: (process.env.AI_FALLBACK_PROVIDERS || '')
+      .split(',')
+      .map(provider => provider.trim())
+      .filter((provider): provider is 'anthropic' | 'openai' => provider === 'anthropic' || provider === 'openai'),
+    circuitBreaker: {
+      failureThreshold: parseInt(process.env.CIRCUIT_BREAKER_THRESHOLD || '3'),
+      resetTimeoutMs: parseInt(process.env.CIRCUIT_BREAKER_RESET_MS || '30000')
+    }
+  }
+
+  // Record LLM traffic to a cassette, or replay one with no provider calls
+  const cassetteMode = process.env.AI_CASSETTE_MODE
+  if (cassetteMode === 'record' || cassetteMode === 'replay') {
+    config.cassette = {
+      mode: cassetteMode,
+      path: process.env.AI_CASSETTE_PATH || path.join(config.workspacePath, 'cassettes', 'session.json')
+    }
+  }
+
+  // Local OpenAI-compatible server (Ollama defaults) for offline operation
+  if (config.aiProvider === 'local') {
+    config.local = {
+      baseUrl: process.env.LOCAL_MODEL_BASE_URL || 'http://localhost:11434/v1',
+      model: process.env.LOCAL_MODEL || 'llama3.1',
+      models: {
+        routing: process.env.LOCAL_ROUTING_MODEL,
+        orchestration: process.env.LOCAL_ORCHESTRATION_MODEL,
+        response: process.env.LOCAL_RESPONSE_MODEL
+      },
+      apiKey: process.env.LOCAL_MODEL_API_KEY
+    }
   }
 
   // Add OpenClaw configuration if using openclaw provider
@@ -35,6 +170,7 @@ function getConfig(): ServerConfig {
       agentId: process.env.OPENCLAW_AGENT_ID,
       model: process.env.OPENCLAW_MODEL || 'sonnet',
       sessionPrefix: process.env.OPENCLAW_SESSION_PREFIX || 'buildaagent',
+      sessionIdleTimeoutMs: parseInt(process.env.OPENCLAW_SESSION_IDLE_MS || '14400000'),
       authToken: process.env.OPENCLAW_AUTH_TOKEN,
       timeout: parseInt(process.env.OPENCLAW_TIMEOUT || '45000')
     }
@@ -43,13 +179,23 @@ function getConfig(): ServerConfig {
   return config
 }
 
+/** getConfig, or exit with the reason when a setting is invalid */
+function loadConfig(): ServerConfig {
+  try {
+    return getConfig()
+  } catch (error: any) {
+    console.error(`❌ Invalid configuration: ${error.message}`)
+    process.exit(1)
+  }
+}
+
 async function main() {
   console.log('🤖 BuildAAgent - Starting HTTP API Server...')
   console.log('')
 
+  const config = loadConfig()
+
   try {
-    const config = getConfig()
-    
     const hasApiKey = !!(process.env.ANTHROPIC_API_KEY || process.env.OPENAI_API_KEY)
 
     console.log('Configuration:')
@@ -60,12 +206,26 @@ async function main() {
       console.log(`  OpenClaw Gateway: ${config.openclaw?.gatewayUrl || 'not configured'}`)
       console.log(`  OpenClaw Agent ID: ${config.openclaw?.agentId || 'default'}`)
       console.log(`  OpenClaw Model: ${config.openclaw?.model || 'sonnet'}`)
+    } else if (config.aiProvider === 'local') {
+      console.log(`  Local Model Server: ${config.local?.baseUrl}`)
+      console.log(`  Local Model: ${config.local?.model}`)
     } else {
       console.log(`  API Key: ${hasApiKey ? 'loaded' : '⚠️  MISSING'}`)
+      if (config.fallbackProviders?.length) {
+        console.log(`  Fallback Providers: ${config.fallbackProviders.join(', ')}`)
+      }
     }
+    console.log(`  Governance (Ilana): ${config.governance?.enabled ? 'enabled' : 'disabled'}`)
     
+    if (config.models) {
+      console.log(`  Models: ${JSON.stringify(config.models)}`)
+    }
+    if (config.cassette) {
+      console.log(`  Cassette: ${config.cassette.mode} ${config.cassette.path}`)
+    }
     console.log(`  Log Level: ${config.logLevel}`)
     console.log(`  Workspace: ${config.workspacePath}`)
+    console.log(`  Storage: ${config.storage?.backend}`)
     console.log(`  Personas: ${config.personasPath}`)
     console.log('')
 
@@ -98,7 +258,60 @@ async function main() {
   }
 }
 
+/**
+ * `migrate status` lists the server database's migrations and which are
+ * applied; `migrate up` applies the pending ones after backing up the file.
+ */
+async function migrate(command: string = 'status') {
+  const config = loadConfig()
+  if (config.storage?.backend !== 'sqlite') {
+    console.log(`Storage backend is ${config.storage?.backend}; nothing to migrate`)
+    return
+  }
+
+  const dbPath = databasePath(config.workspacePath, SERVER_TENANT_ID)
+  if (command !== 'status' && command !== 'up') {
+    console.error(`Unknown migrate command: ${command} (expected status or up)`)
+    process.exit(1)
+  }
+  if (command === 'status' && !fs.existsSync(dbPath)) {
+    console.log(`No database at ${dbPath} yet; it is created when the server starts or by \`migrate up\``)
+    return
+  }
+
+  fs.mkdirSync(path.dirname(dbPath), { recursive: true })
+  const db = new BetterSqlite3(dbPath)
+  try {
+    const runner = new MigrationRunner(db, new Logger('info'))
+
+    if (command === 'up') {
+      const result = await runner.migrate(path.join(path.dirname(dbPath), 'backups'))
+      console.log(result.applied.length > 0
+        ? `Migrated ${dbPath} from version ${result.from} to ${result.to}`
+        : `${dbPath} is up to date (version ${result.to})`)
+      if (result.backupPath) console.log(`Backup: ${result.backupPath}`)
+      return
+    }
+
+    console.log(`Database: ${dbPath}`)
+    console.log(`Schema version: ${runner.currentVersion()} (latest ${runner.latestVersion})`)
+    for (const migration of runner.status()) {
+      const state = migration.appliedAt ? `applied ${migration.appliedAt}` : 'pending'
+      console.log(`  ${migration.version}. ${migration.description} - ${state}`)
+    }
+  } catch (error: any) {
+    console.error(`❌ ${error.message}`)
+    process.exitCode = 1
+  } finally {
+    db.close()
+  }
+}
+
 // Only run if this file is executed directly
 if (require.main === module) {
-  main()
+  if (process.argv[2] === 'migrate') {
+    migrate(process.argv[3])
+  } else {
+    main()
+  }
 }
\ No newline at end of file
@@ -0,0 +1,203 @@
+/**
+ * AgentRoster - The specialist agents Mega can delegate to
+ *
+ * Declared in config/agents.yaml (AGENTS_PATH). The orchestrator prompt,
+ * validation of Mega's decision, the OpenClaw agent each request goes to and
+ * the label shown on delegated replies all come from here. Without a file
+ * the built-in roster (main, coder, marketing, assistant) is used.
+ */
+
+import fs from 'fs'
+import YAML from 'yaml'
+
+export interface AgentDefinition {
+  // What Mega answers with, e.g. "research"
+  id: string
+  // When to choose this agent; shown to the orchestrator
+  description: string
+  // OpenClaw agent that handles it. Defaults to the id, or to
+  // OPENCLAW_AGENT_ID for the default agent
+  openclaw_agent?: string
+  // Shown before delegated replies, e.g. "**Research 🔬** · "
+  label: string
+  emoji?: string
+}
+
+export interface AgentRosterConfig {
+  // Chosen for ambiguous requests and whenever orchestration fails
+  default: string
+  agents: AgentDefinition[]
+}
+
+export const DEFAULT_AGENT_ROSTER: AgentRosterConfig = {
+  default: 'main',
+  agents: [
+    {
+      id: 'main',
+      description: "General conversation, Q&A, casual chat, topics that don't fit other agents",
+      label: 'Mega',
+      emoji: '⚡'
+    },
+    {
+      id: 'coder',
+      description: 'Software development, debugging, code review, architecture, DevOps, technical implementation',
+      label: 'Coder',
+      emoji: '🛠️'
+    },
+    {
+      id: 'marketing',
+      description: 'Content creation, social media strategy, copywriting, branding, growth, campaigns',
+      label: 'Marketing',
+      emoji: '📣'
+    },
+    {
+      id: 'assistant',
+      description: 'Personal productivity, email management, calendar, reminders, life organization, scheduling, travel planning, daily planning, personal tasks',
+      label: 'Personal Assistant',
+      emoji: '🤖'
+    }
+  ]
+}
+
+const AGENT_ID_PATTERN = /^[a-z][a-z0-9_-]*$/
+
+export class AgentRosterError extends Error {
+  constructor(source: string, public readonly problems: string[]) {
+    super(`Invalid agent roster in ${source}: ${problems.join('; ')}`)
+    this.name = 'AgentRosterError'
+  }
+}
+
+/** "a", "a or b", "a, b, or c" */
+function listAlternatives(ids: string[]): string {
+  if (ids.length <= 2) return ids.join(' or ')
+  return `${ids.slice(0, -1).join(', ')}, or ${ids[ids.length - 1]}`
+}
+
+/**
+ * Problems with a roster, e.g. "agents[2].id: duplicate id \"coder\"".
+ * Empty when the roster is valid.
+ */
+export function checkAgentRoster(config: unknown): string[] {
+  if (!config || typeof config !== 'object' || Array.isArray(config)) {
+    return ['must be a mapping with default and agents']
+  }
+
+  const { default: defaultAgent, agents } = config as Partial<AgentRosterConfig>
+  if (!Array.isArray(agents) || agents.length === 0) {
+    return ['agents: must be a non-empty list']
+  }
+
+  const problems: string[] = []
+  const seen = new Set<string>()
+  agents.forEach((agent, i) => {
+    const at = `agents[${i}]`
+    if (!agent || typeof agent !== 'object') {
+      problems.push(`${at}: must be a mapping`)
+      return
+    }
+    if (typeof agent.id !== 'string' || !AGENT_ID_PATTERN.test(agent.id)) {
+      problems.push(`${at}.id: must be lowercase letters, digits, "-" or "_", starting with a letter`)
+    } else if (seen.has(agent.id)) {
+      problems.push(`${at}.id: duplicate id "${agent.id}"`)
+    } else {
+      seen.add(agent.id)
+    }
+    if (typeof agent.description !== 'string' || !agent.description.trim()) {
+      problems.push(`${at}.description: required`)
+    }
+    if (typeof agent.label !== 'string' || !agent.label.trim()) {
+      problems.push(`${at}.label: required`)
+    }
+    if (agent.openclaw_agent !== undefined && (typeof agent.openclaw_agent !== 'string' || !agent.openclaw_agent.trim())) {
+      problems.push(`${at}.openclaw_agent: must be a non-empty string`)
+    }
+    if (agent.emoji !== undefined && typeof agent.emoji !== 'string') {
+      problems.push(`${at}.emoji: must be a string`)
+    }
+  })
+
+  if (typeof defaultAgent !== 'string' || !seen.has(defaultAgent)) {
+    problems.push(`default: must be one of the agent ids (${Array.from(seen).join(', ')})`)
+  }
+  return problems
+}
+
+export class AgentRoster {
+  private agents: Map<string, AgentDefinition>
+  readonly defaultAgent: string
+
+  constructor(config: AgentRosterConfig, source: string = 'agent roster') {
+    const problems = checkAgentRoster(config)
+    if (problems.length > 0) {
+      throw new AgentRosterError(source, problems)
+    }
+
+    this.agents = new Map(config.agents.map(agent => [agent.id, agent]))
+    this.defaultAgent = config.default
+  }
+
+  static default(): AgentRoster {
+    return new AgentRoster(DEFAULT_AGENT_ROSTER, 'built-in roster')
+  }
+
+  /** Read and validate a roster file; throws AgentRosterError when invalid */
+  static load(filePath: string): AgentRoster {
+    return new AgentRoster(YAML.parse(fs.readFileSync(filePath, 'utf8')), filePath)
+  }
+
+  get ids(): string[] {
+    return Array.from(this.agents.keys())
+  }
+
+  get(id: string): AgentDefinition | undefined {
+    return this.agents.get(id)
+  }
+
+  /**
+   * The agent id in an orchestrator reply, or null when it names none.
+   * Tolerates case, quotes and trailing punctuation ("Coder." → coder).
+   */
+  resolve(decision: string): string | null {
+    const id = decision.trim().toLowerCase().replace(/[^a-z0-9_-]/g, '')
+    return this.agents.has(id) ? id : null
+  }
+
+  /** OpenClaw agent for an agent id; `defaultOpenClawAgent` serves the default agent */
+  openclawAgent(id: string, defaultOpenClawAgent: string): string {
+    const agent = this.agents.get(id)
+    if (agent?.openclaw_agent) return agent.openclaw_agent
+    return id === this.defaultAgent ? defaultOpenClawAgent : id
+  }
+
+  /** Display label, e.g. "Coder 🛠️" (unknown ids show as-is) */
+  label(id: string): string {
+    const agent = this.agents.get(id)
+    if (!agent) return id
+    return agent.emoji ? `${agent.label} ${agent.emoji}` : agent.label
+  }
+
+  /**
+   * Mega's system prompt: every agent with its description, and the JSON
+   * ranking to answer with (parsed by Orchestrator)
+   */
+  buildOrchestratorPrompt(): string {
+    const agents = Array.from(this.agents.values())
+      .map(agent => `- ${agent.id}: ${agent.description.trim()}`)
+      .join('\n')
+
+    return `You are Mega, the orchestrator. Analyze the user's request and decide which specialist agent should handle it.
+
+Available agents:
+${agents}
+
+Rules:
+- Rank the agents that could handle the request, best first, with a confidence from 0 to 1
+- If the request is ambiguous or general, rank "${this.defaultAgent}" first
+- Consider the overall intent, not just individual words
+- Only if the request has separate parts that need different agents, set "split" to true and give each agent its part as "task"
+
+Respond with ONLY this JSON (agent ids: ${listAlternatives(this.ids)}). No explanation.
+{"agents": [{"id": "<agent id>", "confidence": 0.9, "reason": "<a few words>", "task": "<only when split>"}], "split": false}`
+  }
+}
@@ -0,0 +1,204 @@
+/**
+ * CronExpression - Minimal 5-field cron parser
+ *
+ * Supports the syntax used by persona `cron_schedules`:
+ * `*`, numbers, ranges (`1-5`), lists (`MON,WED,FRI`), steps (`*\/15`, `0-30/10`)
+ * and month/day names. Evaluated in an IANA timezone (the server's by
+ * default). A time skipped when the clocks go forward runs as if they hadn't
+ * (02:30 becomes 03:30); one repeated when they go back runs the first time.
+ */
+
+import { serverTimezone } from './quiet-hours'
+
+const DAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT']
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC']
+
+interface FieldSpec {
+  name: string
+  min: number
+  max: number
+  names?: string[]
+  // Offset added to a name's index to get its numeric value (months are 1-based)
+  nameOffset?: number
+}
+
+const FIELDS: FieldSpec[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: MONTH_NAMES, nameOffset: 1 },
+  { name: 'day of week', min: 0, max: 7, names: DAY_NAMES, nameOffset: 0 }
+]
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Give up looking for a match after this long (covers Feb 29 schedules)
+const MAX_SEARCH_MS = 5 * 366 * 24 * 60 * 60 * 1000
+
+function parseValue(value: string, spec: FieldSpec): number {
+  const upper = value.toUpperCase()
+  if (spec.names) {
+    const index = spec.names.indexOf(upper)
+    if (index !== -1) return index + (spec.nameOffset || 0)
+  }
+
+  if (!/^\d+$/.test(value)) {
+    throw new Error(`Invalid ${spec.name} value "${value}"`)
+  }
+  const num = parseInt(value, 10)
+  if (num < spec.min || num > spec.max) {
+    throw new Error(`${spec.name} value ${num} out of range (${spec.min}-${spec.max})`)
+  }
+  return num
+}
+
+function parseField(field: string, spec: FieldSpec): Set<number> {
+  const values = new Set<number>()
+
+  for (const part of field.split(',')) {
+    const [rangePart, stepPart] = part.split('/')
+    const step = stepPart === undefined ? 1 : parseInt(stepPart, 10)
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid step "${stepPart}" in ${spec.name} field`)
+    }
+
+    let start: number
+    let end: number
+    if (rangePart === '*') {
+      start = spec.min
+      end = spec.max
+    } else if (rangePart.includes('-')) {
+      const [from, to] = rangePart.split('-')
+      start = parseValue(from, spec)
+      end = parseValue(to, spec)
+    } else {
+      start = parseValue(rangePart, spec)
+      // "5/10" means starting at 5, every 10
+      end = stepPart === undefined ? start : spec.max
+    }
+
+    if (start > end) {
+      throw new Error(`Invalid range "${rangePart}" in ${spec.name} field`)
+    }
+
+    for (let v = start; v <= end; v += step) {
+      values.add(v)
+    }
+  }
+
+  return values
+}
+
+export class CronExpression {
+  private minutes: Set<number>
+  private hours: Set<number>
+  private daysOfMonth: Set<number>
+  private months: Set<number>
+  private daysOfWeek: Set<number>
+  private domRestricted: boolean
+  private dowRestricted: boolean
+
+  constructor(public readonly expression: string) {
+    const fields = expression.trim().split(/\s+/)
+    if (fields.length !== 5) {
+      throw new Error(`Invalid cron expression "${expression}": expected 5 fields, got ${fields.length}`)
+    }
+
+    try {
+      [this.minutes, this.hours, this.daysOfMonth, this.months, this.daysOfWeek] =
+        fields.map((field, i) => parseField(field, FIELDS[i]))
+    } catch (error: any) {
+      throw new Error(`Invalid cron expression "${expression}": ${error.message}`)
+    }
+
+    // Both 0 and 7 mean Sunday
+    if (this.daysOfWeek.has(7)) {
+      this.daysOfWeek.add(0)
+    }
+
+    this.domRestricted = fields[2] !== '*'
+    this.dowRestricted = fields[4] !== '*'
+  }
+
+  private matchesDay(date: Date): boolean {
+    const domMatch = this.daysOfMonth.has(date.getUTCDate())
+    const dowMatch = this.daysOfWeek.has(date.getUTCDay())
+
+    // Standard cron: if both fields are restricted, either one matching is enough
+    if (this.domRestricted && this.dowRestricted) return domMatch || dowMatch
+    if (this.domRestricted) return domMatch
+    if (this.dowRestricted) return dowMatch
+    return true
+  }
+
+  /**
+   * Next time strictly after `after` that matches this expression in `timeZone`.
+   */
+  next(after: Date = new Date(), timeZone: string = serverTimezone()): Date {
+    // The search runs on wall-clock time in timeZone, held in a Date's UTC fields
+    const date = wallClock(after, timeZone)
+    date.setUTCSeconds(0, 0)
+    date.setUTCMinutes(date.getUTCMinutes() + 1)
+
+    const limit = date.getTime() + MAX_SEARCH_MS
+
+    while (date.getTime() <= limit) {
+      if (!this.months.has(date.getUTCMonth() + 1)) {
+        date.setUTCMonth(date.getUTCMonth() + 1, 1)
+        date.setUTCHours(0, 0, 0, 0)
+        continue
+      }
+      if (!this.matchesDay(date)) {
+        date.setUTCDate(date.getUTCDate() + 1)
+        date.setUTCHours(0, 0, 0, 0)
+        continue
+      }
+      if (!this.hours.has(date.getUTCHours())) {
+        date.setUTCHours(date.getUTCHours() + 1, 0, 0, 0)
+        continue
+      }
+      if (!this.minutes.has(date.getUTCMinutes())) {
+        date.setUTCMinutes(date.getUTCMinutes() + 1, 0, 0)
+        continue
+      }
+
+      const run = fromWallClock(date, timeZone)
+      // A wall-clock time repeated when the clocks go back can map to before `after`
+      if (run.getTime() > after.getTime()) return run
+      date.setUTCMinutes(date.getUTCMinutes() + 1, 0, 0)
+    }
+
+    throw new Error(`Cron expression "${this.expression}" has no upcoming run`)
+  }
+}
+
+/** The wall-clock time in timeZone at `date`, as a Date whose UTC fields hold it */
+function wallClock(date: Date, timeZone: string): Date {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(date)
+  const part = (type: Intl.DateTimeFormatPartTypes) => parseInt(parts.find(p => p.type === type)?.value || '0', 10)
+
+  return new Date(Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second'), date.getUTCMilliseconds()))
+}
+
+/** The instant at which timeZone's clocks show `wall` (the earlier one if they show it twice) */
+function fromWallClock(wall: Date, timeZone: string): Date {
+  const offsetAt = (instant: number) => wallClock(new Date(instant), timeZone).getTime() - instant
+
+  // Read as UTC, wall is within 14 hours of the real instant, so the offsets a
+  // day either side are those before and after any clock change near it
+  const before = wall.getTime() - offsetAt(wall.getTime() - DAY_MS)
+  const after = wall.getTime() - offsetAt(wall.getTime() + DAY_MS)
+  const readings = [before, after].filter(instant => wallClock(new Date(instant), timeZone).getTime() === wall.getTime())
+
+  // None when the time was skipped; `before` is then where it would have been
+  return new Date(readings.length > 0 ? Math.min(...readings) : before)
+}
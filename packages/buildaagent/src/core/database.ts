@@ -1,129 +1,87 @@
 /**
- * Database - Simple SQLite database for conversation storage and tenant data
+ * SQLiteDatabase - SQLite storage for conversations and tenant data
  * 
- * Stores conversation history, user preferences, and runtime state
+ * Stores conversation history, user preferences, runtime state, accounts,
+ * usage and OAuth tokens in workspace/database/<tenant>.db
  * Each tenant can have isolated database or shared with proper isolation
  */
 
-import Database from 'better-sqlite3'
+import path from 'path'
+import fs from 'fs/promises'
+import BetterSqlite3 from 'better-sqlite3'
 import { Logger } from './logger'
+import { MigrationRunner } from './migrations'
 import { OAuthTokenEntry } from '../services/gmail/types'
+import { UserAccount } from '../services/account-store'
+import { UsageRecord } from './usage-tracker'
+import { ConversationEntry, ConversationFilter, ConversationThread, Database } from './storage'
 
-export interface ConversationEntry {
-  userId: string
-  userMessage: string
-  agentResponse: string
-  persona: string
-  skillUsed?: string
-  timestamp: string
+/** workspace/database/<tenant>.db */
+export function databasePath(workspacePath: string, tenantId: string): string {
+  return path.join(workspacePath, 'database', `${tenantId}.db`)
 }
 
-export interface UserPreference {
-  userId: string
-  key: string
-  value: string
+const CONVERSATION_COLUMNS =
+  'id, user_id, thread_id, user_message, agent_response, persona, skill_used, delegated_agent, tool_calls, timestamp'
+
+function toConversationEntry(row: any): ConversationEntry {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    threadId: row.thread_id || undefined,
+    userMessage: row.user_message,
+    agentResponse: row.agent_response,
+    persona: row.persona,
+    skillUsed: row.skill_used || undefined,
+    delegatedAgent: row.delegated_agent || undefined,
+    toolCalls: row.tool_calls ? JSON.parse(row.tool_calls) : undefined,
+    timestamp: row.timestamp
+  }
 }
 
-export class Database {
-  private db: any | null = null
-  private logger: Logger
+function toConversationThread(row: any): ConversationThread {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    title: row.title,
+    persona: row.persona,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  }
+}
+
+export class SQLiteDatabase implements Database {
+  private db: BetterSqlite3.Database | null = null
 
   constructor(
     private tenantId: string,
-    private workspacePath: string
-  ) {
-    this.logger = new Logger('info')
-  }
+    private workspacePath: string,
+    private logger: Logger = new Logger('info')
+  ) {}
 
   async init(): Promise<void> {
     try {
-      const path = await import('path')
-      const fs = await import('fs/promises')
-      
+      const dbPath = databasePath(this.workspacePath, this.tenantId)
+
       // Ensure workspace directory exists
-      const dbDir = path.join(this.workspacePath, 'database')
-      await fs.mkdir(dbDir, { recursive: true })
-      
-      const dbPath = path.join(dbDir, `${this.tenantId}.db`)
-      
-      this.db = new Database(dbPath)
-      
-      // Enable WAL mode for better concurrent access (skip for now)
-      // this.db.pragma('journal_mode = WAL')
-      
-      // Create tables
-      this.createTables()
-      
-      this.logger.info(`✅ Database initialized: ${dbPath}`)
+      await fs.mkdir(path.dirname(dbPath), { recursive: true })
+
+      this.db = new BetterSqlite3(dbPath)
+      this.db.pragma('journal_mode = WAL')
+
+      // Bring the schema up to date, backing up the file first
+      const result = await new MigrationRunner(this.db, this.logger)
+        .migrate(path.join(path.dirname(dbPath), 'backups'))
+
+      this.logger.info(`✅ Database initialized: ${dbPath}`, { schemaVersion: result.to })
     } catch (error) {
       this.logger.error('Failed to initialize database:', error)
+      this.db?.close()
+      this.db = null
       throw error
     }
   }
 
-  private createTables(): void {
-    if (!this.db) return
-
-    // Conversations table
-    this.db.exec(`
-      CREATE TABLE IF NOT EXISTS conversations (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        user_id TEXT NOT NULL,
-        user_message TEXT NOT NULL,
-        agent_response TEXT NOT NULL,
-        persona TEXT NOT NULL,
-        skill_used TEXT,
-        timestamp TEXT NOT NULL,
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
-      )
-    `)
-
-    // User preferences table
-    this.db.exec(`
-      CREATE TABLE IF NOT EXISTS user_preferences (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        user_id TEXT NOT NULL,
-        key TEXT NOT NULL,
-        value TEXT NOT NULL,
-        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-        UNIQUE(user_id, key)
-      )
-    `)
-
-    // Runtime state table
-    this.db.exec(`
-      CREATE TABLE IF NOT EXISTS runtime_state (
-        key TEXT PRIMARY KEY,
-        value TEXT NOT NULL,
-        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
-      )
-    `)
-
-    // OAuth tokens table
-    this.db.exec(`
-      CREATE TABLE IF NOT EXISTS oauth_tokens (
-        user_id TEXT NOT NULL,
-        provider TEXT NOT NULL,
-        access_token_encrypted TEXT NOT NULL,
-        iv TEXT NOT NULL,
-        auth_tag TEXT NOT NULL,
-        refresh_token_encrypted TEXT NOT NULL,
-        refresh_iv TEXT NOT NULL,
-        refresh_auth_tag TEXT NOT NULL,
-        expires_at INTEGER NOT NULL,
-        scope TEXT NOT NULL,
-        email TEXT NOT NULL,
-        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-        UNIQUE(user_id, provider)
-      )
-    `)
-
-    // Create indexes
-    this.db.exec(`CREATE INDEX IF NOT EXISTS idx_conversations_user_id ON conversations(user_id)`)
-    this.db.exec(`CREATE INDEX IF NOT EXISTS idx_conversations_timestamp ON conversations(timestamp)`)
-    this.db.exec(`CREATE INDEX IF NOT EXISTS idx_conversations_persona ON conversations(persona)`)
-  }
-
   async storeConversation(entry: ConversationEntry): Promise<void> {
     if (!this.db) {
       throw new Error('Database not initialized')
@@ -131,16 +89,20 @@ export class Database {
 
     try {
       const stmt = this.db.prepare(`
-        INSERT INTO conversations (user_id, user_message, agent_response, persona, skill_used, timestamp)
-        VALUES (?, ?, ?, ?, ?, ?)
+        INSERT INTO conversations
+          (user_id, thread_id, user_message, agent_response, persona, skill_used, delegated_agent, tool_calls, timestamp)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
       `)
 
       stmt.run(
         entry.userId,
+        entry.threadId || null,
         entry.userMessage,
         entry.agentResponse,
         entry.persona,
         entry.skillUsed || null,
+        entry.delegatedAgent || null,
+        entry.toolCalls?.length ? JSON.stringify(entry.toolCalls) : null,
         entry.timestamp
       )
 
@@ -155,36 +117,137 @@ export class Database {
     }
   }
 
-  async getConversationHistory(userId: string, limit: number = 50): Promise<ConversationEntry[]> {
+  async getConversationHistory(userId: string, limit: number = 50, filter: ConversationFilter = {}): Promise<ConversationEntry[]> {
     if (!this.db) {
       throw new Error('Database not initialized')
     }
 
     try {
       const stmt = this.db.prepare(`
-        SELECT user_id, user_message, agent_response, persona, skill_used, timestamp
+        SELECT ${CONVERSATION_COLUMNS}
         FROM conversations
         WHERE user_id = ?
-        ORDER BY created_at DESC
+          AND (? IS NULL OR persona = ?)
+          AND (? IS NULL OR thread_id = ?)
+        ORDER BY id DESC
         LIMIT ?
       `)
 
-      const rows = stmt.all(userId, limit) as any[]
-      
-      return rows.map(row => ({
-        userId: row.user_id,
-        userMessage: row.user_message,
-        agentResponse: row.agent_response,
-        persona: row.persona,
-        skillUsed: row.skill_used,
-        timestamp: row.timestamp
-      }))
+      const persona = filter.persona ?? null
+      const threadId = filter.threadId ?? null
+      const rows = stmt.all(userId, persona, persona, threadId, threadId, limit) as any[]
+      return rows.map(toConversationEntry)
     } catch (error) {
       this.logger.error('Failed to get conversation history:', error)
       throw error
     }
   }
 
+  // --- Thread Methods ---
+
+  async createThread(thread: ConversationThread): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized')
+
+    try {
+      this.db.prepare(`
+        INSERT INTO threads (id, user_id, title, persona, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?)
+      `).run(thread.id, thread.userId, thread.title, thread.persona, thread.createdAt, thread.updatedAt)
+    } catch (error) {
+      this.logger.error('Failed to create thread:', error)
+      throw error
+    }
+  }
+
+  async getThread(userId: string, threadId: string): Promise<ConversationThread | null> {
+    if (!this.db) throw new Error('Database not initialized')
+
+    try {
+      const row = this.db.prepare(`
+        SELECT id, user_id, title, persona, created_at, updated_at
+        FROM threads
+        WHERE id = ? AND user_id = ?
+      `).get(threadId, userId)
+      return row ? toConversationThread(row) : null
+    } catch (error) {
+      this.logger.error('Failed to get thread:', error)
+      throw error
+    }
+  }
+
+  async listThreads(userId: string, limit: number = 50): Promise<ConversationThread[]> {
+    if (!this.db) throw new Error('Database not initialized')
+
+    try {
+      const rows = this.db.prepare(`
+        SELECT id, user_id, title, persona, created_at, updated_at
+        FROM threads
+        WHERE user_id = ?
+        ORDER BY updated_at DESC
+        LIMIT ?
+      `).all(userId, limit)
+      return rows.map(toConversationThread)
+    } catch (error) {
+      this.logger.error('Failed to list threads:', error)
+      throw error
+    }
+  }
+
+  async updateThread(
+    userId: string,
+    threadId: string,
+    changes: Partial<Pick<ConversationThread, 'title' | 'updatedAt'>>
+  ): Promise<boolean> {
+    if (!this.db) throw new Error('Database not initialized')
+
+    try {
+      const result = this.db.prepare(`
+        UPDATE threads
+        SET title = COALESCE(?, title), updated_at = COALESCE(?, updated_at)
+        WHERE id = ? AND user_id = ?
+      `).run(changes.title ?? null, changes.updatedAt ?? null, threadId, userId)
+      return result.changes > 0
+    } catch (error) {
+      this.logger.error('Failed to update thread:', error)
+      throw error
+    }
+  }
+
+  async deleteThread(userId: string, threadId: string): Promise<boolean> {
+    if (!this.db) throw new Error('Database not initialized')
+
+    try {
+      const db = this.db
+      return db.transaction(() => {
+        const result = db.prepare('DELETE FROM threads WHERE id = ? AND user_id = ?').run(threadId, userId)
+        if (result.changes === 0) return false
+        db.prepare('DELETE FROM conversations WHERE thread_id = ? AND user_id = ?').run(threadId, userId)
+        return true
+      })()
+    } catch (error) {
+      this.logger.error('Failed to delete thread:', error)
+      throw error
+    }
+  }
+
+  async getThreadMessages(userId: string, threadId: string, limit: number, beforeId?: number): Promise<ConversationEntry[]> {
+    if (!this.db) throw new Error('Database not initialized')
+
+    try {
+      const rows = this.db.prepare(`
+        SELECT ${CONVERSATION_COLUMNS}
+        FROM conversations
+        WHERE user_id = ? AND thread_id = ? AND id < ?
+        ORDER BY id DESC
+        LIMIT ?
+      `).all(userId, threadId, beforeId ?? Number.MAX_SAFE_INTEGER, limit)
+      return rows.map(toConversationEntry)
+    } catch (error) {
+      this.logger.error('Failed to get thread messages:', error)
+      throw error
+    }
+  }
+
   async setUserPreference(userId: string, key: string, value: string): Promise<void> {
     if (!this.db) {
       throw new Error('Database not initialized')
@@ -305,6 +368,120 @@ export class Database {
     }
   }
 
+  // --- LLM Usage Methods ---
+
+  async storeUsageRecord(record: UsageRecord): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized')
+
+    try {
+      const stmt = this.db.prepare(`
+        INSERT INTO usage_records
+          (user_id, persona, provider, model, purpose, input_tokens, output_tokens, cost, timestamp)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `)
+
+      stmt.run(
+        record.userId,
+        record.personaId || null,
+        record.provider,
+        record.model,
+        record.purpose,
+        record.inputTokens,
+        record.outputTokens,
+        record.cost,
+        record.timestamp
+      )
+    } catch (error) {
+      this.logger.error('Failed to store usage record:', error)
+      throw error
+    }
+  }
+
+  async getUsageRecords(userId: string, since?: string, until?: string): Promise<UsageRecord[]> {
+    if (!this.db) throw new Error('Database not initialized')
+
+    try {
+      const stmt = this.db.prepare(`
+        SELECT user_id, persona, provider, model, purpose, input_tokens, output_tokens, cost, timestamp
+        FROM usage_records
+        WHERE user_id = ? AND timestamp >= ? AND timestamp <= ?
+        ORDER BY timestamp ASC
+      `)
+
+      const rows = stmt.all(userId, since || '', until || '9999') as any[]
+
+      return rows.map(row => ({
+        userId: row.user_id,
+        personaId: row.persona || undefined,
+        provider: row.provider,
+        model: row.model,
+        purpose: row.purpose,
+        inputTokens: row.input_tokens,
+        outputTokens: row.output_tokens,
+        cost: row.cost,
+        timestamp: row.timestamp
+      }))
+    } catch (error) {
+      this.logger.error('Failed to get usage records:', error)
+      throw error
+    }
+  }
+
+  // --- User Account Methods ---
+
+  async storeUserAccount(account: UserAccount): Promise<boolean> {
+    if (!this.db) throw new Error('Database not initialized')
+
+    try {
+      // A plain INSERT: the UNIQUE email is what settles two sign-ups racing for one address
+      const stmt = this.db.prepare(`
+        INSERT INTO user_accounts (id, email, display_name, password_hash, created_at)
+        VALUES (?, ?, ?, ?, ?)
+      `)
+      stmt.run(account.id, account.email, account.displayName || null, account.passwordHash, account.createdAt)
+      this.logger.debug('Stored user account', { userId: account.id })
+      return true
+    } catch (error: any) {
+      if (error.code === 'SQLITE_CONSTRAINT_UNIQUE') {
+        return false
+      }
+      this.logger.error('Failed to store user account:', error)
+      throw error
+    }
+  }
+
+  async getUserAccount(id: string): Promise<UserAccount | null> {
+    return this.findUserAccount('id', id)
+  }
+
+  async getUserAccountByEmail(email: string): Promise<UserAccount | null> {
+    return this.findUserAccount('email', email)
+  }
+
+  private findUserAccount(column: 'id' | 'email', value: string): UserAccount | null {
+    if (!this.db) throw new Error('Database not initialized')
+
+    try {
+      const row = this.db.prepare(`
+        SELECT id, email, display_name, password_hash, created_at
+        FROM user_accounts
+        WHERE ${column} = ?
+      `).get(value) as any
+      if (!row) return null
+
+      return {
+        id: row.id,
+        email: row.email,
+        ...(row.display_name ? { displayName: row.display_name } : {}),
+        passwordHash: row.password_hash,
+        createdAt: row.created_at
+      }
+    } catch (error) {
+      this.logger.error('Failed to get user account:', error)
+      throw error
+    }
+  }
+
   // --- OAuth Token Methods ---
 
   async storeOAuthToken(entry: OAuthTokenEntry): Promise<void> {
@@ -0,0 +1,170 @@
+/**
+ * JSON Schema subset for skill capability parameters
+ *
+ * Capability parameters are declared as an object schema in skill.yaml and
+ * passed as-is to the LLM as a tool input schema. validateArguments checks
+ * the arguments the LLM extracted before a skill executor sees them.
+ *
+ * Supported keywords: type, properties, required, additionalProperties,
+ * items, minItems, maxItems, enum, minimum, maximum, minLength, maxLength,
+ * description, default.
+ */
+
+export type JSONSchemaType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null'
+
+export interface JSONSchema {
+  type?: JSONSchemaType | JSONSchemaType[]
+  description?: string
+  default?: unknown
+  enum?: unknown[]
+  // object
+  properties?: Record<string, JSONSchema>
+  required?: string[]
+  additionalProperties?: boolean
+  // array
+  items?: JSONSchema
+  minItems?: number
+  maxItems?: number
+  // number / integer
+  minimum?: number
+  maximum?: number
+  // string
+  minLength?: number
+  maxLength?: number
+}
+
+/** Schema for a capability that takes no arguments */
+export const EMPTY_OBJECT_SCHEMA: JSONSchema = { type: 'object', properties: {} }
+
+const TYPES: JSONSchemaType[] = ['object', 'array', 'string', 'number', 'integer', 'boolean', 'null']
+
+/**
+ * Problems with the schema itself (for manifest validation at load).
+ * Capability parameters must be an object schema.
+ */
+export function checkParameterSchema(schema: unknown): string[] {
+  if (!schema || typeof schema !== 'object' || Array.isArray(schema)) {
+    return ['must be a JSON Schema object (type: object)']
+  }
+  if ((schema as JSONSchema).type !== 'object') {
+    return ['must have type: object']
+  }
+  return checkSchema(schema as JSONSchema, '')
+}
+
+function checkSchema(schema: JSONSchema, at: string): string[] {
+  const problems: string[] = []
+  const types = schema.type === undefined ? [] : Array.isArray(schema.type) ? schema.type : [schema.type]
+
+  for (const type of types) {
+    if (!TYPES.includes(type)) {
+      problems.push(`${at || 'schema'}: unknown type "${type}"`)
+    }
+  }
+  if (schema.properties !== undefined) {
+    if (typeof schema.properties !== 'object' || Array.isArray(schema.properties)) {
+      problems.push(`${at || 'schema'}: properties must be a mapping`)
+    } else {
+      for (const [name, property] of Object.entries(schema.properties)) {
+        problems.push(...checkSchema(property || {}, at ? `${at}.${name}` : name))
+      }
+    }
+  }
+  if (schema.required !== undefined && !Array.isArray(schema.required)) {
+    problems.push(`${at || 'schema'}: required must be a list of property names`)
+  }
+  if (schema.items !== undefined) {
+    problems.push(...checkSchema(schema.items, `${at || 'schema'}[]`))
+  }
+  if (schema.enum !== undefined && !Array.isArray(schema.enum)) {
+    problems.push(`${at || 'schema'}: enum must be a list`)
+  }
+
+  return problems
+}
+
+/**
+ * Validate a value against a schema. Returns a list of problems
+ * (empty when valid), with property paths like "to[0]".
+ */
+export function validateArguments(schema: JSONSchema, value: unknown, at = ''): string[] {
+  const label = at || 'arguments'
+  const problems: string[] = []
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type]
+    if (!types.some(type => matchesType(type, value))) {
+      return [`${label} must be ${types.join(' or ')}`]
+    }
+  }
+
+  if (schema.enum && !schema.enum.some(option => option === value)) {
+    problems.push(`${label} must be one of: ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`)
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) problems.push(`${label} must be >= ${schema.minimum}`)
+    if (schema.maximum !== undefined && value > schema.maximum) problems.push(`${label} must be <= ${schema.maximum}`)
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) problems.push(`${label} must be at least ${schema.minLength} characters`)
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) problems.push(`${label} must be at most ${schema.maxLength} characters`)
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) problems.push(`${label} must have at least ${schema.minItems} items`)
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) problems.push(`${label} must have at most ${schema.maxItems} items`)
+    if (schema.items) {
+      value.forEach((item, i) => problems.push(...validateArguments(schema.items!, item, `${at}[${i}]`)))
+    }
+  }
+
+  if (isPlainObject(value)) {
+    const properties = schema.properties || {}
+    for (const name of schema.required || []) {
+      if (value[name] === undefined) {
+        problems.push(`${at ? `${at}.` : ''}${name} is required`)
+      }
+    }
+    for (const [name, propertyValue] of Object.entries(value)) {
+      const path = at ? `${at}.${name}` : name
+      if (properties[name]) {
+        problems.push(...validateArguments(properties[name], propertyValue, path))
+      } else if (schema.additionalProperties === false) {
+        problems.push(`${path} is not an allowed property`)
+      }
+    }
+  }
+
+  return problems
+}
+
+/**
+ * Fill in `default` values for missing top-level properties.
+ */
+export function applyDefaults(schema: JSONSchema, args: Record<string, unknown>): Record<string, unknown> {
+  const result = { ...args }
+  for (const [name, property] of Object.entries(schema.properties || {})) {
+    if (result[name] === undefined && property.default !== undefined) {
+      result[name] = property.default
+    }
+  }
+  return result
+}
+
+function matchesType(type: JSONSchemaType, value: unknown): boolean {
+  switch (type) {
+    case 'object': return isPlainObject(value)
+    case 'array': return Array.isArray(value)
+    case 'string': return typeof value === 'string'
+    case 'number': return typeof value === 'number' && Number.isFinite(value)
+    case 'integer': return Number.isInteger(value)
+    case 'boolean': return typeof value === 'boolean'
+    case 'null': return value === null
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
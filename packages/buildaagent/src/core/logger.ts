@@ -1,98 +1,279 @@
 /**
- * Logger - Simple logging utility with different levels
- * 
- * Provides structured logging for the BuildAAgent runtime
- * Can be configured for different log levels and output formats
+ * Logger - Leveled logging with redaction and pluggable transports
+ *
+ * Every entry becomes a LogRecord: timestamp, level, message, the logger's
+ * context (child loggers add to it, withLogContext adds request-scoped fields
+ * such as requestId) and the call's meta. Meta and context values under
+ * redacted keys (tokens, emails, message bodies by default) are replaced
+ * before any transport sees them, and email addresses in message text are
+ * masked. Records go to the console as colorized text or JSON lines, and
+ * optionally to a size-rotated file.
  */
 
+import { AsyncLocalStorage } from 'async_hooks'
+import fs from 'fs'
+import path from 'path'
+
 export type LogLevel = 'debug' | 'info' | 'warn' | 'error'
 
-export class Logger {
-  private level: LogLevel
+export type LogFormat = 'text' | 'json'
+
+export type LogContext = Record<string, unknown>
+
+export interface LogRecord {
+  timestamp: string
+  level: LogLevel
+  message: string
+  context: LogContext
+  meta?: unknown
+}
+
+export interface LogTransport {
+  write(record: LogRecord): void
+}
+
+export interface LoggerOptions {
+  format: LogFormat
+  // Keys whose values are replaced with [REDACTED], matched case-insensitively at any depth
+  redactKeys: string[]
+  // Console plus any extra transports; defaults to just the console
+  transports?: LogTransport[]
+}
+
+export interface FileTransportOptions {
+  path: string
+  // Rotate once the file reaches this size
+  maxBytes: number
+  // Rotated files kept (app.log.1 … app.log.N)
+  maxFiles: number
+}
+
+const LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error']
+
+export const DEFAULT_REDACT_KEYS = [
+  'authorization',
+  'password',
+  'secret',
+  'api_key',
+  'apiKey',
+  'token',
+  'access_token',
+  'accessToken',
+  'refresh_token',
+  'refreshToken',
+  'id_token',
+  'code',
+  'code_verifier',
+  'email',
+  'message',
+  // Chat text and email content
+  'query',
+  'body',
+  'subject'
+]
+
+const REDACTED = '[REDACTED]'
+const EMAIL_PATTERN = /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g
+
+const DEFAULT_FILE_OPTIONS = {
+  maxBytes: 10 * 1024 * 1024, // 10 MB
+  maxFiles: 5
+}
+
+const requestContext = new AsyncLocalStorage<LogContext>()
+
+/**
+ * Run `fn` with fields (e.g. requestId, userId) added to every record logged
+ * inside it, by any logger. Nested calls add to the outer context.
+ */
+export function withLogContext<T>(context: LogContext, fn: () => T): T {
+  return requestContext.run({ ...requestContext.getStore(), ...context }, fn)
+}
 
-  constructor(level: LogLevel = 'info') {
-    this.level = level
+/** A copy of `value` with redacted keys replaced, at any depth */
+function redactValue(value: unknown, keys: Set<string>, seen = new WeakSet<object>()): unknown {
+  if (typeof value === 'string') return value.replace(EMAIL_PATTERN, REDACTED)
+  if (!value || typeof value !== 'object') return value
+  if (seen.has(value)) return '[Circular]'
+  seen.add(value)
+
+  if (Array.isArray(value)) return value.map(item => redactValue(item, keys, seen))
+
+  if (value instanceof Error) {
+    return { name: value.name, message: redactValue(value.message, keys, seen), stack: redactValue(value.stack, keys, seen) }
   }
 
-  private shouldLog(level: LogLevel): boolean {
-    const levels = ['debug', 'info', 'warn', 'error']
-    const currentLevelIndex = levels.indexOf(this.level)
-    const messageLevelIndex = levels.indexOf(level)
-    
-    return messageLevelIndex >= currentLevelIndex
-  }
-
-  private formatMessage(level: LogLevel, message: string, meta?: any): string {
-    const timestamp = new Date().toISOString()
-    const levelUpper = level.toUpperCase().padEnd(5)
-    
-    let logMessage = `${timestamp} ${levelUpper} ${message}`
-    
-    if (meta) {
-      logMessage += ` ${JSON.stringify(meta)}`
+  return Object.fromEntries(Object.entries(value).map(([key, item]) => [
+    key,
+    keys.has(key.toLowerCase()) && item !== undefined && item !== null ? REDACTED : redactValue(item, keys, seen)
+  ]))
+}
+
+const COLORS: Record<LogLevel, string> = {
+  debug: '\x1b[36m', // Cyan
+  info: '\x1b[32m',  // Green
+  warn: '\x1b[33m',  // Yellow
+  error: '\x1b[31m'  // Red
+}
+const RESET_COLOR = '\x1b[0m'
+
+function formatText(record: LogRecord): string {
+  let line = `${record.timestamp} ${record.level.toUpperCase().padEnd(5)} ${record.message}`
+  if (Object.keys(record.context).length > 0) {
+    line += ` ${JSON.stringify(record.context)}`
+  }
+  if (record.meta !== undefined) {
+    line += ` ${JSON.stringify(record.meta)}`
+  }
+  return line
+}
+
+function formatJSON(record: LogRecord): string {
+  return JSON.stringify({
+    timestamp: record.timestamp,
+    level: record.level,
+    message: record.message,
+    ...record.context,
+    ...(record.meta !== undefined ? { meta: record.meta } : {})
+  })
+}
+
+export class ConsoleTransport implements LogTransport {
+  constructor(private format: LogFormat = 'text') {}
+
+  write(record: LogRecord): void {
+    const stream = record.level === 'error' ? console.error : record.level === 'warn' ? console.warn : console.log
+    if (this.format === 'json') {
+      stream(formatJSON(record))
+    } else {
+      stream(`${COLORS[record.level]}${formatText(record)}${RESET_COLOR}`)
     }
-    
-    return logMessage
   }
+}
+
+/** JSON lines appended to a file, rotated by size */
+export class FileTransport implements LogTransport {
+  private options: FileTransportOptions
+  private size: number
 
-  private getLogColor(level: LogLevel): string {
-    const colors = {
-      debug: '\x1b[36m', // Cyan
-      info: '\x1b[32m',  // Green
-      warn: '\x1b[33m',  // Yellow
-      error: '\x1b[31m'  // Red
+  constructor(options: Partial<FileTransportOptions> & { path: string }) {
+    this.options = { ...DEFAULT_FILE_OPTIONS, ...options }
+    fs.mkdirSync(path.dirname(this.options.path), { recursive: true })
+    this.size = fs.existsSync(this.options.path) ? fs.statSync(this.options.path).size : 0
+  }
+
+  write(record: LogRecord): void {
+    const line = formatJSON(record) + '\n'
+    if (this.size > 0 && this.size + Buffer.byteLength(line) > this.options.maxBytes) {
+      this.rotate()
+    }
+
+    try {
+      fs.appendFileSync(this.options.path, line, 'utf8')
+      this.size += Buffer.byteLength(line)
+    } catch (error: any) {
+      // Never let logging take the process down
+      console.error(`Failed to write log file ${this.options.path}: ${error.message}`)
     }
-    return colors[level] || ''
   }
 
-  private resetColor(): string {
-    return '\x1b[0m'
+  /** app.log → app.log.1 → … → app.log.N; the oldest falls off */
+  private rotate(): void {
+    const { path: filePath, maxFiles } = this.options
+    try {
+      fs.rmSync(`${filePath}.${maxFiles}`, { force: true })
+      for (let i = maxFiles - 1; i >= 1; i--) {
+        if (fs.existsSync(`${filePath}.${i}`)) {
+          fs.renameSync(`${filePath}.${i}`, `${filePath}.${i + 1}`)
+        }
+      }
+      if (maxFiles > 0) {
+        fs.renameSync(filePath, `${filePath}.1`)
+      } else {
+        fs.rmSync(filePath, { force: true })
+      }
+    } catch (error: any) {
+      console.error(`Failed to rotate log file ${filePath}: ${error.message}`)
+    }
+    this.size = 0
   }
+}
 
-  debug(message: string, meta?: any): void {
-    if (this.shouldLog('debug')) {
-      const formatted = this.formatMessage('debug', message, meta)
-      console.log(`${this.getLogColor('debug')}${formatted}${this.resetColor()}`)
+/** Level and output shared by a logger and its children */
+interface LoggerCore {
+  level: LogLevel
+  redactKeys: Set<string>
+  transports: LogTransport[]
+}
+
+export class Logger {
+  private core: LoggerCore
+  private context: LogContext
+
+  constructor(level: LogLevel = 'info', options: Partial<LoggerOptions> = {}) {
+    this.core = {
+      level,
+      redactKeys: new Set((options.redactKeys || DEFAULT_REDACT_KEYS).map(key => key.toLowerCase())),
+      transports: [new ConsoleTransport(options.format || 'text'), ...(options.transports || [])]
     }
+    this.context = {}
   }
 
-  info(message: string, meta?: any): void {
-    if (this.shouldLog('info')) {
-      const formatted = this.formatMessage('info', message, meta)
-      console.log(`${this.getLogColor('info')}${formatted}${this.resetColor()}`)
+  /**
+   * A logger that adds `context` to every record, e.g.
+   * `logger.child({ component: 'scheduler' })`. It shares this logger's
+   * level and transports.
+   */
+  child(context: LogContext): Logger {
+    const child = Object.create(Logger.prototype) as Logger
+    child.core = this.core
+    child.context = { ...this.context, ...context }
+    return child
+  }
+
+  private shouldLog(level: LogLevel): boolean {
+    return LEVELS.indexOf(level) >= LEVELS.indexOf(this.core.level)
+  }
+
+  private log(level: LogLevel, message: string, meta?: unknown): void {
+    if (!this.shouldLog(level)) return
+
+    const keys = this.core.redactKeys
+    const record: LogRecord = {
+      timestamp: new Date().toISOString(),
+      level,
+      message: message.replace(EMAIL_PATTERN, REDACTED),
+      context: redactValue({ ...this.context, ...requestContext.getStore() }, keys) as LogContext,
+      ...(meta !== undefined ? { meta: redactValue(meta, keys) } : {})
+    }
+
+    for (const transport of this.core.transports) {
+      transport.write(record)
     }
   }
 
+  debug(message: string, meta?: any): void {
+    this.log('debug', message, meta)
+  }
+
+  info(message: string, meta?: any): void {
+    this.log('info', message, meta)
+  }
+
   warn(message: string, meta?: any): void {
-    if (this.shouldLog('warn')) {
-      const formatted = this.formatMessage('warn', message, meta)
-      console.warn(`${this.getLogColor('warn')}${formatted}${this.resetColor()}`)
-    }
+    this.log('warn', message, meta)
   }
 
   error(message: string, error?: any): void {
-    if (this.shouldLog('error')) {
-      let meta = error
-      
-      // Handle Error objects
-      if (error instanceof Error) {
-        meta = {
-          name: error.name,
-          message: error.message,
-          stack: error.stack
-        }
-      }
-      
-      const formatted = this.formatMessage('error', message, meta)
-      console.error(`${this.getLogColor('error')}${formatted}${this.resetColor()}`)
-    }
+    this.log('error', message, error)
   }
 
+  /** Applies to this logger, its parent and all their children */
   setLevel(level: LogLevel): void {
-    this.level = level
+    this.core.level = level
   }
 
   getLevel(): LogLevel {
-    return this.level
+    return this.core.level
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,262 @@
+/**
+ * Metrics - Prometheus counters and histograms, scraped from GET /metrics
+ *
+ * Instruments live in one process-wide registry (like the active trace in
+ * tracing.ts), so the code that counts — request middleware, gateways, skill
+ * execution, the token store — needs nothing passed in. The registry renders
+ * them in the Prometheus text exposition format, plus a few process gauges
+ * read at scrape time.
+ */
+
+import { LLMPurpose } from './usage-tracker'
+
+export type MetricLabels = Record<string, string>
+
+/** Seconds; HTTP requests are mostly fast, except streamed chats */
+const HTTP_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60]
+
+/** Seconds; LLM calls run from sub-second routing to long delegations */
+const LLM_BUCKETS = [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 20, 30, 60, 120]
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"')
+}
+
+function formatLabels(labels: MetricLabels): string {
+  const entries = Object.entries(labels)
+  if (entries.length === 0) return ''
+  return `{${entries.map(([key, value]) => `${key}="${escapeLabelValue(value)}"`).join(',')}}`
+}
+
+function formatValue(value: number): string {
+  if (value === Infinity) return '+Inf'
+  if (value === -Infinity) return '-Inf'
+  return String(value)
+}
+
+/** Series are keyed by their label values, in the instrument's label order */
+abstract class Metric<S> {
+  protected series = new Map<string, { labels: MetricLabels, state: S }>()
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly labelNames: string[]
+  ) {}
+
+  abstract readonly type: 'counter' | 'histogram'
+
+  protected abstract initialState(): S
+
+  protected abstract sampleLines(labels: MetricLabels, state: S): string[]
+
+  protected stateFor(labels: MetricLabels): S {
+    const ordered: MetricLabels = {}
+    for (const name of this.labelNames) {
+      ordered[name] = labels[name] ?? ''
+    }
+
+    const key = JSON.stringify(ordered)
+    let entry = this.series.get(key)
+    if (!entry) {
+      entry = { labels: ordered, state: this.initialState() }
+      this.series.set(key, entry)
+    }
+    return entry.state
+  }
+
+  render(): string {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`]
+    for (const { labels, state } of this.series.values()) {
+      lines.push(...this.sampleLines(labels, state))
+    }
+    return lines.join('\n')
+  }
+
+  reset(): void {
+    this.series.clear()
+  }
+}
+
+export class Counter extends Metric<{ value: number }> {
+  readonly type = 'counter'
+
+  inc(labels: MetricLabels = {}, amount = 1): void {
+    if (amount < 0) throw new Error(`Counter ${this.name} cannot decrease`)
+    this.stateFor(labels).value += amount
+  }
+
+  protected initialState(): { value: number } {
+    return { value: 0 }
+  }
+
+  protected sampleLines(labels: MetricLabels, state: { value: number }): string[] {
+    return [`${this.name}${formatLabels(labels)} ${formatValue(state.value)}`]
+  }
+}
+
+interface HistogramState {
+  // Per-bucket (non-cumulative) counts; the last is +Inf
+  buckets: number[]
+  sum: number
+  count: number
+}
+
+export class Histogram extends Metric<HistogramState> {
+  readonly type = 'histogram'
+
+  constructor(name: string, help: string, labelNames: string[], readonly buckets: number[]) {
+    super(name, help, labelNames)
+  }
+
+  observe(labels: MetricLabels, value: number): void {
+    const state = this.stateFor(labels)
+    const index = this.buckets.findIndex(bound => value <= bound)
+    state.buckets[index === -1 ? this.buckets.length : index] += 1
+    state.sum += value
+    state.count += 1
+  }
+
+  protected initialState(): HistogramState {
+    return { buckets: new Array(this.buckets.length + 1).fill(0), sum: 0, count: 0 }
+  }
+
+  protected sampleLines(labels: MetricLabels, state: HistogramState): string[] {
+    const lines: string[] = []
+    let cumulative = 0
+    const bounds = [...this.buckets, Infinity]
+    bounds.forEach((bound, i) => {
+      cumulative += state.buckets[i]
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: formatValue(bound) })} ${cumulative}`)
+    })
+    lines.push(`${this.name}_sum${formatLabels(labels)} ${formatValue(state.sum)}`)
+    lines.push(`${this.name}_count${formatLabels(labels)} ${state.count}`)
+    return lines
+  }
+}
+
+/** A value read when scraped, e.g. memory usage */
+interface Gauge {
+  name: string
+  help: string
+  read: () => number
+}
+
+export class MetricsRegistry {
+  private metrics: Array<Counter | Histogram> = []
+  private gauges: Gauge[] = []
+
+  counter(name: string, help: string, labelNames: string[] = []): Counter {
+    return this.add(new Counter(name, help, labelNames))
+  }
+
+  histogram(name: string, help: string, labelNames: string[], buckets: number[]): Histogram {
+    return this.add(new Histogram(name, help, labelNames, buckets))
+  }
+
+  gauge(name: string, help: string, read: () => number): void {
+    this.gauges.push({ name, help, read })
+  }
+
+  /** Prometheus text exposition format (version 0.0.4) */
+  render(): string {
+    const sections = this.metrics.map(metric => metric.render())
+    for (const gauge of this.gauges) {
+      sections.push([
+        `# HELP ${gauge.name} ${gauge.help}`,
+        `# TYPE ${gauge.name} gauge`,
+        `${gauge.name} ${formatValue(gauge.read())}`
+      ].join('\n'))
+    }
+    return sections.join('\n') + '\n'
+  }
+
+  /** Clear every series (instruments stay registered) */
+  reset(): void {
+    for (const metric of this.metrics) metric.reset()
+  }
+
+  private add<M extends Counter | Histogram>(metric: M): M {
+    if (this.metrics.some(existing => existing.name === metric.name)) {
+      throw new Error(`Metric ${metric.name} is already registered`)
+    }
+    this.metrics.push(metric)
+    return metric
+  }
+}
+
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8'
+
+export const metrics = new MetricsRegistry()
+
+export const httpRequests = metrics.counter(
+  'buildaagent_http_requests_total',
+  'HTTP requests by method, route and status code',
+  ['method', 'route', 'status']
+)
+
+export const httpRequestDuration = metrics.histogram(
+  'buildaagent_http_request_duration_seconds',
+  'HTTP request latency by method and route (streamed chats until the stream ends)',
+  ['method', 'route'],
+  HTTP_BUCKETS
+)
+
+export const llmRequestDuration = metrics.histogram(
+  'buildaagent_llm_request_duration_seconds',
+  'LLM call latency by provider, purpose and outcome (each OpenClaw attempt separately)',
+  ['provider', 'purpose', 'outcome'],
+  LLM_BUCKETS
+)
+
+export const llmTokens = metrics.counter(
+  'buildaagent_llm_tokens_total',
+  'LLM tokens by provider and direction (input or output)',
+  ['provider', 'direction']
+)
+
+export const skillExecutions = metrics.counter(
+  'buildaagent_skill_executions_total',
+  'Skill executions by skill and outcome (success or failure)',
+  ['skill', 'outcome']
+)
+
+export const openclawRetries = metrics.counter(
+  'buildaagent_openclaw_retries_total',
+  'OpenClaw calls retried after a transient failure, by purpose and error category',
+  ['purpose', 'category']
+)
+
+export const tokenRefreshes = metrics.counter(
+  'buildaagent_oauth_token_refreshes_total',
+  'OAuth access token refreshes by provider and outcome (success, failure or error)',
+  ['provider', 'outcome']
+)
+
+export const tokenBridgeRequests = metrics.counter(
+  'buildaagent_token_bridge_requests_total',
+  'Token bridge access-token requests by calling agent, service and outcome',
+  ['agent', 'service', 'outcome']
+)
+
+const startTimeSeconds = Math.floor(Date.now() / 1000)
+
+metrics.gauge('process_start_time_seconds', 'Start time of the process since unix epoch in seconds', () => startTimeSeconds)
+metrics.gauge('process_resident_memory_bytes', 'Resident memory size in bytes', () => process.memoryUsage().rss)
+metrics.gauge('nodejs_heap_used_bytes', 'V8 heap used in bytes', () => process.memoryUsage().heapUsed)
+metrics.gauge('nodejs_heap_total_bytes', 'V8 heap allocated in bytes', () => process.memoryUsage().heapTotal)
+
+/** Time an LLM call into llmRequestDuration; errors are recorded and rethrown */
+export async function observeLLMCall<T>(provider: string, purpose: LLMPurpose, call: () => Promise<T>): Promise<T> {
+  const start = process.hrtime.bigint()
+  let outcome = 'success'
+  try {
+    return await call()
+  } catch (error) {
+    outcome = 'error'
+    throw error
+  } finally {
+    const seconds = Number(process.hrtime.bigint() - start) / 1e9
+    llmRequestDuration.observe({ provider, purpose, outcome }, seconds)
+  }
+}
@@ -0,0 +1,312 @@
+/**
+ * Migrations - Versioned schema changes for the SQLite database
+ *
+ * Each migration is an up-step stored here in code, applied in order inside
+ * its own transaction and recorded in the schema_version table. New schema
+ * changes go at the end of MIGRATIONS with the next version number; applied
+ * migrations are never edited. Before applying anything to an existing
+ * database the file is backed up next to it (database/backups/).
+ *
+ * Run automatically when SQLiteDatabase opens, or by hand:
+ *   pnpm migrate status | pnpm migrate up
+ */
+
+import crypto from 'crypto'
+import fs from 'fs'
+import path from 'path'
+import BetterSqlite3 from 'better-sqlite3'
+import { Logger } from './logger'
+
+export interface Migration {
+  version: number
+  description: string
+  up(db: BetterSqlite3.Database): void
+}
+
+export interface MigrationStatus {
+  version: number
+  description: string
+  // ISO timestamp; absent while pending
+  appliedAt?: string
+}
+
+export interface MigrationResult {
+  from: number
+  to: number
+  applied: number[]
+  // Copy of the database taken before migrating (none for a new database)
+  backupPath?: string
+}
+
+function hasColumn(db: BetterSqlite3.Database, table: string, column: string): boolean {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>
+  return columns.some(existing => existing.name === column)
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Initial schema',
+    // Databases from before migrations already have some of these tables
+    up(db) {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS conversations (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          user_id TEXT NOT NULL,
+          user_message TEXT NOT NULL,
+          agent_response TEXT NOT NULL,
+          persona TEXT NOT NULL,
+          skill_used TEXT,
+          tool_calls TEXT,
+          timestamp TEXT NOT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        )
+      `)
+      if (!hasColumn(db, 'conversations', 'tool_calls')) {
+        db.exec('ALTER TABLE conversations ADD COLUMN tool_calls TEXT')
+      }
+
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS user_preferences (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          user_id TEXT NOT NULL,
+          key TEXT NOT NULL,
+          value TEXT NOT NULL,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          UNIQUE(user_id, key)
+        )
+      `)
+
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS runtime_state (
+          key TEXT PRIMARY KEY,
+          value TEXT NOT NULL,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        )
+      `)
+
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS oauth_tokens (
+          user_id TEXT NOT NULL,
+          provider TEXT NOT NULL,
+          access_token_encrypted TEXT NOT NULL,
+          iv TEXT NOT NULL,
+          auth_tag TEXT NOT NULL,
+          refresh_token_encrypted TEXT NOT NULL,
+          refresh_iv TEXT NOT NULL,
+          refresh_auth_tag TEXT NOT NULL,
+          expires_at INTEGER NOT NULL,
+          scope TEXT NOT NULL,
+          email TEXT NOT NULL,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          UNIQUE(user_id, provider)
+        )
+      `)
+
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS usage_records (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          user_id TEXT NOT NULL,
+          persona TEXT,
+          provider TEXT NOT NULL,
+          model TEXT NOT NULL,
+          purpose TEXT NOT NULL,
+          input_tokens INTEGER NOT NULL,
+          output_tokens INTEGER NOT NULL,
+          cost REAL NOT NULL,
+          timestamp TEXT NOT NULL
+        )
+      `)
+
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS user_accounts (
+          id TEXT PRIMARY KEY,
+          email TEXT NOT NULL UNIQUE,
+          display_name TEXT,
+          password_hash TEXT NOT NULL,
+          created_at TEXT NOT NULL
+        )
+      `)
+
+      db.exec(`CREATE INDEX IF NOT EXISTS idx_conversations_user_id ON conversations(user_id)`)
+      db.exec(`CREATE INDEX IF NOT EXISTS idx_conversations_timestamp ON conversations(timestamp)`)
+      db.exec(`CREATE INDEX IF NOT EXISTS idx_conversations_persona ON conversations(persona)`)
+      db.exec(`CREATE INDEX IF NOT EXISTS idx_usage_user_timestamp ON usage_records(user_id, timestamp)`)
+    }
+  },
+  {
+    version: 2,
+    description: 'Record the OpenClaw agent a conversation was delegated to',
+    up(db) {
+      db.exec('ALTER TABLE conversations ADD COLUMN delegated_agent TEXT')
+    }
+  },
+  {
+    version: 3,
+    description: 'Group conversations into threads',
+    up(db) {
+      db.exec(`
+        CREATE TABLE threads (
+          id TEXT PRIMARY KEY,
+          user_id TEXT NOT NULL,
+          title TEXT NOT NULL,
+          persona TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        )
+      `)
+      db.exec('ALTER TABLE conversations ADD COLUMN thread_id TEXT')
+      db.exec('CREATE INDEX idx_threads_user_updated ON threads(user_id, updated_at)')
+      db.exec('CREATE INDEX idx_conversations_thread ON conversations(thread_id, id)')
+    }
+  },
+  {
+    version: 4,
+    description: 'Backfill threads for conversations from before threads',
+    up(db) {
+      // Earlier history becomes one thread per user and persona, so it stays reachable
+      const groups = db.prepare(`
+        SELECT user_id, persona, MIN(timestamp) AS first_at, MAX(timestamp) AS last_at
+        FROM conversations
+        WHERE thread_id IS NULL
+        GROUP BY user_id, persona
+      `).all() as Array<{ user_id: string, persona: string, first_at: string, last_at: string }>
+      const insertThread = db.prepare(`
+        INSERT INTO threads (id, user_id, title, persona, created_at, updated_at)
+        VALUES (?, ?, 'Earlier conversations', ?, ?, ?)
+      `)
+      const assignThread = db.prepare(
+        'UPDATE conversations SET thread_id = ? WHERE user_id = ? AND persona = ? AND thread_id IS NULL'
+      )
+      for (const group of groups) {
+        const threadId = `thread_${crypto.randomUUID()}`
+        insertThread.run(threadId, group.user_id, group.persona, group.first_at, group.last_at)
+        assignThread.run(threadId, group.user_id, group.persona)
+      }
+    }
+  }
+]
+
+export class MigrationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'MigrationError'
+  }
+}
+
+export class MigrationRunner {
+  private migrations: Migration[]
+
+  constructor(
+    private db: BetterSqlite3.Database,
+    private logger: Logger,
+    migrations: Migration[] = MIGRATIONS
+  ) {
+    this.migrations = [...migrations].sort((a, b) => a.version - b.version)
+    this.migrations.forEach((migration, i) => {
+      if (migration.version !== i + 1) {
+        throw new MigrationError(`Migration versions must run 1, 2, 3, ... (found ${migration.version} at position ${i + 1})`)
+      }
+    })
+  }
+
+  get latestVersion(): number {
+    return this.migrations.length
+  }
+
+  currentVersion(): number {
+    if (!this.hasVersionTable()) return 0
+    const row = this.db.prepare('SELECT MAX(version) AS version FROM schema_version').get() as { version: number | null }
+    return row.version || 0
+  }
+
+  /** Every known migration, with when it was applied */
+  status(): MigrationStatus[] {
+    const applied = new Map<number, string>()
+    if (this.hasVersionTable()) {
+      const rows = this.db.prepare('SELECT version, applied_at FROM schema_version').all() as Array<{ version: number, applied_at: string }>
+      for (const row of rows) applied.set(row.version, row.applied_at)
+    }
+
+    return this.migrations.map(({ version, description }) => ({
+      version,
+      description,
+      ...(applied.has(version) ? { appliedAt: applied.get(version) } : {})
+    }))
+  }
+
+  pending(): Migration[] {
+    const current = this.currentVersion()
+    return this.migrations.filter(migration => migration.version > current)
+  }
+
+  /**
+   * Apply pending migrations in order. `backupDir` receives a copy of the
+   * database first, unless it is new (no tables yet). A database newer
+   * than this code is refused rather than used.
+   */
+  async migrate(backupDir?: string): Promise<MigrationResult> {
+    const from = this.currentVersion()
+    if (from > this.latestVersion) {
+      throw new MigrationError(
+        `Database schema is version ${from}, newer than this build supports (${this.latestVersion}); upgrade BuildAAgent`
+      )
+    }
+
+    const pending = this.pending()
+    if (pending.length === 0) return { from, to: from, applied: [] }
+
+    const backupPath = backupDir && !this.isEmpty() ? await this.backup(backupDir, from) : undefined
+
+    this.ensureVersionTable()
+    const record = this.db.prepare('INSERT INTO schema_version (version, description, applied_at) VALUES (?, ?, ?)')
+    for (const migration of pending) {
+      try {
+        this.db.transaction(() => {
+          migration.up(this.db)
+          record.run(migration.version, migration.description, new Date().toISOString())
+        })()
+      } catch (error: any) {
+        throw new MigrationError(
+          `Migration ${migration.version} (${migration.description}) failed: ${error.message}` +
+          (backupPath ? `; the database before migrating is at ${backupPath}` : '')
+        )
+      }
+      this.logger.info(`Applied migration ${migration.version}: ${migration.description}`)
+    }
+
+    const to = pending[pending.length - 1].version
+    return { from, to, applied: pending.map(migration => migration.version), ...(backupPath ? { backupPath } : {}) }
+  }
+
+  private async backup(backupDir: string, version: number): Promise<string> {
+    fs.mkdirSync(backupDir, { recursive: true })
+    const name = path.basename(this.db.name, '.db')
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-')
+    const backupPath = path.join(backupDir, `${name}-v${version}-${stamp}.db`)
+
+    // The online backup API copies a consistent snapshot, including WAL contents
+    await this.db.backup(backupPath)
+    this.logger.info(`Backed up database before migrating: ${backupPath}`)
+    return backupPath
+  }
+
+  private isEmpty(): boolean {
+    const row = this.db.prepare("SELECT COUNT(*) AS count FROM sqlite_master WHERE type = 'table'").get() as { count: number }
+    return row.count === 0
+  }
+
+  private hasVersionTable(): boolean {
+    return !!this.db.prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'schema_version'").get()
+  }
+
+  private ensureVersionTable(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS schema_version (
+        version INTEGER PRIMARY KEY,
+        description TEXT NOT NULL,
+        applied_at TEXT NOT NULL
+      )
+    `)
+  }
+}
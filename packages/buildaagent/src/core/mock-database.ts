@@ -1,46 +1,37 @@
 /**
- * MockDatabase - In-memory database for Phase 1 testing
+ * MockDatabase - In-memory storage (STORAGE_BACKEND=memory)
  *
  * Simulates database functionality without SQLite dependency
- * Good enough for initial testing and mobile app integration
+ * Good enough for tests and throwaway runs; everything is lost on restart
  *
  * Supports optional disk persistence for OAuth tokens via PERSIST_OAUTH_TOKENS=true
  */
 
 import { Logger } from './logger'
 import { OAuthTokenEntry } from '../services/gmail/types'
+import { UserAccount } from '../services/account-store'
+import { UsageRecord } from './usage-tracker'
+import { ConversationEntry, ConversationFilter, ConversationThread, Database } from './storage'
 import fs from 'fs'
 import path from 'path'
 
-export interface ConversationEntry {
-  userId: string
-  userMessage: string
-  agentResponse: string
-  persona: string
-  skillUsed?: string
-  timestamp: string
-}
-
-export interface UserPreference {
-  userId: string
-  key: string
-  value: string
-}
-
-export class MockDatabase {
+export class MockDatabase implements Database {
   private conversations: ConversationEntry[] = []
+  private nextConversationId = 1
+  private threads = new Map<string, ConversationThread>()
   private userPreferences = new Map<string, Map<string, string>>()
   private runtimeState = new Map<string, string>()
   private oauthTokens = new Map<string, OAuthTokenEntry>()
-  private logger: Logger
+  private usageRecords: UsageRecord[] = []
+  private userAccounts = new Map<string, UserAccount>()
   private firstRun = true
   private tokenPersistPath: string | null = null
 
   constructor(
     private tenantId: string,
-    private workspacePath: string
+    private workspacePath: string,
+    private logger: Logger = new Logger('info')
   ) {
-    this.logger = new Logger('info')
 
     // Optional disk persistence for OAuth tokens (debugging / Phase 1 durability)
     if (process.env.PERSIST_OAUTH_TOKENS === 'true') {
@@ -56,15 +47,10 @@ export class MockDatabase {
     }
     this.logger.info(`✅ Mock database initialized for tenant: ${this.tenantId}`)
     this.logger.info(`[MockDB] OAuth token count after init: ${this.oauthTokens.size}`)
-    if (this.oauthTokens.size > 0) {
-      for (const [key, entry] of this.oauthTokens) {
-        this.logger.info(`[MockDB]   token key="${key}" provider=${entry.provider} email=${entry.email} expiresAt=${new Date(entry.expiresAt).toISOString()}`)
-      }
-    }
   }
 
   async storeConversation(entry: ConversationEntry): Promise<void> {
-    this.conversations.push(entry)
+    this.conversations.push({ ...entry, id: this.nextConversationId++ })
     this.logger.debug('Stored conversation', {
       userId: entry.userId,
       persona: entry.persona,
@@ -72,9 +58,58 @@ export class MockDatabase {
     })
   }
 
-  async getConversationHistory(userId: string, limit: number = 50): Promise<ConversationEntry[]> {
+  async getConversationHistory(userId: string, limit: number = 50, filter: ConversationFilter = {}): Promise<ConversationEntry[]> {
+    return this.conversations
+      .filter(entry => entry.userId === userId &&
+        (!filter.persona || entry.persona === filter.persona) &&
+        (!filter.threadId || entry.threadId === filter.threadId))
+      .slice(-limit)
+      .reverse()
+  }
+
+  // --- Thread Methods ---
+
+  async createThread(thread: ConversationThread): Promise<void> {
+    this.threads.set(thread.id, thread)
+  }
+
+  async getThread(userId: string, threadId: string): Promise<ConversationThread | null> {
+    const thread = this.threads.get(threadId)
+    return thread && thread.userId === userId ? thread : null
+  }
+
+  async listThreads(userId: string, limit: number = 50): Promise<ConversationThread[]> {
+    return Array.from(this.threads.values())
+      .filter(thread => thread.userId === userId)
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+      .slice(0, limit)
+  }
+
+  async updateThread(
+    userId: string,
+    threadId: string,
+    changes: Partial<Pick<ConversationThread, 'title' | 'updatedAt'>>
+  ): Promise<boolean> {
+    const thread = await this.getThread(userId, threadId)
+    if (!thread) return false
+    this.threads.set(threadId, { ...thread, ...changes })
+    return true
+  }
+
+  async deleteThread(userId: string, threadId: string): Promise<boolean> {
+    if (!(await this.getThread(userId, threadId))) return false
+    this.threads.delete(threadId)
+    this.conversations = this.conversations.filter(entry => entry.threadId !== threadId)
+    return true
+  }
+
+  async getThreadMessages(userId: string, threadId: string, limit: number, beforeId?: number): Promise<ConversationEntry[]> {
     return this.conversations
-      .filter(entry => entry.userId === userId)
+      .filter(entry =>
+        entry.userId === userId &&
+        entry.threadId === threadId &&
+        (beforeId === undefined || entry.id! < beforeId)
+      )
       .slice(-limit)
       .reverse()
   }
@@ -120,6 +155,39 @@ export class MockDatabase {
     }
   }
 
+  // --- LLM Usage Methods ---
+
+  async storeUsageRecord(record: UsageRecord): Promise<void> {
+    this.usageRecords.push(record)
+  }
+
+  async getUsageRecords(userId: string, since?: string, until?: string): Promise<UsageRecord[]> {
+    return this.usageRecords.filter(record =>
+      record.userId === userId &&
+      (!since || record.timestamp >= since) &&
+      (!until || record.timestamp <= until)
+    )
+  }
+
+  // --- User Account Methods ---
+
+  async storeUserAccount(account: UserAccount): Promise<boolean> {
+    if (await this.getUserAccountByEmail(account.email)) return false
+    this.userAccounts.set(account.id, account)
+    return true
+  }
+
+  async getUserAccount(id: string): Promise<UserAccount | null> {
+    return this.userAccounts.get(id) || null
+  }
+
+  async getUserAccountByEmail(email: string): Promise<UserAccount | null> {
+    for (const account of this.userAccounts.values()) {
+      if (account.email === email) return account
+    }
+    return null
+  }
+
   // --- OAuth Token Methods ---
 
   private oauthKey(userId: string, provider: string): string {
@@ -130,14 +198,13 @@ export class MockDatabase {
     const key = this.oauthKey(entry.userId, entry.provider)
     const existed = this.oauthTokens.has(key)
 
-    this.logger.info(`[MockDB] storeOAuthToken: key="${key}" email=${entry.email} expiresAt=${new Date(entry.expiresAt).toISOString()} (${existed ? 'UPDATE' : 'NEW'})`)
-    this.logger.info(`[MockDB]   accessTokenEncrypted length=${entry.accessTokenEncrypted.length} iv=${entry.iv.substring(0, 8)}... authTag=${entry.authTag.substring(0, 8)}...`)
-    this.logger.info(`[MockDB]   refreshTokenEncrypted length=${entry.refreshTokenEncrypted.length} refreshIv=${entry.refreshIv.substring(0, 8)}...`)
-
     this.oauthTokens.set(key, entry)
 
-    this.logger.info(`[MockDB]   token map size after store: ${this.oauthTokens.size}`)
-    this.logger.info(`[MockDB]   keys in map: [${Array.from(this.oauthTokens.keys()).join(', ')}]`)
+    this.logger.debug(`[MockDB] storeOAuthToken: key="${key}" (${existed ? 'UPDATE' : 'NEW'})`, {
+      email: entry.email,
+      expiresAt: new Date(entry.expiresAt).toISOString(),
+      tokenCount: this.oauthTokens.size
+    })
 
     // Persist to disk if enabled
     if (this.tokenPersistPath) {
@@ -149,13 +216,8 @@ export class MockDatabase {
     const key = this.oauthKey(userId, provider)
     const entry = this.oauthTokens.get(key) || null
 
-    this.logger.info(`[MockDB] getOAuthToken: key="${key}" → ${entry ? 'FOUND' : 'NOT FOUND'}`)
-    this.logger.info(`[MockDB]   token map size: ${this.oauthTokens.size}, keys: [${Array.from(this.oauthTokens.keys()).join(', ')}]`)
-
-    if (entry) {
-      const expiresIn = entry.expiresAt - Date.now()
-      this.logger.info(`[MockDB]   email=${entry.email} expiresIn=${Math.round(expiresIn / 1000)}s (${expiresIn > 0 ? 'VALID' : 'EXPIRED'})`)
-    }
+    const expiresIn = entry ? Math.round((entry.expiresAt - Date.now()) / 1000) : undefined
+    this.logger.debug(`[MockDB] getOAuthToken: key="${key}" → ${entry ? 'FOUND' : 'NOT FOUND'}`, { expiresIn })
 
     return entry
   }
@@ -164,11 +226,9 @@ export class MockDatabase {
     const key = this.oauthKey(userId, provider)
     const existed = this.oauthTokens.has(key)
 
-    this.logger.info(`[MockDB] deleteOAuthToken: key="${key}" existed=${existed}`)
-
     this.oauthTokens.delete(key)
 
-    this.logger.info(`[MockDB]   token map size after delete: ${this.oauthTokens.size}`)
+    this.logger.debug(`[MockDB] deleteOAuthToken: key="${key}" existed=${existed}`, { tokenCount: this.oauthTokens.size })
 
     // Persist to disk if enabled
     if (this.tokenPersistPath) {
@@ -187,7 +247,7 @@ export class MockDatabase {
         data[key] = entry
       }
       fs.writeFileSync(this.tokenPersistPath, JSON.stringify(data, null, 2), 'utf8')
-      this.logger.info(`[MockDB] Persisted ${this.oauthTokens.size} token(s) to disk → ${this.tokenPersistPath}`)
+      this.logger.debug(`[MockDB] Persisted ${this.oauthTokens.size} token(s) to disk → ${this.tokenPersistPath}`)
     } catch (error: any) {
       this.logger.error(`[MockDB] Failed to persist tokens to disk: ${error.message}`)
     }
@@ -209,8 +269,10 @@ export class MockDatabase {
       this.logger.info(`[MockDB] Loading ${keys.length} persisted token(s) from disk`)
       for (const [key, entry] of Object.entries(data)) {
         this.oauthTokens.set(key, entry)
-        const expiresIn = entry.expiresAt - Date.now()
-        this.logger.info(`[MockDB]   restored key="${key}" email=${entry.email} expiresIn=${Math.round(expiresIn / 1000)}s`)
+        this.logger.debug(`[MockDB]   restored key="${key}"`, {
+          email: entry.email,
+          expiresIn: Math.round((entry.expiresAt - Date.now()) / 1000)
+        })
       }
     } catch (error: any) {
       this.logger.error(`[MockDB] Failed to load persisted tokens: ${error.message}`)
@@ -0,0 +1,131 @@
+/**
+ * Model configuration - Which model, max_tokens and temperature each LLM call uses
+ *
+ * Settings can be given per purpose (routing, orchestration, response) or
+ * under `default`, in persona YAML (`models:`) and in server config. Each
+ * field resolves independently, most specific first:
+ *
+ *   persona[purpose] → persona.default → server[purpose] → server.default → provider default
+ *
+ * so a persona can raise its response temperature while still using the
+ * server's response model.
+ */
+
+import { LLMPurpose } from './usage-tracker'
+
+export interface ModelSettings {
+  model?: string
+  max_tokens?: number
+  // 0-2; omitted means the provider's default
+  temperature?: number
+}
+
+export interface ResolvedModelSettings {
+  model: string
+  max_tokens?: number
+  temperature?: number
+}
+
+/** Purposes a model can be configured for; delegation uses the response settings */
+export type ModelPurpose = Exclude<LLMPurpose, 'delegation'>
+
+export const MODEL_PURPOSES: ModelPurpose[] = ['routing', 'orchestration', 'response']
+
+export type ModelConfig = Partial<Record<ModelPurpose | 'default', ModelSettings>>
+
+const SECTIONS = ['default', ...MODEL_PURPOSES]
+const SETTINGS = ['model', 'max_tokens', 'temperature']
+
+export const MAX_TEMPERATURE = 2
+
+export class ModelConfigError extends Error {
+  constructor(source: string, public readonly problems: string[]) {
+    super(`Invalid model configuration in ${source}: ${problems.join('; ')}`)
+    this.name = 'ModelConfigError'
+  }
+}
+
+/**
+ * Problems with a `models` block, e.g. "models.response.temperature: must be
+ * a number from 0 to 2". Empty when the block is valid or absent.
+ */
+export function checkModelConfig(config: unknown, at: string = 'models'): string[] {
+  if (config === undefined || config === null) return []
+  if (typeof config !== 'object' || Array.isArray(config)) {
+    return [`${at}: must be a mapping of ${SECTIONS.join(', ')}`]
+  }
+
+  const problems: string[] = []
+  for (const [section, settings] of Object.entries(config)) {
+    const path = `${at}.${section}`
+    if (!SECTIONS.includes(section)) {
+      problems.push(`${path}: unknown purpose (expected ${SECTIONS.join(', ')})`)
+      continue
+    }
+    if (!settings || typeof settings !== 'object' || Array.isArray(settings)) {
+      problems.push(`${path}: must be a mapping of ${SETTINGS.join(', ')}`)
+      continue
+    }
+
+    for (const [key, value] of Object.entries(settings)) {
+      if (!SETTINGS.includes(key)) {
+        problems.push(`${path}.${key}: unknown setting (expected ${SETTINGS.join(', ')})`)
+      } else if (value === undefined) {
+        continue
+      } else if (key === 'model' && (typeof value !== 'string' || !value.trim())) {
+        problems.push(`${path}.model: must be a non-empty string`)
+      } else if (key === 'max_tokens' && (!Number.isInteger(value) || (value as number) < 1)) {
+        problems.push(`${path}.max_tokens: must be a positive integer`)
+      } else if (key === 'temperature' &&
+          (typeof value !== 'number' || !(value >= 0 && value <= MAX_TEMPERATURE))) {
+        problems.push(`${path}.temperature: must be a number from 0 to ${MAX_TEMPERATURE}`)
+      }
+    }
+  }
+  return problems
+}
+
+/** Throws ModelConfigError listing every problem; returns the config typed */
+export function validateModelConfig(config: unknown, source: string): ModelConfig | undefined {
+  const problems = checkModelConfig(config)
+  if (problems.length > 0) {
+    throw new ModelConfigError(source, problems)
+  }
+  return config as ModelConfig | undefined
+}
+
+/**
+ * Settings for one call. `layers` are ordered most specific first (persona,
+ * then server); `fallback` is the provider's own default for this purpose.
+ */
+export function resolveModelSettings(
+  purpose: LLMPurpose,
+  layers: Array<ModelConfig | undefined>,
+  fallback: ResolvedModelSettings
+): ResolvedModelSettings {
+  const section: ModelPurpose = purpose === 'delegation' ? 'response' : purpose
+  const candidates = layers.flatMap(layer => layer ? [layer[section], layer.default] : [])
+
+  const pick = <K extends keyof ModelSettings>(key: K): ModelSettings[K] | undefined =>
+    candidates.find(settings => settings?.[key] !== undefined)?.[key]
+
+  return {
+    model: pick('model') ?? fallback.model,
+    max_tokens: pick('max_tokens') ?? fallback.max_tokens,
+    temperature: pick('temperature') ?? fallback.temperature
+  }
+}
+
+/**
+ * The same config without model names, for providers other than the one the
+ * names were written for (e.g. fallbacks in a FallbackGateway chain).
+ * max_tokens and temperature carry over.
+ */
+export function withoutModelNames(config: ModelConfig | undefined): ModelConfig | undefined {
+  if (!config) return undefined
+  return Object.fromEntries(Object.entries(config).map(([section, settings]) => {
+    const rest: ModelSettings = { ...settings }
+    delete rest.model
+    return [section, rest]
+  }))
+}
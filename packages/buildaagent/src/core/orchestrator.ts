@@ -0,0 +1,229 @@
+/**
+ * Orchestrator - Mega's routing decision for delegated requests
+ *
+ * Asks the routing model to rank the roster's agents for a message, each
+ * with a confidence and a short reason. Compound requests ("fix this bug and
+ * draft a tweet about it") can be split across several agents, which then
+ * run in parallel. Every decision is logged and appended to a JSON lines
+ * file so misroutes can be reviewed later.
+ */
+
+import fs from 'fs/promises'
+import path from 'path'
+import { AgentRoster } from './agent-roster'
+import { Logger } from './logger'
+import { ModelConfig } from './model-config'
+import { withSpan } from './tracing'
+import { RoutingModel } from '../gateway/routing-model'
+import { GovernanceViolation } from '../gateway/ilana-gateway'
+
+export interface AgentChoice {
+  agent: string
+  // 0..1, as reported by the orchestrator
+  confidence: number
+  reason: string
+  // The part of the request this agent should handle (fan-out only)
+  task?: string
+}
+
+export interface OrchestrationDecision {
+  // Every valid agent the orchestrator ranked, best first
+  ranking: AgentChoice[]
+  // The agents that get the request: one, or several when fanning out
+  selected: AgentChoice[]
+  fanOut: boolean
+  // Set when the default agent was used because the decision was unusable
+  fallback?: 'unparseable' | 'unknown_agents' | 'error'
+}
+
+export interface OrchestratorConfig {
+  // Minimum confidence for an agent to take part in a split request
+  fanOutThreshold: number
+  // Most agents a single request is sent to
+  maxFanOut: number
+  // JSON lines decision log; not written when unset
+  decisionLogPath?: string
+}
+
+export interface OrchestrationContext {
+  userId: string
+  personaId?: string
+  models?: ModelConfig
+}
+
+const DEFAULT_ORCHESTRATOR_CONFIG: OrchestratorConfig = {
+  fanOutThreshold: 0.5,
+  maxFanOut: 3
+}
+
+// Room for a ranking with reasons; a bare agent name needed far less
+const ORCHESTRATION_MAX_TOKENS = 300
+
+interface RawDecision {
+  agents?: Array<{ id?: unknown, confidence?: unknown, reason?: unknown, task?: unknown }>
+  split?: unknown
+}
+
+/** The first {...} block in a reply, tolerating code fences and chatter around it */
+function extractJSON(reply: string): RawDecision | null {
+  const start = reply.indexOf('{')
+  const end = reply.lastIndexOf('}')
+  if (start === -1 || end <= start) return null
+  try {
+    const parsed = JSON.parse(reply.slice(start, end + 1))
+    return parsed && typeof parsed === 'object' ? parsed : null
+  } catch {
+    return null
+  }
+}
+
+function clampConfidence(value: unknown): number {
+  const confidence = typeof value === 'number' ? value : Number(value)
+  if (!Number.isFinite(confidence)) return 0
+  return Math.min(1, Math.max(0, confidence))
+}
+
+export class Orchestrator {
+  private config: OrchestratorConfig
+
+  constructor(
+    readonly roster: AgentRoster,
+    private routingModel: RoutingModel,
+    private logger: Logger,
+    config: Partial<OrchestratorConfig> = {}
+  ) {
+    this.config = { ...DEFAULT_ORCHESTRATOR_CONFIG, ...config }
+  }
+
+  /**
+   * Rank the agents for a message and pick who handles it. Unusable replies
+   * and routing failures fall back to the default agent; only a governance
+   * block is thrown, as it answers the message.
+   */
+  async decide(message: string, context: OrchestrationContext): Promise<OrchestrationDecision> {
+    return withSpan('orchestrate', { 'roster.agents': this.roster.ids.length }, async span => {
+      let reply: string | undefined
+      let decision: OrchestrationDecision
+
+      try {
+        reply = await this.routingModel.complete(
+          `${this.roster.buildOrchestratorPrompt()}\n\nUser request: "${message}"`,
+          {
+            userId: context.userId,
+            personaId: context.personaId,
+            purpose: 'orchestration',
+            models: context.models,
+            maxTokens: ORCHESTRATION_MAX_TOKENS
+          }
+        )
+        decision = this.parse(reply)
+      } catch (error: any) {
+        if (error instanceof GovernanceViolation) throw error
+        this.logger.warn(`Orchestrator failed, defaulting to ${this.roster.defaultAgent}: ${error.message}`)
+        span.setError(error)
+        decision = this.fallback('error')
+      }
+
+      span.setAttributes({
+        agents: decision.selected.map(choice => choice.agent).join(', '),
+        fan_out: decision.fanOut,
+        confidence: decision.selected[0].confidence,
+        fallback: decision.fallback
+      })
+      await this.record(message, context, decision, reply)
+      return decision
+    })
+  }
+
+  /** Turn the orchestrator's reply into a decision */
+  private parse(reply: string): OrchestrationDecision {
+    const raw = extractJSON(reply)
+
+    if (!raw || !Array.isArray(raw.agents)) {
+      // Older prompts (and small models) answer with just an agent name
+      const agent = this.roster.resolve(reply)
+      if (agent) {
+        const choice = { agent, confidence: 1, reason: 'named without ranking' }
+        return { ranking: [choice], selected: [choice], fanOut: false }
+      }
+      return this.fallback('unparseable')
+    }
+
+    const ranking: AgentChoice[] = []
+    for (const entry of raw.agents) {
+      const agent = typeof entry?.id === 'string' ? this.roster.resolve(entry.id) : null
+      // Unknown agents are dropped; repeats keep their first (highest) rank
+      if (!agent || ranking.some(choice => choice.agent === agent)) continue
+      ranking.push({
+        agent,
+        confidence: clampConfidence(entry.confidence),
+        reason: typeof entry.reason === 'string' ? entry.reason.trim() : '',
+        ...(typeof entry.task === 'string' && entry.task.trim() ? { task: entry.task.trim() } : {})
+      })
+    }
+
+    if (ranking.length === 0) {
+      return this.fallback('unknown_agents')
+    }
+
+    ranking.sort((a, b) => b.confidence - a.confidence)
+
+    if (raw.split === true) {
+      const selected = ranking
+        .filter(choice => choice.confidence >= this.config.fanOutThreshold)
+        .slice(0, this.config.maxFanOut)
+      if (selected.length > 1) {
+        return { ranking, selected, fanOut: true }
+      }
+    }
+
+    // A single agent handles the whole request, not just its part of it
+    const best = { ...ranking[0] }
+    delete best.task
+    return { ranking, selected: [best], fanOut: false }
+  }
+
+  private fallback(reason: NonNullable<OrchestrationDecision['fallback']>): OrchestrationDecision {
+    const choice = { agent: this.roster.defaultAgent, confidence: 0, reason: `fallback: ${reason}` }
+    return { ranking: [], selected: [choice], fanOut: false, fallback: reason }
+  }
+
+  /** Log the decision and append it to the decision log, for reviewing misroutes */
+  private async record(
+    message: string,
+    context: OrchestrationContext,
+    decision: OrchestrationDecision,
+    reply?: string
+  ): Promise<void> {
+    const agents = decision.selected.map(choice => choice.agent)
+    if (decision.fallback) {
+      this.logger.warn(`Mega orchestrator fell back to ${this.roster.defaultAgent} (${decision.fallback})`, { reply })
+    } else {
+      this.logger.info(`Mega orchestrator decided: ${agents.join(', ')}`, {
+        fanOut: decision.fanOut,
+        ranking: decision.ranking.map(choice => `${choice.agent}:${choice.confidence}`)
+      })
+    }
+
+    if (!this.config.decisionLogPath) return
+
+    const record = {
+      timestamp: new Date().toISOString(),
+      userId: context.userId,
+      personaId: context.personaId,
+      message,
+      agents,
+      fanOut: decision.fanOut,
+      ranking: decision.ranking,
+      ...(decision.fallback ? { fallback: decision.fallback, reply } : {})
+    }
+
+    try {
+      await fs.mkdir(path.dirname(this.config.decisionLogPath), { recursive: true })
+      await fs.appendFile(this.config.decisionLogPath, JSON.stringify(record) + '\n', 'utf8')
+    } catch (error) {
+      // Logging a decision must never break the conversation
+      this.logger.error('Failed to write orchestrator decision:', error)
+    }
+  }
+}
@@ -0,0 +1,182 @@
+/**
+ * PersonaEnginePool - Per-user PersonaEngine instances
+ *
+ * Keeps one engine per (user, persona) pair so concurrent users never share
+ * persona state. Least-recently-used engines are evicted once the pool is full,
+ * and engines idle past the timeout are stopped by a periodic sweep. Engines
+ * are leased through use(), and an evicted engine still serving a request is
+ * only stopped once that request releases it.
+ */
+
+import { PersonaEngine } from './persona-engine'
+import { Logger } from './logger'
+
+export interface EnginePoolConfig {
+  maxEngines: number
+  idleTimeoutMs: number
+}
+
+interface PoolEntry {
+  // Promise so concurrent requests for the same key share a single loadPersona
+  engine: Promise<PersonaEngine>
+  lastUsed: number
+  // Requests currently using the engine
+  leases: number
+  // Removed from the pool; stopped when the last lease is released
+  evicted: boolean
+}
+
+const DEFAULT_POOL_CONFIG: EnginePoolConfig = {
+  maxEngines: 100,
+  idleTimeoutMs: 30 * 60 * 1000 // 30 minutes
+}
+
+export class PersonaEnginePool {
+  private entries = new Map<string, PoolEntry>()
+  private config: EnginePoolConfig
+  private sweepTimer: NodeJS.Timeout | null = null
+
+  constructor(
+    private createEngine: (personaId: string) => PersonaEngine,
+    private logger: Logger,
+    config: Partial<EnginePoolConfig> = {}
+  ) {
+    this.config = {
+      maxEngines: this.positive('maxEngines', config.maxEngines),
+      idleTimeoutMs: this.positive('idleTimeoutMs', config.idleTimeoutMs)
+    }
+
+    // Sweep at a fraction of the timeout so idle engines don't linger much past it
+    const sweepInterval = Math.max(1000, Math.floor(this.config.idleTimeoutMs / 4))
+    this.sweepTimer = setInterval(() => this.evictIdle(), sweepInterval)
+    this.sweepTimer.unref()
+  }
+
+  private key(userId: string, personaId: string): string {
+    return `${userId}:${personaId}`
+  }
+
+  // Invalid settings (e.g. an unparseable env value) fall back to the default
+  private positive(name: keyof EnginePoolConfig, value: number | undefined): number {
+    if (value === undefined) return DEFAULT_POOL_CONFIG[name]
+    if (Number.isFinite(value) && value > 0) return value
+
+    this.logger.warn(`Engine pool: invalid ${name} ${value}, using ${DEFAULT_POOL_CONFIG[name]}`)
+    return DEFAULT_POOL_CONFIG[name]
+  }
+
+  /**
+   * Run fn with the engine for a user and persona, loading it on first use.
+   * The engine is not stopped by eviction until fn has settled.
+   */
+  async use<T>(userId: string, personaId: string, fn: (engine: PersonaEngine) => Promise<T>): Promise<T> {
+    const entry = this.lease(userId, personaId)
+    try {
+      return await fn(await entry.engine)
+    } finally {
+      this.release(entry)
+    }
+  }
+
+  private lease(userId: string, personaId: string): PoolEntry {
+    const key = this.key(userId, personaId)
+    const existing = this.entries.get(key)
+
+    if (existing) {
+      // Re-insert to move the entry to the most-recently-used end
+      this.entries.delete(key)
+      existing.lastUsed = Date.now()
+      existing.leases++
+      this.entries.set(key, existing)
+      return existing
+    }
+
+    const engine = this.loadEngine(personaId)
+    const entry: PoolEntry = { engine, lastUsed: Date.now(), leases: 1, evicted: false }
+    this.entries.set(key, entry)
+    this.logger.debug(`Engine pool: created engine for ${key}`, { size: this.entries.size })
+
+    // Don't cache failed loads — the next request should retry
+    engine.catch(() => {
+      if (this.entries.get(key) === entry) {
+        this.entries.delete(key)
+      }
+    })
+
+    this.evictOverflow()
+    return entry
+  }
+
+  private release(entry: PoolEntry): void {
+    entry.leases--
+    entry.lastUsed = Date.now()
+    if (entry.evicted && entry.leases === 0) {
+      this.stopEngine(entry)
+    }
+  }
+
+  private async loadEngine(personaId: string): Promise<PersonaEngine> {
+    const engine = this.createEngine(personaId)
+    await engine.loadPersona(personaId)
+    return engine
+  }
+
+  private evictOverflow(): void {
+    while (this.entries.size > this.config.maxEngines) {
+      // Map iteration order is insertion order, so the first key is least recently used
+      const oldestKey = this.entries.keys().next().value as string
+      this.evict(oldestKey, 'capacity')
+    }
+  }
+
+  private evictIdle(): void {
+    const cutoff = Date.now() - this.config.idleTimeoutMs
+    for (const [key, entry] of this.entries) {
+      if (entry.leases === 0 && entry.lastUsed < cutoff) {
+        this.evict(key, 'idle')
+      }
+    }
+  }
+
+  private evict(key: string, reason: 'capacity' | 'idle'): void {
+    const entry = this.entries.get(key)
+    if (!entry) return
+
+    this.entries.delete(key)
+    entry.evicted = true
+    this.logger.debug(`Engine pool: evicted ${key} (${reason})`, { size: this.entries.size })
+
+    // An engine still serving a request is stopped when it is released
+    if (entry.leases === 0) {
+      this.stopEngine(entry)
+    }
+  }
+
+  private stopEngine(entry: PoolEntry): void {
+    entry.engine
+      .then(engine => engine.stop())
+      .catch(() => {
+        // Load failures are already logged by PersonaEngine
+      })
+  }
+
+  getStats(): { engines: number, maxEngines: number, idleTimeoutMs: number } {
+    return {
+      engines: this.entries.size,
+      maxEngines: this.config.maxEngines,
+      idleTimeoutMs: this.config.idleTimeoutMs
+    }
+  }
+
+  async shutdown(): Promise<void> {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer)
+      this.sweepTimer = null
+    }
+
+    const engines = Array.from(this.entries.values()).map(entry => entry.engine)
+    this.entries.clear()
+
+    await Promise.allSettled(engines.map(async engine => (await engine).stop()))
+  }
+}
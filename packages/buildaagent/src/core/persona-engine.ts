@@ -5,11 +5,21 @@
  * the persona's behavior, skills, and context
  */
 
-import { SkillRegistry, SkillExecutionResult } from './skill-registry'
-import { AgentGateway } from '../gateway/agent-gateway'
-import { OpenClawGateway, TaskType, DelegationResult } from '../gateway/openclaw-gateway'
-import { MockDatabase as Database } from './mock-database'
+import { SkillRegistry, SkillExecutionResult, ToolCallRecord } from './skill-registry'
+import { AgentGateway, ConversationMessage, ToolCall, ToolSet } from '../gateway/agent-gateway'
+import { RoutingModel, AnthropicRoutingModel } from '../gateway/routing-model'
+import { TaskType, DelegatingGateway, DelegationResult, canDelegate } from '../gateway/openclaw-gateway'
+import { IlanaGateway, GovernanceConfig, GovernanceViolation } from '../gateway/ilana-gateway'
+import { Database } from './storage'
 import { Logger } from './logger'
+import { QuietHoursConfig, validateQuietHours } from './quiet-hours'
+import { UsageTracker } from './usage-tracker'
+import { JSONSchema } from './json-schema'
+import { ModelConfig, validateModelConfig } from './model-config'
+import { AgentRoster } from './agent-roster'
+import { AgentChoice, Orchestrator } from './orchestrator'
+import { Span, SpanAttributes, annotateSpan, withSpan } from './tracing'
+import { skillExecutions } from './metrics'
 
 export interface PersonaConfig {
   name: string
@@ -21,8 +31,16 @@ export interface PersonaConfig {
     proactiveness: string
     formality: string
     emoji_usage: boolean
+    quiet_hours?: QuietHoursConfig
   }
   first_message: string
+  memory?: {
+    max_turns?: number
+    max_tokens?: number
+  }
+  governance?: GovernanceConfig
+  // Per-purpose model, max_tokens and temperature (see model-config.ts)
+  models?: ModelConfig
   cron_schedules?: Array<{
     name: string
     schedule: string
@@ -35,23 +53,66 @@ export interface MessageResponse {
   skillUsed?: string
   persona: string
   delegatedAgent?: string
+  toolCalls?: ToolCallRecord[]
+}
+
+/**
+ * Progress events emitted while a message is processed, for streaming clients.
+ * Token deltas concatenate to the final message; `reset` means discard what was
+ * streamed so far (e.g. delegation failed part-way and the direct flow took over).
+ */
+export type ChatStreamEvent =
+  // `agents` lists every agent when a compound request fans out (`agent` is the first)
+  | { type: 'routing', route: 'delegation', agent: string, agents?: string[] }
+  | { type: 'routing', route: 'skill', skill: string | null }
+  | { type: 'skill_start', skill: string }
+  | { type: 'skill_finish', skill: string, success: boolean }
+  | { type: 'token', delta: string }
+  | { type: 'reset' }
+
+export type ChatStreamListener = (event: ChatStreamEvent) => void
+
+/** Skill tool names are `<skill>__<capability>` */
+const TOOL_NAME_SEPARATOR = '__'
+
+/** Between agents' sections in a fanned-out reply */
+const DELEGATION_SEPARATOR = '\n\n'
+
+const SKILL_ROUTER_PROMPT = `You are a skill router. If one of the tools can help answer the user's message, call it, filling in its arguments from the message. Only include arguments the user actually gave or clearly implied. If no tool is needed, reply with just "none".`
+
+/** A skill capability offered to the model as a tool */
+interface SkillTool {
+  name: string
+  description: string
+  input_schema: JSONSchema
+  skill: string
+  capability: string
 }
 
-/** Mega orchestrator prompt — decides which agent should handle each request */
-const ORCHESTRATOR_PROMPT = `You are Mega, the orchestrator. Analyze the user's request and decide which specialist agent should handle it.
+/** Distinct skills called, in first-call order, e.g. "email-manager, weather-check" */
+function summarizeToolCalls(toolCalls: ToolCallRecord[]): string | undefined {
+  const skills = Array.from(new Set(toolCalls.map(call => call.skill)))
+  return skills.length > 0 ? skills.join(', ') : undefined
+}
 
-Available agents:
-- main: General conversation, Q&A, casual chat, topics that don't fit other agents
-- coder: Software development, debugging, code review, architecture, DevOps, technical implementation
-- marketing: Content creation, social media strategy, copywriting, branding, growth, campaigns
-- assistant: Personal productivity, email management, calendar, reminders, life organization, scheduling, travel planning, daily planning, personal tasks
+/** Conversation memory budget used when a persona doesn't set its own */
+const DEFAULT_MEMORY = {
+  max_turns: 10,
+  max_tokens: 2000
+}
 
-Rules:
-- Choose the SINGLE best agent for the request
-- If the request is ambiguous or general, choose "main"
-- Consider the overall intent, not just individual words
+/** Rough token estimate (~4 chars per token) — good enough for budgeting history */
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4)
+}
 
-Respond with ONLY the agent name (main, coder, marketing, or assistant). No explanation.`
+/** No persona file exists for the id; other load failures are a broken persona */
+export class PersonaNotFoundError extends Error {
+  constructor(public readonly personaId: string) {
+    super(`Persona configuration not found: ${personaId}`)
+    this.name = 'PersonaNotFoundError'
+  }
+}
 
 export class PersonaEngine {
   private persona: PersonaConfig | null = null
@@ -62,7 +123,10 @@ export class PersonaEngine {
     private skillRegistry: SkillRegistry,
     private gateway: AgentGateway,
     private database: Database,
-    private logger: Logger
+    private logger: Logger,
+    usageTracker?: UsageTracker,
+    private routingModel: RoutingModel = new AnthropicRoutingModel(usageTracker),
+    private orchestrator: Orchestrator = new Orchestrator(AgentRoster.default(), routingModel, logger)
   ) {}
 
   async loadPersona(personaId: string): Promise<void> {
@@ -95,11 +159,19 @@ export class PersonaEngine {
       }
       
       if (!personaContent) {
-        throw new Error(`Persona configuration not found: ${personaId}`)
+        throw new PersonaNotFoundError(personaId)
       }
       
-      this.persona = yaml.parse(personaContent)
+      const persona: PersonaConfig = yaml.parse(personaContent)
+      validateModelConfig(persona.models, `persona ${personaId}`)
+      validateQuietHours(persona.behavior?.quiet_hours, `persona ${personaId}`)
+
+      this.persona = persona
       this.currentPersona = personaId
+
+      if (this.gateway instanceof IlanaGateway) {
+        this.gateway.setPolicy(personaId, this.persona?.governance)
+      }
       
       this.logger.info(`✅ Persona loaded: ${this.persona.name}`, {
         version: this.persona.version,
@@ -112,7 +184,12 @@ export class PersonaEngine {
     }
   }
 
-  async processMessage(message: string, userId: string): Promise<MessageResponse> {
+  async processMessage(
+    message: string,
+    userId: string,
+    onEvent?: ChatStreamListener,
+    threadId?: string
+  ): Promise<MessageResponse> {
     if (!this.persona) {
       throw new Error('No persona loaded')
     }
@@ -124,39 +201,63 @@ export class PersonaEngine {
     })
 
     try {
-      // Try agent delegation first (OpenClaw multi-agent orchestration)
-      console.log(`🔍 DEBUG [processMessage] Gateway type: ${this.gateway.constructor.name}`)
-      console.log(`🔍 DEBUG [processMessage] Is OpenClawGateway? ${this.gateway instanceof OpenClawGateway}`)
-      console.log(`🔍 DEBUG [processMessage] Attempting delegation for message: "${message.substring(0, 80)}..."`)
+      const history = await this.loadHistory(userId, threadId)
 
-      const delegated = await this.delegateTask(message, userId)
+      annotateSpan({ 'persona.id': this.currentPersona || undefined, 'history.turns': history.length })
 
-      console.log(`🔍 DEBUG [processMessage] Delegation result: ${delegated ? 'SUCCESS' : 'NULL (falling back to direct)'}`)
+      // Try agent delegation first (OpenClaw multi-agent orchestration)
+      const delegated = await this.delegateTask(message, userId, history, onEvent, threadId)
       if (delegated) {
-        console.log(`🔍 DEBUG [processMessage] Delegated to agent: ${delegated.delegatedAgent}, response length: ${delegated.message.length}`)
-        await this.storeConversation(message, delegated.message, userId, undefined, delegated.delegatedAgent)
+        annotateSpan({ route: 'delegation', 'delegation.agents': delegated.delegatedAgent })
+        await this.storeConversation(message, delegated.message, userId, threadId, undefined, delegated.delegatedAgent)
         return delegated
       }
 
       // Fallback: skill execution + direct LLM response
-      console.log(`🔍 DEBUG [processMessage] Falling back to skill execution + direct LLM`)
-      const skillResult = await this.tryExecuteSkill(message, userId)
+      annotateSpan({ route: 'direct' })
+
+      // Gateways with native tool calling run skills in an agent loop;
+      // others get at most one skill, chosen by the router up front
+      const toolCalls: ToolCallRecord[] = []
+      const tools = this.gateway.supportsTools ? this.buildToolSet(message, userId, toolCalls, onEvent) : undefined
+      const skillResult = tools ? null : await this.tryExecuteSkill(message, userId, onEvent)
 
       // Build context for the LLM
       const context = this.buildPersonaContext(message, skillResult)
 
       // Generate response via AgentGateway
-      const response = await this.gateway.generateResponse(context, userId)
+      const response = await this.traceGatewayCall('gateway.generate', { tools: tools?.definitions.length }, () =>
+        this.gateway.generateResponse(context, userId, history, {
+          personaId: this.currentPersona!,
+          models: this.persona!.models,
+          threadId,
+          onToken: onEvent && (delta => onEvent({ type: 'token', delta })),
+          tools
+        })
+      )
+
+      const skillUsed = skillResult?.skillName || summarizeToolCalls(toolCalls)
 
       // Store conversation in database
-      await this.storeConversation(message, response, userId, skillResult?.skillName)
+      await this.storeConversation(message, response, userId, threadId, skillUsed, undefined, toolCalls)
 
       return {
         message: response,
-        skillUsed: skillResult?.skillName,
-        persona: this.currentPersona!
+        skillUsed,
+        persona: this.currentPersona!,
+        ...(toolCalls.length > 0 ? { toolCalls } : {})
       }
     } catch (error) {
+      annotateSpan({ error: error instanceof Error ? error.message : String(error) })
+
+      if (error instanceof GovernanceViolation) {
+        this.logger.warn(`Message blocked by governance (${error.code}): ${error.message}`)
+        return {
+          message: this.getGovernanceResponse(error),
+          persona: this.currentPersona!
+        }
+      }
+
       this.logger.error('Error processing message:', error)
       
       // Return graceful error response in persona's tone
@@ -167,53 +268,228 @@ export class PersonaEngine {
     }
   }
 
-  private async tryExecuteSkill(message: string, userId: string): Promise<SkillExecutionResult | null> {
-    if (!this.persona) return null
+  /**
+   * Load recent turns with this persona as chat messages, oldest first.
+   * Only the thread's turns when there is one. Trimmed to the persona's
+   * memory budget (turn count and estimated tokens).
+   */
+  private async loadHistory(userId: string, threadId?: string): Promise<ConversationMessage[]> {
+    if (!this.persona) return []
 
-    // Build a list of available skills with descriptions for the LLM
-    const availableSkills = this.persona.skills
-      .filter(name => this.skillRegistry.hasSkill(name))
-      .map(name => {
-        const manifest = this.skillRegistry.getSkillManifest(name)
-        return `- ${name}: ${manifest?.description || 'No description'}`
+    const maxTurns = this.persona.memory?.max_turns ?? DEFAULT_MEMORY.max_turns
+    const maxTokens = this.persona.memory?.max_tokens ?? DEFAULT_MEMORY.max_tokens
+    if (maxTurns <= 0 || maxTokens <= 0) return []
+
+    try {
+      // getConversationHistory returns newest first
+      const entries = await this.database.getConversationHistory(userId, maxTurns, {
+        persona: this.currentPersona!,
+        threadId
       })
 
-    if (availableSkills.length === 0) return null
+      const turns: ConversationMessage[][] = []
+      let tokens = 0
+      for (const entry of entries) {
+        const turnTokens = estimateTokens(entry.userMessage) + estimateTokens(entry.agentResponse)
+        if (tokens + turnTokens > maxTokens) break
+        tokens += turnTokens
+        turns.push([
+          { role: 'user', content: entry.userMessage },
+          { role: 'assistant', content: entry.agentResponse }
+        ])
+      }
 
-    // Ask the LLM which skill (if any) to use
-    const routingPrompt = `You are a skill router. Given a user message and available skills, decide which skill to use.
+      return turns.reverse().flat()
+    } catch (error) {
+      this.logger.warn('Failed to load conversation history, continuing without it:', error)
+      return []
+    }
+  }
+
+  /**
+   * Run a scheduled persona task (e.g. morning-briefing) for a user.
+   * Goes through skill routing and the gateway like a chat message, but errors
+   * propagate so the scheduler can record the failure. The response is not
+   * stored — delivery goes through ProactiveOutbox so quiet hours apply.
+   */
+  async runScheduledTask(jobName: string, task: string, userId: string): Promise<MessageResponse> {
+    if (!this.persona) {
+      throw new Error('No persona loaded')
+    }
 
-Available skills:
-${availableSkills.join('\n')}
+    this.logger.info(`Running scheduled task: ${jobName}`, { persona: this.persona.name, userId })
+
+    const toolCalls: ToolCallRecord[] = []
+    const tools = this.gateway.supportsTools ? this.buildToolSet(task, userId, toolCalls) : undefined
+    const skillResult = tools ? null : await this.tryExecuteSkill(task, userId)
+    const context = this.buildPersonaContext(
+      `(Scheduled task "${jobName}" — the user did not send this, you are reaching out proactively) ${task}`,
+      skillResult
+    )
+    const response = await this.traceGatewayCall('gateway.generate', { tools: tools?.definitions.length }, () =>
+      this.gateway.generateResponse(context, userId, [], {
+        personaId: this.currentPersona!,
+        models: this.persona!.models,
+        tools
+      })
+    )
 
-User message: "${message}"
+    return {
+      message: response,
+      skillUsed: skillResult?.skillName || summarizeToolCalls(toolCalls),
+      persona: this.currentPersona!,
+      ...(toolCalls.length > 0 ? { toolCalls } : {})
+    }
+  }
 
-Respond with ONLY the skill name (e.g. "email-manager") or "none" if no skill is needed. Do not explain.`
+  private async tryExecuteSkill(
+    message: string,
+    userId: string,
+    onEvent?: ChatStreamListener
+  ): Promise<SkillExecutionResult | null> {
+    if (!this.persona) return null
+
+    const tools = this.buildSkillTools(this.getAvailableSkills())
+    if (tools.length === 0) return null
 
     try {
-      const decision = await this.routeWithLLM(routingPrompt)
-      const skillName = decision.trim().toLowerCase().replace(/[^a-z0-9-]/g, '')
+      // The router picks a capability (as a tool) and extracts its arguments in one call
+      const { choice, selected } = await withSpan('skill.route', { 'skill.candidates': tools.length }, async span => {
+        const choice = await this.routeWithTools(message, tools, userId)
+        const selected = choice && tools.find(tool => tool.name === choice.name)
+        span.setAttributes({ skill: selected?.skill || 'none', 'skill.capability': selected?.capability })
+        return { choice, selected }
+      })
 
-      this.logger.info(`Skill router decided: ${skillName}`)
+      this.logger.info(`Skill router decided: ${selected ? `${selected.skill}.${selected.capability}` : 'none'}`)
 
-      if (skillName === 'none' || !this.skillRegistry.hasSkill(skillName)) {
+      if (!selected) {
+        onEvent?.({ type: 'routing', route: 'skill', skill: null })
         return null
       }
 
-      if (!this.persona.skills.includes(skillName)) {
-        return null
+      const skillName = selected.skill
+      onEvent?.({ type: 'routing', route: 'skill', skill: skillName })
+
+      if (this.gateway instanceof IlanaGateway) {
+        await this.gateway.checkSkill(this.currentPersona!, userId, skillName)
       }
 
-      return await this.skillRegistry.executeSkill(skillName, {
-        query: message,
-        userId
-      })
+      onEvent?.({ type: 'skill_start', skill: skillName })
+      const result = await this.executeSkill(skillName, selected.capability, choice!.input, message, userId)
+      onEvent?.({ type: 'skill_finish', skill: skillName, success: result.success })
+
+      return result
     } catch (error: any) {
+      // A policy block answers the message; it must not fall through to an unskilled reply
+      if (error instanceof GovernanceViolation) throw error
       this.logger.warn('Skill routing failed, proceeding without skill:', error)
       return null
     }
   }
 
+  /** Run a skill capability in a skill.execute span */
+  private executeSkill(
+    skill: string,
+    capability: string,
+    args: Record<string, unknown>,
+    query: string,
+    userId: string
+  ): Promise<SkillExecutionResult> {
+    return withSpan('skill.execute', { skill, 'skill.capability': capability }, async span => {
+      const result = await this.skillRegistry.executeSkill(skill, { query, userId, capability, args })
+      skillExecutions.inc({ skill, outcome: result.success ? 'success' : 'failure' })
+      if (!result.success) span.setError(result.error || 'skill failed')
+      return result
+    })
+  }
+
+  /** A gateway call in a client span, tagged with the gateway in use */
+  private traceGatewayCall<T>(name: string, attributes: SpanAttributes, call: (span: Span) => Promise<T>): Promise<T> {
+    return withSpan(name, { gateway: this.gateway.constructor.name, ...attributes }, call, 'client')
+  }
+
+  /**
+   * Persona skills that are registered and not restricted by governance
+   */
+  private getAvailableSkills(): string[] {
+    if (!this.persona) return []
+
+    return this.persona.skills
+      .filter(name => this.skillRegistry.hasSkill(name))
+      .filter(name => !(this.gateway instanceof IlanaGateway) || this.gateway.isSkillAllowed(this.currentPersona!, name))
+  }
+
+  /**
+   * Expose the persona's skills as tools for the gateway's agent loop.
+   * Each call is checked against governance, executed through the registry,
+   * and appended to `records` so it can be stored with the conversation.
+   */
+  private buildToolSet(
+    message: string,
+    userId: string,
+    records: ToolCallRecord[],
+    onEvent?: ChatStreamListener
+  ): ToolSet | undefined {
+    const tools = this.buildSkillTools(this.getAvailableSkills())
+    if (tools.length === 0) return undefined
+
+    return {
+      definitions: tools.map(({ name, description, input_schema }) => ({ name, description, input_schema })),
+      execute: async call => {
+        const tool = tools.find(candidate => candidate.name === call.name)
+        if (!tool) {
+          return { content: `Unknown tool: ${call.name}`, isError: true }
+        }
+
+        if (this.gateway instanceof IlanaGateway) {
+          try {
+            await this.gateway.checkSkill(this.currentPersona!, userId, tool.skill)
+          } catch (error) {
+            if (error instanceof GovernanceViolation) {
+              return { content: error.message, isError: true }
+            }
+            throw error
+          }
+        }
+
+        this.logger.info(`Model called tool: ${tool.skill}.${tool.capability}`)
+        onEvent?.({ type: 'skill_start', skill: tool.skill })
+        const result = await this.executeSkill(tool.skill, tool.capability, call.input, message, userId)
+        onEvent?.({ type: 'skill_finish', skill: tool.skill, success: result.success })
+
+        records.push({
+          skill: tool.skill,
+          capability: tool.capability,
+          args: call.input,
+          result: result.result,
+          success: result.success
+        })
+
+        return { content: result.result, isError: !result.success }
+      }
+    }
+  }
+
+  /**
+   * One tool per skill capability, named `<skill>__<capability>`,
+   * with the capability's parameter schema as the tool input schema.
+   */
+  private buildSkillTools(skillNames: string[]): SkillTool[] {
+    return skillNames.flatMap(skill => {
+      const manifest = this.skillRegistry.getSkillManifest(skill)
+      if (!manifest) return []
+
+      return manifest.capabilities.map(capability => ({
+        name: `${skill}${TOOL_NAME_SEPARATOR}${capability.name}`,
+        description: `${manifest.description}. ${capability.description}`,
+        input_schema: capability.parameters,
+        skill,
+        capability: capability.name
+      }))
+    })
+  }
+
   private buildPersonaContext(message: string, skillResult?: SkillExecutionResult | null): string {
     if (!this.persona) return message
 
@@ -259,20 +535,49 @@ Respond with ONLY the skill name (e.g. "email-manager") or "none" if no skill is
     }
   }
 
+  private getGovernanceResponse(violation: GovernanceViolation): string {
+    const tone = this.persona?.behavior.tone
+    const emoji = this.persona?.behavior.emoji_usage
+
+    switch (violation.code) {
+      case 'budget_exceeded':
+        if (tone === 'professional') {
+          return "I've reached today's usage limit for this assistant. I'll be available again tomorrow."
+        }
+        return emoji
+          ? "I've hit my daily limit for today 😴 Let's pick this up again tomorrow!"
+          : "I've hit my daily limit for today. Let's pick this up again tomorrow!"
+      case 'domain_restricted':
+        return tone === 'professional'
+          ? "I'm not able to help with that site under the current policy."
+          : "Sorry, that site is off-limits for me. Anything else I can help with?"
+      case 'skill_restricted':
+      default:
+        return tone === 'professional'
+          ? "I'm not permitted to perform that action under the current policy."
+          : "Sorry, I'm not allowed to do that one. Anything else I can help with?"
+    }
+  }
+
   private async storeConversation(
     userMessage: string,
     agentResponse: string,
     userId: string,
+    threadId?: string,
     skillUsed?: string,
-    delegatedAgent?: string
+    delegatedAgent?: string,
+    toolCalls: ToolCallRecord[] = []
   ): Promise<void> {
     try {
       await this.database.storeConversation({
         userId,
+        ...(threadId ? { threadId } : {}),
         userMessage,
         agentResponse,
         persona: this.currentPersona!,
         skillUsed: skillUsed || delegatedAgent,
+        ...(delegatedAgent ? { delegatedAgent } : {}),
+        ...(toolCalls.length > 0 ? { toolCalls } : {}),
         timestamp: new Date().toISOString()
       })
     } catch (error) {
@@ -289,6 +594,10 @@ Respond with ONLY the skill name (e.g. "email-manager") or "none" if no skill is
     return this.persona.first_message
   }
 
+  getPersonaConfig(): PersonaConfig | null {
+    return this.persona
+  }
+
   async getStatus(): Promise<{ healthy: boolean, persona?: string }> {
     return {
       healthy: this.persona !== null,
@@ -297,131 +606,168 @@ Respond with ONLY the skill name (e.g. "email-manager") or "none" if no skill is
   }
 
   /**
-   * Fast LLM call for skill routing — uses haiku-level model with minimal tokens
+   * Skill routing via tool use: returns the tool the model called and its
+   * arguments, or null when it answered without calling one.
    */
-  private async routeWithLLM(prompt: string): Promise<string> {
-    const apiKey = process.env.ANTHROPIC_API_KEY
-    if (!apiKey) {
-      throw new Error('No ANTHROPIC_API_KEY for routing')
-    }
-
-    const response = await fetch('https://api.anthropic.com/v1/messages', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-api-key': apiKey,
-        'anthropic-version': '2023-06-01'
-      },
-      body: JSON.stringify({
-        model: 'claude-haiku-4-5-20251001',
-        max_tokens: 20,
-        messages: [{ role: 'user', content: prompt }]
-      })
-    })
-
-    if (!response.ok) {
-      const error = await response.text()
-      throw new Error(`Routing LLM error: ${response.status} ${error}`)
-    }
-
-    const data = await response.json() as { content: Array<{ text: string }> }
-    return data.content[0]?.text || 'none'
+  private async routeWithTools(message: string, tools: SkillTool[], userId: string): Promise<ToolCall | null> {
+    return this.routingModel.chooseTool(
+      message,
+      SKILL_ROUTER_PROMPT,
+      tools.map(({ name, description, input_schema }) => ({ name, description, input_schema })),
+      { userId, personaId: this.currentPersona || undefined, purpose: 'routing', models: this.persona?.models }
+    )
   }
 
   /**
-   * Use Mega orchestrator to intelligently decide which agent should handle a request.
-   * Replaces keyword matching with LLM-powered intent analysis.
+   * Delegate a message to specialized OpenClaw agents.
+   * Mega's orchestrator picks the agent; compound requests go to several
+   * agents in parallel and their replies are merged, one section per agent.
+   * Only works when the gateway can delegate (OpenClawGateway, or a recording of one).
    */
-  private async orchestrateTask(message: string): Promise<TaskType> {
-    console.log(`🔍 DEBUG [orchestrateTask] Entry — message: "${message.substring(0, 80)}"`)
-    try {
-      const prompt = `${ORCHESTRATOR_PROMPT}\n\nUser request: "${message}"`
-      console.log(`🔍 DEBUG [orchestrateTask] Sending orchestration prompt to LLM (${prompt.length} chars)`)
-      console.log(`🔍 DEBUG [orchestrateTask] Full prompt:\n${prompt}`)
+  private async delegateTask(
+    message: string,
+    userId: string,
+    history: ConversationMessage[] = [],
+    onEvent?: ChatStreamListener,
+    threadId?: string
+  ): Promise<MessageResponse | null> {
+    if (!canDelegate(this.gateway)) {
+      return null
+    }
 
-      const decision = await this.routeWithLLM(prompt)
-      console.log(`🔍 DEBUG [orchestrateTask] Raw LLM decision: "${decision}"`)
+    const decision = await this.orchestrator.decide(message, {
+      userId,
+      personaId: this.currentPersona || undefined,
+      models: this.persona?.models
+    })
+    const agents = decision.selected.map(choice => choice.agent)
+    onEvent?.({
+      type: 'routing',
+      route: 'delegation',
+      agent: agents[0],
+      ...(decision.fanOut ? { agents } : {})
+    })
 
-      const agent = decision.trim().toLowerCase().replace(/[^a-z]/g, '') as TaskType
-      console.log(`🔍 DEBUG [orchestrateTask] Cleaned agent name: "${agent}"`)
+    if (decision.fanOut) {
+      return this.fanOut(this.gateway, message, decision.selected, userId, history, onEvent, threadId)
+    }
+
+    const taskType = agents[0]
+    const delegationPrompt = this.buildDelegationPrompt(message)
 
-      if (['main', 'coder', 'marketing', 'assistant'].includes(agent)) {
-        console.log(`🔍 DEBUG [orchestrateTask] Valid agent — returning "${agent}"`)
-        this.logger.info(`Mega orchestrator decided: "${agent}"`)
-        return agent
+    let streamed = false
+    const onToken = onEvent && ((delta: string) => {
+      if (!streamed) {
+        // Lead with the agent label so the deltas add up to the formatted reply
+        onEvent({ type: 'token', delta: this.formatDelegationPrefix(taskType) })
+        streamed = true
       }
+      onEvent({ type: 'token', delta })
+    })
 
-      console.log(`🔍 DEBUG [orchestrateTask] UNEXPECTED agent "${decision}" — defaulting to main`)
-      this.logger.warn(`Mega returned unexpected agent "${decision}", defaulting to main`)
-      return 'main'
+    try {
+      const result = await this.delegate(this.gateway, taskType, delegationPrompt, userId, history, threadId, onToken)
+      return this.formatDelegationResponse([result])
     } catch (error: any) {
-      console.log(`🔍 DEBUG [orchestrateTask] FAILED — error: ${error.message}`)
-      console.log(`🔍 DEBUG [orchestrateTask] Error stack: ${error.stack}`)
-      this.logger.warn(`Orchestrator failed, defaulting to main: ${error.message}`)
-      return 'main'
+      if (streamed) {
+        onEvent?.({ type: 'reset' })
+      }
+      // A policy block answers the message; the default flow would only be blocked again
+      if (error instanceof GovernanceViolation) throw error
+      this.logger.warn(`Agent delegation failed, falling back to default flow: ${error.message}`)
+      return null
     }
   }
 
   /**
-   * Delegate a message to a specialized OpenClaw agent.
-   * Uses Mega orchestrator for intelligent routing instead of keyword matching.
-   * Only works when the gateway is an OpenClawGateway instance.
+   * Send each agent its part of a compound request in parallel and merge the
+   * replies. Agents that fail are left out; null when every one failed.
    */
-  private async delegateTask(message: string, userId: string): Promise<MessageResponse | null> {
-    console.log(`🔍 DEBUG [delegateTask] Entry — gateway constructor: ${this.gateway.constructor.name}`)
-    console.log(`🔍 DEBUG [delegateTask] gateway instanceof OpenClawGateway: ${this.gateway instanceof OpenClawGateway}`)
-    console.log(`🔍 DEBUG [delegateTask] gateway proto chain: ${Object.getPrototypeOf(this.gateway)?.constructor?.name}`)
-
-    if (!(this.gateway instanceof OpenClawGateway)) {
-      console.log(`🔍 DEBUG [delegateTask] EXITING EARLY — gateway is NOT OpenClawGateway, returning null`)
-      console.log(`🔍 DEBUG [delegateTask] OpenClawGateway class ref: ${OpenClawGateway.name}`)
-      console.log(`🔍 DEBUG [delegateTask] Imported OpenClawGateway module path check — this is a potential dual-module issue`)
+  private async fanOut(
+    gateway: DelegatingGateway,
+    message: string,
+    choices: AgentChoice[],
+    userId: string,
+    history: ConversationMessage[],
+    onEvent?: ChatStreamListener,
+    threadId?: string
+  ): Promise<MessageResponse | null> {
+    const settled = await Promise.allSettled(choices.map(choice =>
+      this.delegate(gateway, choice.agent, this.buildDelegationPrompt(choice.task || message), userId, history, threadId)
+    ))
+
+    const results: DelegationResult[] = []
+    settled.forEach((outcome, i) => {
+      if (outcome.status === 'fulfilled') {
+        results.push(outcome.value)
+      } else {
+        this.logger.warn(`Agent delegation to ${choices[i].agent} failed: ${outcome.reason?.message}`)
+      }
+    })
+
+    if (results.length === 0) {
+      const violation = settled.find(outcome => outcome.status === 'rejected' && outcome.reason instanceof GovernanceViolation)
+      if (violation) throw (violation as PromiseRejectedResult).reason
+      this.logger.warn('Every agent in the fan-out failed, falling back to default flow')
       return null
     }
 
-    console.log(`🔍 DEBUG [delegateTask] Gateway IS OpenClawGateway — proceeding with orchestration`)
-
-    const taskType = await this.orchestrateTask(message)
-    console.log(`🔍 DEBUG [delegateTask] Orchestrator chose taskType: "${taskType}"`)
+    // Replies arrive whole, so each agent's section streams as one delta
+    results.forEach((result, i) => {
+      onEvent?.({ type: 'token', delta: `${i > 0 ? DELEGATION_SEPARATOR : ''}${this.formatDelegationSection(result)}` })
+    })
+    return this.formatDelegationResponse(results)
+  }
 
-    // Build persona-aware prompt for the delegated agent
-    const delegationPrompt = this.persona
-      ? `[Persona: ${this.persona.name} | Tone: ${this.persona.behavior.tone}]\n\nUser request: ${message}`
-      : message
-    console.log(`🔍 DEBUG [delegateTask] Delegation prompt (first 120 chars): "${delegationPrompt.substring(0, 120)}"`)
+  /** One delegateToAgent call, in a gateway.delegate span */
+  private delegate(
+    gateway: DelegatingGateway,
+    agent: string,
+    prompt: string,
+    userId: string,
+    history: ConversationMessage[],
+    threadId?: string,
+    onToken?: (delta: string) => void
+  ): Promise<DelegationResult> {
+    return this.traceGatewayCall('gateway.delegate', { agent }, async span => {
+      const result = await gateway.delegateToAgent(agent, prompt, userId, history, {
+        personaId: this.currentPersona || undefined,
+        models: this.persona?.models,
+        threadId,
+        onToken
+      })
+      span.setAttributes({ 'openclaw.agent': result.agentId, 'response.length': result.response.length })
+      return result
+    })
+  }
 
-    try {
-      console.log(`🔍 DEBUG [delegateTask] Calling gateway.delegateToAgent("${taskType}", ...)`)
-      const result = await this.gateway.delegateToAgent(taskType, delegationPrompt, userId)
-      console.log(`🔍 DEBUG [delegateTask] Delegation SUCCESS — agent: ${result.agentId}, response length: ${result.response.length}`)
-      return this.formatDelegationResponse(result)
-    } catch (error: any) {
-      console.log(`🔍 DEBUG [delegateTask] Delegation FAILED — error: ${error.message}`)
-      this.logger.warn(`Agent delegation failed, falling back to default flow: ${error.message}`)
-      return null
-    }
+  /** Persona-aware prompt for a delegated agent */
+  private buildDelegationPrompt(request: string): string {
+    return this.persona
+      ? `[Persona: ${this.persona.name} | Tone: ${this.persona.behavior.tone}]\n\nUser request: ${request}`
+      : request
   }
 
   /**
-   * Format a DelegationResult into a mobile-friendly MessageResponse.
+   * Format DelegationResults into a mobile-friendly MessageResponse, one
+   * labelled section per agent.
    */
-  private formatDelegationResponse(result: DelegationResult): MessageResponse {
-    const agentLabels: Record<TaskType, string> = {
-      main: 'Mega ⚡',
-      coder: 'Coder 🛠️',
-      marketing: 'Marketing 📣',
-      assistant: 'Personal Assistant 🤖'
-    }
-
-    const label = agentLabels[result.taskType]
-
+  private formatDelegationResponse(results: DelegationResult[]): MessageResponse {
     return {
-      message: `**${label}** · ${result.response}`,
+      message: results.map(result => this.formatDelegationSection(result)).join(DELEGATION_SEPARATOR),
       persona: this.currentPersona!,
-      delegatedAgent: result.agentId
+      delegatedAgent: results.map(result => result.agentId).join(', ')
     }
   }
 
+  private formatDelegationSection(result: DelegationResult): string {
+    return `${this.formatDelegationPrefix(result.taskType)}${result.response}`
+  }
+
+  private formatDelegationPrefix(taskType: TaskType): string {
+    return `**${this.orchestrator.roster.label(taskType)}** · `
+  }
+
   async stop(): Promise<void> {
     this.logger.info(`Stopping PersonaEngine for: ${this.currentPersona}`)
     this.persona = null
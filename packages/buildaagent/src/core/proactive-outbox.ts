@@ -0,0 +1,198 @@
+/**
+ * ProactiveOutbox - Delivery point for messages the user didn't ask for
+ *
+ * Scheduled job output and notifications go through here instead of being
+ * stored directly. Messages generated during a persona's quiet hours are held
+ * and delivered together once the window ends. Pending messages are kept in
+ * runtime state so a restart doesn't drop them.
+ *
+ * Delivered messages go to an "Updates" thread per user and persona, created
+ * on first delivery (and again if the user deletes it), so they show up in
+ * the thread list next to the user's own conversations.
+ */
+
+import crypto from 'crypto'
+import { Database } from './storage'
+import { Logger } from './logger'
+import { ToolCallRecord } from './skill-registry'
+import { QuietHoursConfig, resolveTimezone, isWithinQuietHours, quietHoursEnd } from './quiet-hours'
+
+export interface ProactiveMessage {
+  userId: string
+  personaId: string
+  // What triggered the message, shown in place of a user message (e.g. "[Scheduled: morning-briefing] ...")
+  trigger: string
+  message: string
+  skillUsed?: string
+  toolCalls?: ToolCallRecord[]
+  createdAt: string
+}
+
+export type DeliveryOutcome = 'delivered' | 'deferred'
+
+interface PendingMessage extends ProactiveMessage {
+  deliverAfter: string
+}
+
+const FLUSH_INTERVAL_MS = 60_000
+const PENDING_STATE_KEY = 'outbox:pending'
+const UPDATES_THREAD_TITLE = 'Updates'
+// User preference holding the id of the persona's Updates thread
+const updatesThreadKey = (personaId: string) => `updates_thread:${personaId}`
+
+export class ProactiveOutbox {
+  private pending: PendingMessage[] = []
+  private timer: NodeJS.Timeout | null = null
+  private flushing = false
+
+  constructor(
+    private database: Database,
+    private logger: Logger
+  ) {}
+
+  async start(): Promise<void> {
+    await this.restorePending()
+
+    this.timer = setInterval(() => {
+      this.flush().catch(error => this.logger.error('Outbox flush failed:', error))
+    }, FLUSH_INTERVAL_MS)
+    this.timer.unref()
+
+    // Deliver anything whose window ended while the server was down
+    await this.flush()
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+  }
+
+  /**
+   * Deliver a proactive message now, or hold it until quiet hours end.
+   */
+  async deliver(message: ProactiveMessage, quietHours?: QuietHoursConfig): Promise<DeliveryOutcome> {
+    if (quietHours) {
+      const timezone = await resolveTimezone(quietHours, message.userId, this.database)
+      const now = new Date()
+
+      if (isWithinQuietHours(quietHours, timezone, now)) {
+        const deliverAfter = quietHoursEnd(quietHours, timezone, now)
+        this.pending.push({ ...message, deliverAfter: deliverAfter.toISOString() })
+        await this.persistPending()
+
+        this.logger.info(`Deferred proactive message for ${message.userId} until ${deliverAfter.toISOString()}`, {
+          persona: message.personaId,
+          timezone
+        })
+        return 'deferred'
+      }
+    }
+
+    await this.store(message)
+    return 'delivered'
+  }
+
+  getPending(userId: string): ProactiveMessage[] {
+    return this.pending
+      .filter(entry => entry.userId === userId)
+      .map(({ deliverAfter, ...message }) => message)
+  }
+
+  /**
+   * Deliver every held message whose quiet hours have ended, as one batch per user.
+   * Each message leaves the queue only once it is stored; when one fails, the
+   * rest of that user's batch stays queued (in order) for the next flush.
+   */
+  async flush(): Promise<void> {
+    // The timer and start() can overlap; a second pass would store messages twice
+    if (this.flushing) return
+    this.flushing = true
+    try {
+      await this.deliverDue()
+    } finally {
+      this.flushing = false
+    }
+  }
+
+  private async deliverDue(): Promise<void> {
+    const now = Date.now()
+    const due = this.pending.filter(entry => new Date(entry.deliverAfter).getTime() <= now)
+    if (due.length === 0) return
+
+    const byUser = new Map<string, PendingMessage[]>()
+    for (const entry of due) {
+      const batch = byUser.get(entry.userId) || []
+      batch.push(entry)
+      byUser.set(entry.userId, batch)
+    }
+
+    for (const [userId, batch] of byUser) {
+      // Oldest first so the conversation reads in the order messages were generated
+      batch.sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+      let delivered = 0
+      try {
+        for (const entry of batch) {
+          const { deliverAfter, ...message } = entry
+          await this.store(message)
+          this.pending = this.pending.filter(pending => pending !== entry)
+          await this.persistPending()
+          delivered++
+        }
+      } catch (error) {
+        this.logger.error(`Failed to deliver deferred proactive message to ${userId}, ${batch.length - delivered} kept queued:`, error)
+      }
+      if (delivered > 0) {
+        this.logger.info(`Delivered ${delivered} deferred proactive message(s) to ${userId}`)
+      }
+    }
+  }
+
+  private async store(message: ProactiveMessage): Promise<void> {
+    const now = new Date().toISOString()
+    await this.database.storeConversation({
+      userId: message.userId,
+      threadId: await this.updatesThread(message.userId, message.personaId, now),
+      userMessage: message.trigger,
+      agentResponse: message.message,
+      persona: message.personaId,
+      skillUsed: message.skillUsed,
+      toolCalls: message.toolCalls,
+      timestamp: now
+    })
+  }
+
+  /** The persona's Updates thread for the user, marked active now; created if missing */
+  private async updatesThread(userId: string, personaId: string, now: string): Promise<string> {
+    const key = updatesThreadKey(personaId)
+    const existing = await this.database.getUserPreference(userId, key)
+    if (existing && await this.database.updateThread(userId, existing, { updatedAt: now })) {
+      return existing
+    }
+
+    const id = `thread_${crypto.randomUUID()}`
+    await this.database.createThread({ id, userId, title: UPDATES_THREAD_TITLE, persona: personaId, createdAt: now, updatedAt: now })
+    await this.database.setUserPreference(userId, key, id)
+    return id
+  }
+
+  private async persistPending(): Promise<void> {
+    try {
+      await this.database.setState(PENDING_STATE_KEY, JSON.stringify(this.pending))
+    } catch (error) {
+      this.logger.warn('Failed to persist pending proactive messages:', error)
+    }
+  }
+
+  private async restorePending(): Promise<void> {
+    try {
+      const raw = await this.database.getState(PENDING_STATE_KEY)
+      if (raw) {
+        this.pending = JSON.parse(raw) as PendingMessage[]
+      }
+    } catch (error) {
+      this.logger.warn('Failed to restore pending proactive messages:', error)
+    }
+  }
+}
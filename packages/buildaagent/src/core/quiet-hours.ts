@@ -0,0 +1,126 @@
+/**
+ * Quiet hours - Time window in which a persona must not reach out proactively
+ *
+ * Windows are "HH:MM" local times and may wrap past midnight (22:00 → 08:00).
+ * `timezone: auto` resolves to the user's stored `timezone` preference,
+ * falling back to the server's timezone.
+ */
+
+import { Database } from './storage'
+
+export interface QuietHoursConfig {
+  start: string
+  end: string
+  timezone: string
+}
+
+export const TIMEZONE_PREFERENCE_KEY = 'timezone'
+
+const TIME_PATTERN = /^([01]?\d|2[0-3]):([0-5]\d)$/
+
+function parseTime(value: string): number {
+  const match = value.match(TIME_PATTERN)
+  if (!match) {
+    throw new Error(`Invalid quiet hours time "${value}" (expected HH:MM)`)
+  }
+  return parseInt(match[1], 10) * 60 + parseInt(match[2], 10)
+}
+
+/**
+ * Throws listing every problem with a persona's quiet_hours block, so a
+ * malformed one fails when the persona loads rather than at delivery.
+ */
+export function validateQuietHours(config: unknown, source: string): QuietHoursConfig | undefined {
+  if (config === undefined || config === null) return undefined
+  if (typeof config !== 'object' || Array.isArray(config)) {
+    throw new Error(`Invalid quiet_hours in ${source}: expected start, end and timezone`)
+  }
+
+  const { start, end, timezone } = config as Record<string, unknown>
+  const problems: string[] = []
+  for (const [name, value] of [['start', start], ['end', end]] as const) {
+    if (typeof value !== 'string' || !TIME_PATTERN.test(value)) {
+      problems.push(`${name} must be HH:MM, got ${JSON.stringify(value)}`)
+    }
+  }
+  if (typeof timezone !== 'string' || (timezone !== 'auto' && !isValidTimezone(timezone))) {
+    problems.push(`timezone must be "auto" or an IANA timezone, got ${JSON.stringify(timezone)}`)
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid quiet_hours in ${source}: ${problems.join('; ')}`)
+  }
+  return config as QuietHoursConfig
+}
+
+export function isValidTimezone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+export function serverTimezone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone
+}
+
+/**
+ * Resolve the IANA timezone a persona's times (quiet hours, cron schedules)
+ * are evaluated in for a user. Without quiet hours it is the user's own.
+ */
+export async function resolveTimezone(
+  config: QuietHoursConfig | undefined,
+  userId: string,
+  database: Database
+): Promise<string> {
+  if (config?.timezone && config.timezone !== 'auto') {
+    return config.timezone
+  }
+
+  const preferred = await database.getUserPreference(userId, TIMEZONE_PREFERENCE_KEY)
+  if (preferred && isValidTimezone(preferred)) {
+    return preferred
+  }
+
+  return serverTimezone()
+}
+
+/** Minutes since local midnight in the given timezone */
+function minutesInTimezone(date: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(date)
+
+  const hour = parseInt(parts.find(part => part.type === 'hour')?.value || '0', 10)
+  const minute = parseInt(parts.find(part => part.type === 'minute')?.value || '0', 10)
+  return hour * 60 + minute
+}
+
+export function isWithinQuietHours(config: QuietHoursConfig, timeZone: string, date: Date = new Date()): boolean {
+  const start = parseTime(config.start)
+  const end = parseTime(config.end)
+  const now = minutesInTimezone(date, timeZone)
+
+  if (start === end) return false
+  if (start < end) return now >= start && now < end
+  // Window wraps past midnight
+  return now >= start || now < end
+}
+
+/**
+ * When the current quiet hours window ends. Only meaningful while inside it.
+ */
+export function quietHoursEnd(config: QuietHoursConfig, timeZone: string, date: Date = new Date()): Date {
+  const end = parseTime(config.end)
+  const now = minutesInTimezone(date, timeZone)
+  const minutesLeft = (end - now + 24 * 60) % (24 * 60) || 24 * 60
+
+  const result = new Date(date.getTime() + minutesLeft * 60 * 1000)
+  result.setSeconds(0, 0)
+  return result
+}
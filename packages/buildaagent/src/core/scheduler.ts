@@ -0,0 +1,273 @@
+/**
+ * Scheduler - Runs persona `cron_schedules` for each registered user
+ *
+ * A user is registered for a persona the first time they chat with it. Every
+ * cron entry in that persona's YAML becomes a job whose task text is run
+ * through the persona's skill routing and gateway, with the result handed to
+ * the ProactiveOutbox (which honors quiet hours). Schedules are evaluated in
+ * the same timezone as the persona's quiet hours: theirs if set, otherwise the
+ * user's `timezone` preference, otherwise the server's. Registrations are
+ * kept in runtime state so they survive restarts on persistent backends.
+ */
+
+import { PersonaEnginePool } from './persona-engine-pool'
+import { PersonaNotFoundError } from './persona-engine'
+import { CronExpression } from './cron-expression'
+import { ProactiveOutbox, DeliveryOutcome } from './proactive-outbox'
+import { Database } from './storage'
+import { Logger } from './logger'
+import { QuietHoursConfig, resolveTimezone } from './quiet-hours'
+
+export type JobStatus = 'idle' | 'running' | 'success' | 'failed'
+
+export interface ScheduledJob {
+  id: string
+  userId: string
+  personaId: string
+  name: string
+  schedule: string
+  task: string
+  // IANA timezone the schedule is evaluated in, resolved when nextRun was
+  timezone: string
+  nextRun: string
+  lastRun?: string
+  lastStatus: JobStatus
+  lastError?: string
+  lastResponse?: string
+  lastDelivery?: DeliveryOutcome
+}
+
+export type SchedulerErrorCode = 'persona_not_found' | 'job_not_found' | 'job_running'
+
+/** A manual run that could not start; the message is safe to show the user */
+export class SchedulerError extends Error {
+  constructor(message: string, readonly code: SchedulerErrorCode) {
+    super(message)
+    this.name = 'SchedulerError'
+  }
+}
+
+interface JobEntry {
+  job: ScheduledJob
+  cron: CronExpression
+  quietHours?: QuietHoursConfig
+  running: boolean
+}
+
+interface Registration {
+  userId: string
+  personaId: string
+}
+
+const TICK_INTERVAL_MS = 30_000
+const REGISTRATIONS_STATE_KEY = 'scheduler:registrations'
+
+export class Scheduler {
+  private jobs = new Map<string, JobEntry>()
+  private registrations = new Map<string, Registration>()
+  private timer: NodeJS.Timeout | null = null
+
+  constructor(
+    private enginePool: PersonaEnginePool,
+    private outbox: ProactiveOutbox,
+    private database: Database,
+    private logger: Logger
+  ) {}
+
+  async start(): Promise<void> {
+    await this.restoreRegistrations()
+
+    this.timer = setInterval(() => {
+      this.tick().catch(error => this.logger.error('Scheduler tick failed:', error))
+    }, TICK_INTERVAL_MS)
+    this.timer.unref()
+
+    this.logger.info(`✅ Scheduler started with ${this.jobs.size} job(s)`)
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+  }
+
+  private registrationKey(userId: string, personaId: string): string {
+    return `${userId}:${personaId}`
+  }
+
+  private jobId(userId: string, personaId: string, name: string): string {
+    return `${userId}:${personaId}:${name}`
+  }
+
+  /**
+   * Register a persona's cron schedules for a user. Safe to call on every
+   * message — already-registered pairs are a no-op.
+   */
+  async registerUser(userId: string, personaId: string): Promise<void> {
+    const key = this.registrationKey(userId, personaId)
+    if (this.registrations.has(key)) return
+
+    const persona = await this.enginePool.use(userId, personaId, async engine => engine.getPersonaConfig())
+    const schedules = persona?.cron_schedules || []
+    const quietHours = persona?.behavior.quiet_hours
+    const timezone = await resolveTimezone(quietHours, userId, this.database)
+
+    this.registrations.set(key, { userId, personaId })
+
+    for (const schedule of schedules) {
+      let cron: CronExpression
+      try {
+        cron = new CronExpression(schedule.schedule)
+      } catch (error: any) {
+        this.logger.warn(`Skipping schedule "${schedule.name}" for persona ${personaId}: ${error.message}`)
+        continue
+      }
+
+      const id = this.jobId(userId, personaId, schedule.name)
+      this.jobs.set(id, {
+        cron,
+        quietHours,
+        running: false,
+        job: {
+          id,
+          userId,
+          personaId,
+          name: schedule.name,
+          schedule: schedule.schedule,
+          task: schedule.task,
+          timezone,
+          nextRun: cron.next(new Date(), timezone).toISOString(),
+          lastStatus: 'idle'
+        }
+      })
+    }
+
+    this.logger.info(`Registered ${schedules.length} scheduled job(s) for ${key}`)
+    await this.persistRegistrations()
+  }
+
+  getJobs(userId: string): ScheduledJob[] {
+    return Array.from(this.jobs.values())
+      .filter(entry => entry.job.userId === userId)
+      .map(entry => ({ ...entry.job }))
+  }
+
+  /**
+   * Run a job immediately, outside its schedule. Does not change nextRun.
+   * Throws SchedulerError when the persona or job is unknown or the job is
+   * already running; anything else is the run itself failing.
+   */
+  async trigger(userId: string, personaId: string, name: string): Promise<ScheduledJob> {
+    try {
+      await this.registerUser(userId, personaId)
+    } catch (error) {
+      if (error instanceof PersonaNotFoundError) {
+        throw new SchedulerError(`Persona ${personaId} not found`, 'persona_not_found')
+      }
+      throw error
+    }
+
+    const entry = this.jobs.get(this.jobId(userId, personaId, name))
+    if (!entry) {
+      throw new SchedulerError(`Scheduled job "${name}" not found for persona ${personaId}`, 'job_not_found')
+    }
+
+    await this.runJob(entry)
+    return { ...entry.job }
+  }
+
+  private async tick(): Promise<void> {
+    const now = new Date()
+
+    const due = Array.from(this.jobs.values())
+      .filter(entry => !entry.running && new Date(entry.job.nextRun) <= now)
+
+    for (const entry of due) {
+      // Re-resolved each time so a changed timezone preference takes effect
+      entry.job.timezone = await this.resolveJobTimezone(entry)
+      entry.job.nextRun = entry.cron.next(now, entry.job.timezone).toISOString()
+      // Jobs are independent — don't let one slow briefing hold up the rest
+      this.runJob(entry).catch(() => {
+        // Failure is recorded on the job by runJob
+      })
+    }
+  }
+
+  private async resolveJobTimezone(entry: JobEntry): Promise<string> {
+    try {
+      return await resolveTimezone(entry.quietHours, entry.job.userId, this.database)
+    } catch (error) {
+      this.logger.warn(`Failed to resolve timezone for ${entry.job.id}, keeping ${entry.job.timezone}:`, error)
+      return entry.job.timezone
+    }
+  }
+
+  private async runJob(entry: JobEntry): Promise<void> {
+    if (entry.running) {
+      throw new SchedulerError(`Scheduled job "${entry.job.name}" is already running`, 'job_running')
+    }
+
+    const { job } = entry
+    entry.running = true
+    job.lastStatus = 'running'
+    job.lastRun = new Date().toISOString()
+
+    try {
+      const { response, quietHours } = await this.enginePool.use(job.userId, job.personaId, async engine => ({
+        response: await engine.runScheduledTask(job.name, job.task, job.userId),
+        quietHours: engine.getPersonaConfig()?.behavior.quiet_hours
+      }))
+
+      const delivery = await this.outbox.deliver({
+        userId: job.userId,
+        personaId: job.personaId,
+        trigger: `[Scheduled: ${job.name}] ${job.task}`,
+        message: response.message,
+        skillUsed: response.skillUsed,
+        toolCalls: response.toolCalls,
+        createdAt: new Date().toISOString()
+      }, quietHours)
+
+      job.lastStatus = 'success'
+      job.lastError = undefined
+      job.lastResponse = response.message
+      job.lastDelivery = delivery
+      this.logger.info(`Scheduled job completed: ${job.id} (${delivery})`)
+    } catch (error: any) {
+      job.lastStatus = 'failed'
+      job.lastError = error.message
+      this.logger.error(`Scheduled job failed: ${job.id}`, error)
+      throw error
+    } finally {
+      entry.running = false
+    }
+  }
+
+  private async persistRegistrations(): Promise<void> {
+    try {
+      const data = JSON.stringify(Array.from(this.registrations.values()))
+      await this.database.setState(REGISTRATIONS_STATE_KEY, data)
+    } catch (error) {
+      this.logger.warn('Failed to persist scheduler registrations:', error)
+    }
+  }
+
+  private async restoreRegistrations(): Promise<void> {
+    try {
+      const raw = await this.database.getState(REGISTRATIONS_STATE_KEY)
+      if (!raw) return
+
+      const registrations = JSON.parse(raw) as Registration[]
+      for (const { userId, personaId } of registrations) {
+        try {
+          await this.registerUser(userId, personaId)
+        } catch (error: any) {
+          this.logger.warn(`Failed to restore schedules for ${userId}:${personaId}: ${error.message}`)
+        }
+      }
+    } catch (error) {
+      this.logger.warn('Failed to restore scheduler registrations:', error)
+    }
+  }
+}
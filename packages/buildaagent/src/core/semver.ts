@@ -0,0 +1,100 @@
+/**
+ * Minimal semantic version matching for skill dependencies
+ *
+ * Supports exact versions ("1.2.0"), comparators (">=1.0.0", "<2.0.0"),
+ * caret/tilde ranges ("^1.2.0", "~1.2.0"), wildcards ("*", "1.x"),
+ * space-separated AND and "||" alternatives. Pre-release tags are ignored.
+ */
+
+export interface Version {
+  major: number
+  minor: number
+  patch: number
+}
+
+const VERSION_PATTERN = /^v?(\d+)\.(\d+)\.(\d+)(?:[-+].*)?$/
+const PARTIAL_PATTERN = /^v?(\d+|x|\*)(?:\.(\d+|x|\*))?(?:\.(\d+|x|\*))?(?:[-+].*)?$/
+const COMPARATOR_PATTERN = /^(\^|~|>=|<=|>|<|=)?\s*(.+)$/
+
+export function parseVersion(value: string): Version | null {
+  const match = VERSION_PATTERN.exec(value.trim())
+  if (!match) return null
+  return { major: Number(match[1]), minor: Number(match[2]), patch: Number(match[3]) }
+}
+
+export function isValidVersion(value: string): boolean {
+  return parseVersion(value) !== null
+}
+
+export function compareVersions(a: Version, b: Version): number {
+  return (a.major - b.major) || (a.minor - b.minor) || (a.patch - b.patch)
+}
+
+/**
+ * Throws if the range can't be parsed, so bad manifests fail at load
+ * rather than silently never matching.
+ */
+export function satisfies(version: string, range: string): boolean {
+  const parsed = parseVersion(version)
+  if (!parsed) {
+    throw new Error(`Invalid version: "${version}"`)
+  }
+
+  return range.split('||').some(alternative => {
+    const comparators = alternative.trim().split(/\s+/).filter(Boolean)
+    if (comparators.length === 0) return true
+    return comparators.every(comparator => matchComparator(parsed, comparator, range))
+  })
+}
+
+export function isValidRange(range: string): boolean {
+  try {
+    satisfies('0.0.0', range)
+    return true
+  } catch {
+    return false
+  }
+}
+
+function matchComparator(version: Version, comparator: string, range: string): boolean {
+  const match = COMPARATOR_PATTERN.exec(comparator)
+  const partial = match && PARTIAL_PATTERN.exec(match[2])
+  if (!match || !partial) {
+    throw new Error(`Invalid version range: "${range}"`)
+  }
+
+  const operator = match[1] || '='
+  const [major, minor, patch] = [partial[1], partial[2], partial[3]].map(part =>
+    part === undefined || part === 'x' || part === '*' ? null : Number(part)
+  )
+
+  if (major === null) return true
+
+  const base: Version = { major, minor: minor ?? 0, patch: patch ?? 0 }
+  const cmp = compareVersions(version, base)
+
+  switch (operator) {
+    case '>': return cmp > 0
+    case '>=': return cmp >= 0
+    case '<': return cmp < 0
+    case '<=': return cmp <= 0
+    case '^': {
+      if (cmp < 0) return false
+      if (base.major > 0 || minor === null) return version.major === base.major
+      if (base.minor > 0 || patch === null) return version.major === 0 && version.minor === base.minor
+      return compareVersions(version, base) === 0
+    }
+    case '~': {
+      if (cmp < 0) return false
+      if (minor === null) return version.major === base.major
+      return version.major === base.major && version.minor === base.minor
+    }
+    default: {
+      // "1" and "1.2" (or "1.x") match every version with that prefix
+      if (version.major !== major) return false
+      if (minor !== null && version.minor !== minor) return false
+      if (patch !== null && version.patch !== patch) return false
+      return true
+    }
+  }
+}
@@ -0,0 +1,323 @@
+/**
+ * SkillLoader - Discovers skills on the filesystem
+ *
+ * Each subdirectory of the skills path is a skill when it contains a
+ * `skill.yaml` manifest (matching SkillManifest) and an executor module.
+ * The executor module is `main` from the manifest, or `executor` resolved
+ * with the usual extensions (.js, or .ts under tsx or a test runner).
+ *
+ * An executor module exports either:
+ * - `execute(params)` - the executor itself, or
+ * - `createExecutor(context)` - a factory given the logger, manifest and
+ *   shared services; returning null means the skill is unavailable here
+ *   (e.g. a required service isn't configured) and is skipped without error.
+ */
+
+import fs from 'fs/promises'
+import { existsSync } from 'fs'
+import path from 'path'
+import YAML from 'yaml'
+import { Logger } from './logger'
+import { SkillManifest, SkillExecutionParams } from './skill-registry'
+import { isValidVersion, isValidRange, satisfies } from './semver'
+import { EMPTY_OBJECT_SCHEMA, checkParameterSchema } from './json-schema'
+
+export type SkillExecutor = (params: SkillExecutionParams) => Promise<string>
+
+/**
+ * Shared runtime services made available to skill factories
+ * (e.g. tokenStore, gmailService). Keys are by convention, not enforced.
+ */
+export type SkillServices = Record<string, unknown>
+
+export interface SkillContext {
+  logger: Logger
+  manifest: SkillManifest
+  services: SkillServices
+}
+
+export interface SkillModule {
+  execute?: SkillExecutor
+  createExecutor?: (context: SkillContext) => SkillExecutor | null | Promise<SkillExecutor | null>
+}
+
+export interface LoadedSkill {
+  manifest: SkillManifest
+  executor: SkillExecutor
+  directory: string
+}
+
+export interface SkippedSkill {
+  name: string
+  directory: string
+}
+
+export interface SkillLoadResult {
+  loaded: LoadedSkill[]
+  skipped: SkippedSkill[]
+  errors: SkillLoadError[]
+}
+
+/**
+ * A skill directory that could not be loaded. The message is meant to be
+ * read by the skill's author, so it names the directory and the problem.
+ */
+export class SkillLoadError extends Error {
+  constructor(
+    public readonly directory: string,
+    message: string,
+    public readonly skillName?: string
+  ) {
+    super(`${skillName || path.basename(directory)}: ${message}`)
+    this.name = 'SkillLoadError'
+  }
+}
+
+const MANIFEST_FILES = ['skill.yaml', 'skill.yml']
+const SKILL_NAME_PATTERN = /^[a-z0-9][a-z0-9-]*$/
+// Capabilities become LLM tool names, which allow only letters, digits, _ and -
+const CAPABILITY_NAME_PATTERN = /^[a-z][a-z0-9_]*$/
+
+export class SkillLoader {
+  constructor(private logger: Logger) {}
+
+  /**
+   * Load every skill under skillsPath. A broken skill never stops the others:
+   * its problem is returned in `errors`, as is every skill that depends on it.
+   *
+   * @param installed name -> version of skills already registered (built-ins),
+   *   which discovered skills may depend on
+   */
+  async load(
+    skillsPath: string,
+    installed: Map<string, string>,
+    services: SkillServices = {}
+  ): Promise<SkillLoadResult> {
+    const result: SkillLoadResult = { loaded: [], skipped: [], errors: [] }
+
+    let entries: string[]
+    try {
+      const dirents = await fs.readdir(skillsPath, { withFileTypes: true })
+      entries = dirents.filter(entry => entry.isDirectory()).map(entry => entry.name).sort()
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        this.logger.warn(`Skills directory not found: ${skillsPath}`)
+        return result
+      }
+      throw error
+    }
+
+    const candidates = new Map<string, { manifest: SkillManifest, module: SkillModule, directory: string }>()
+
+    for (const entry of entries) {
+      const directory = path.join(skillsPath, entry)
+      try {
+        const manifest = await this.readManifest(directory)
+        if (!manifest) continue
+
+        if (candidates.has(manifest.name)) {
+          throw new SkillLoadError(directory, `duplicate skill name (also in ${candidates.get(manifest.name)!.directory})`, manifest.name)
+        }
+
+        candidates.set(manifest.name, { manifest, module: await this.importModule(directory, manifest), directory })
+      } catch (error: any) {
+        result.errors.push(error instanceof SkillLoadError ? error : new SkillLoadError(directory, error.message))
+      }
+    }
+
+    for (const error of this.rejectUnmetDependencies(candidates, installed)) {
+      result.errors.push(error)
+    }
+
+    for (const { manifest, module, directory } of candidates.values()) {
+      try {
+        const executor = await this.createExecutor(module, { logger: this.logger, manifest, services })
+        if (executor) {
+          result.loaded.push({ manifest, executor, directory })
+        } else {
+          result.skipped.push({ name: manifest.name, directory })
+        }
+      } catch (error: any) {
+        result.errors.push(new SkillLoadError(directory, `executor setup failed: ${error.message}`, manifest.name))
+      }
+    }
+
+    return result
+  }
+
+  private async readManifest(directory: string): Promise<SkillManifest | null> {
+    for (const file of MANIFEST_FILES) {
+      let raw: string
+      try {
+        raw = await fs.readFile(path.join(directory, file), 'utf8')
+      } catch (error: any) {
+        if (error.code === 'ENOENT') continue
+        throw error
+      }
+
+      let parsed: unknown
+      try {
+        parsed = YAML.parse(raw)
+      } catch (error: any) {
+        throw new SkillLoadError(directory, `${file} is not valid YAML: ${error.message}`)
+      }
+
+      return this.validateManifest(directory, parsed)
+    }
+
+    // Not a skill directory (e.g. shared helpers)
+    return null
+  }
+
+  private validateManifest(directory: string, value: unknown): SkillManifest {
+    if (!value || typeof value !== 'object') {
+      throw new SkillLoadError(directory, 'manifest must be a YAML mapping')
+    }
+
+    const manifest = value as Record<string, any>
+    const problems: string[] = []
+
+    if (typeof manifest.name !== 'string' || !SKILL_NAME_PATTERN.test(manifest.name)) {
+      problems.push('name must be lowercase letters, digits and dashes')
+    }
+    if (typeof manifest.version !== 'string' || !isValidVersion(manifest.version)) {
+      problems.push('version must be a semantic version like "1.0.0"')
+    }
+    if (typeof manifest.description !== 'string' || !manifest.description.trim()) {
+      problems.push('description is required')
+    }
+
+    if (!Array.isArray(manifest.capabilities) || manifest.capabilities.length === 0) {
+      problems.push('capabilities must be a non-empty list')
+    } else {
+      manifest.capabilities.forEach((capability: any, i: number) => {
+        if (!capability || typeof capability.name !== 'string' || !CAPABILITY_NAME_PATTERN.test(capability.name)) {
+          problems.push(`capabilities[${i}].name must be lowercase letters, digits and underscores`)
+        }
+        if (capability && typeof capability.description !== 'string') {
+          problems.push(`capabilities[${i}].description is required`)
+        }
+        if (capability && capability.parameters !== undefined) {
+          for (const problem of checkParameterSchema(capability.parameters)) {
+            problems.push(`capabilities[${i}].parameters ${problem}`)
+          }
+        }
+      })
+    }
+
+    if (manifest.dependencies !== undefined) {
+      if (!Array.isArray(manifest.dependencies)) {
+        problems.push('dependencies must be a list')
+      } else {
+        manifest.dependencies.forEach((dependency: any, i: number) => {
+          if (!dependency || typeof dependency.skill !== 'string') {
+            problems.push(`dependencies[${i}].skill is required`)
+          }
+          if (!dependency || typeof dependency.version !== 'string' || !isValidRange(dependency.version)) {
+            problems.push(`dependencies[${i}].version must be a version range like ">=1.0.0"`)
+          }
+        })
+      }
+    }
+
+    if (manifest.main !== undefined && typeof manifest.main !== 'string') {
+      problems.push('main must be a path to the executor module')
+    }
+
+    if (problems.length > 0) {
+      throw new SkillLoadError(directory, `invalid manifest: ${problems.join('; ')}`, typeof manifest.name === 'string' ? manifest.name : undefined)
+    }
+
+    return {
+      ...manifest,
+      capabilities: manifest.capabilities.map((capability: any) => ({
+        ...capability,
+        parameters: capability.parameters || EMPTY_OBJECT_SCHEMA
+      }))
+    } as SkillManifest
+  }
+
+  private async importModule(directory: string, manifest: SkillManifest): Promise<SkillModule> {
+    const entry = path.resolve(directory, manifest.main || 'executor')
+    const relative = path.relative(directory, entry)
+
+    let resolved: string
+    try {
+      resolved = require.resolve(entry)
+    } catch {
+      // require.resolve only knows .ts under tsx; test runners load it through import() below
+      if (!existsSync(`${entry}.ts`)) {
+        throw new SkillLoadError(directory, `executor module not found (${relative})`, manifest.name)
+      }
+      resolved = `${entry}.ts`
+    }
+
+    let module: SkillModule
+    try {
+      module = await import(resolved)
+    } catch (error: any) {
+      if (resolved.endsWith('.ts')) {
+        // Plain node (the compiled server) pointed at the source skills
+        throw new SkillLoadError(
+          directory,
+          `executor ${path.basename(resolved)} needs a TypeScript runtime (${error.message}); ` +
+            'build with `npm run build` and load the compiled skills (dist/skills)',
+          manifest.name
+        )
+      }
+      throw new SkillLoadError(directory, `executor module failed to load: ${error.message}`, manifest.name)
+    }
+
+    if (typeof module.execute !== 'function' && typeof module.createExecutor !== 'function') {
+      throw new SkillLoadError(directory, 'executor module must export execute(params) or createExecutor(context)', manifest.name)
+    }
+
+    return module
+  }
+
+  private async createExecutor(module: SkillModule, context: SkillContext): Promise<SkillExecutor | null> {
+    if (module.createExecutor) {
+      return module.createExecutor(context)
+    }
+    return module.execute!
+  }
+
+  /**
+   * Check each candidate's dependencies against built-ins and other
+   * candidates. Rejected skills are removed from `candidates`, and the check
+   * repeats so anything depending on a rejected skill is rejected too.
+   */
+  private rejectUnmetDependencies(
+    candidates: Map<string, { manifest: SkillManifest, directory: string }>,
+    installed: Map<string, string>
+  ): SkillLoadError[] {
+    const errors: SkillLoadError[] = []
+    let changed = true
+
+    while (changed) {
+      changed = false
+
+      for (const [name, { manifest, directory }] of candidates) {
+        for (const dependency of manifest.dependencies || []) {
+          const available = candidates.get(dependency.skill)?.manifest.version ?? installed.get(dependency.skill)
+
+          let problem: string | null = null
+          if (available === undefined) {
+            problem = `requires skill "${dependency.skill}" ${dependency.version}, which is not installed`
+          } else if (!satisfies(available, dependency.version)) {
+            problem = `requires skill "${dependency.skill}" ${dependency.version}, but version ${available} is installed`
+          }
+
+          if (problem) {
+            errors.push(new SkillLoadError(directory, problem, name))
+            candidates.delete(name)
+            changed = true
+            break
+          }
+        }
+      }
+    }
+
+    return errors
+  }
+}
@@ -6,6 +6,8 @@
  */
 
 import { Logger } from './logger'
+import { SkillLoader, SkillServices } from './skill-loader'
+import { JSONSchema, EMPTY_OBJECT_SCHEMA, validateArguments, applyDefaults } from './json-schema'
 
 export interface SkillExecutionResult {
   skillName: string
@@ -14,39 +16,72 @@ export interface SkillExecutionResult {
   error?: string
 }
 
+export interface SkillCapability {
+  name: string
+  description: string
+  // Object schema for the capability's arguments; also the LLM tool input schema
+  parameters: JSONSchema
+}
+
 export interface SkillManifest {
   name: string
   version: string
   description: string
-  capabilities: Array<{
-    name: string
-    description: string
-    parameters: any[]
-  }>
+  capabilities: SkillCapability[]
   dependencies?: Array<{
     skill: string
+    // Semver range, e.g. ">=1.0.0" or "^1.2.0"
     version: string
   }>
+  // Executor module, relative to the skill directory (defaults to "executor")
+  main?: string
+}
+
+/**
+ * One skill invocation made while answering a message, stored with the conversation
+ */
+export interface ToolCallRecord {
+  skill: string
+  capability: string
+  args: Record<string, unknown>
+  result: string
+  success: boolean
 }
 
 export interface SkillExecutionParams {
   query: string
   userId: string
+  // Capability chosen by the router; defaults to the only one when a skill has one
+  capability?: string
+  // Structured arguments, validated against the capability's parameters
+  args?: Record<string, unknown>
   [key: string]: any
 }
 
 export class SkillRegistry {
   private skills = new Map<string, SkillManifest>()
   private skillExecutors = new Map<string, Function>()
+  // Built-ins that only stand in until the real skill loads from skillsPath
+  private placeholderSkills = new Set<string>()
 
   constructor(private logger: Logger) {}
 
-  async loadSkills(skillsPath?: string): Promise<void> {
+  /**
+   * Register built-in skills, then any skills found under skillsPath.
+   * Filesystem skills replace built-ins of the same name (e.g. placeholders).
+   * A skill that fails to load is logged and skipped; the rest still load.
+   * The exception is a skill meant to replace a placeholder (e.g.
+   * email-manager): that throws, rather than the server quietly running with
+   * a skill that does nothing.
+   */
+  async loadSkills(skillsPath?: string, services: SkillServices = {}): Promise<void> {
     this.logger.info('Loading skills...')
     
-    // For Phase 1, we'll register built-in skills programmatically
-    // Later phases can load from filesystem
     this.registerBuiltInSkills()
+
+    if (skillsPath) {
+      await this.loadSkillsFromDirectory(skillsPath, services)
+    }
     
     this.logger.info(`✅ Loaded ${this.skills.size} skills`, {
       skills: Array.from(this.skills.keys())
@@ -63,9 +98,13 @@ export class SkillRegistry {
         {
           name: 'search',
           description: 'Search the web for a query',
-          parameters: [
-            { name: 'query', type: 'string', required: true }
-          ]
+          parameters: {
+            type: 'object',
+            properties: {
+              query: { type: 'string', description: 'What to search for' }
+            },
+            required: ['query']
+          }
         }
       ]
     }, this.executeWebSearch.bind(this))
@@ -79,9 +118,12 @@ export class SkillRegistry {
         {
           name: 'get_weather',
           description: 'Get weather for a location',
-          parameters: [
-            { name: 'location', type: 'string', required: false }
-          ]
+          parameters: {
+            type: 'object',
+            properties: {
+              location: { type: 'string', description: 'City or place name' }
+            }
+          }
         }
       ]
     }, this.executeWeatherCheck.bind(this))
@@ -93,7 +135,33 @@ export class SkillRegistry {
     this.registerPlaceholderSkill('task-tracker', 'Task and todo list management')
   }
 
+  private async loadSkillsFromDirectory(skillsPath: string, services: SkillServices): Promise<void> {
+    const installed = new Map(Array.from(this.skills.values()).map(manifest => [manifest.name, manifest.version]))
+    const { loaded, skipped, errors } = await new SkillLoader(this.logger).load(skillsPath, installed, services)
+
+    for (const skill of loaded) {
+      this.registerSkill(skill.manifest, skill.executor)
+      this.logger.info(`Loaded skill from ${skill.directory}: ${skill.manifest.name} v${skill.manifest.version}`)
+    }
+
+    for (const skill of skipped) {
+      this.logger.info(`Skill ${skill.name} is not available in this environment, skipping`)
+    }
+
+    for (const error of errors) {
+      this.logger.error(`Failed to load skill: ${error.message}`, { directory: error.directory })
+    }
+
+    const replacementsFailed = errors.filter(error => error.skillName && this.placeholderSkills.has(error.skillName))
+    if (replacementsFailed.length > 0) {
+      throw new Error(
+        `Required skills failed to load from ${skillsPath}: ${replacementsFailed.map(error => error.message).join('; ')}`
+      )
+    }
+  }
+
   private registerSkill(manifest: SkillManifest, executor: Function): void {
+    this.placeholderSkills.delete(manifest.name)
     this.skills.set(manifest.name, manifest)
     this.skillExecutors.set(manifest.name, executor)
     this.logger.debug(`Registered skill: ${manifest.name}`)
@@ -108,17 +176,23 @@ export class SkillRegistry {
         {
           name: 'execute',
           description: 'Execute skill functionality',
-          parameters: []
+          parameters: EMPTY_OBJECT_SCHEMA
         }
       ]
     }, this.executePlaceholderSkill.bind(this))
+    this.placeholderSkills.add(name)
   }
 
   async executeSkill(skillName: string, params: SkillExecutionParams): Promise<SkillExecutionResult> {
-    this.logger.info(`Executing skill: ${skillName}`, { params })
+    // Argument names only: the query is the user's message and args can hold email content
+    this.logger.info(`Executing skill: ${skillName}`, {
+      capability: params.capability,
+      argKeys: Object.keys(params.args || {})
+    })
 
     const executor = this.skillExecutors.get(skillName)
-    if (!executor) {
+    const manifest = this.skills.get(skillName)
+    if (!executor || !manifest) {
       return {
         skillName,
         result: `Skill '${skillName}' not found`,
@@ -127,14 +201,27 @@ export class SkillRegistry {
       }
     }
 
+    let validated: SkillExecutionParams
+    try {
+      validated = this.validateParams(manifest, params)
+    } catch (error: any) {
+      this.logger.warn(`Skill ${skillName} rejected arguments: ${error.message}`)
+      return {
+        skillName,
+        result: `Could not run ${skillName}: ${error.message}`,
+        success: false,
+        error: error.message
+      }
+    }
+
     try {
-      const result = await executor(params)
+      const result = await executor(validated)
       return {
         skillName,
         result,
         success: true
       }
-    } catch (error) {
+    } catch (error: any) {
       this.logger.error(`Skill ${skillName} execution failed:`, error)
       return {
         skillName,
@@ -145,9 +232,38 @@ export class SkillRegistry {
     }
   }
 
+  /**
+   * Resolve the capability and check `args` against its parameter schema.
+   * Throws with every problem listed so the caller can surface them.
+   */
+  private validateParams(manifest: SkillManifest, params: SkillExecutionParams): SkillExecutionParams {
+    if (!params.capability && params.args === undefined) {
+      // Free-text invocation: the executor interprets `query` itself
+      return params
+    }
+
+    const capability = params.capability
+      ? manifest.capabilities.find(c => c.name === params.capability)
+      : manifest.capabilities.length === 1 ? manifest.capabilities[0] : undefined
+
+    if (!capability) {
+      throw new Error(params.capability
+        ? `unknown capability "${params.capability}" (available: ${manifest.capabilities.map(c => c.name).join(', ')})`
+        : 'a capability must be specified')
+    }
+
+    const args = applyDefaults(capability.parameters, params.args || {})
+    const problems = validateArguments(capability.parameters, args)
+    if (problems.length > 0) {
+      throw new Error(`invalid arguments for ${capability.name}: ${problems.join('; ')}`)
+    }
+
+    return { ...params, capability: capability.name, args }
+  }
+
   private async executeWebSearch(params: SkillExecutionParams): Promise<string> {
-    const query = params.query
-    this.logger.info(`Web search for: ${query}`)
+    const query = (params.args?.query as string | undefined) || params.query
+    this.logger.info('Running web search', { queryLength: query.length })
 
     try {
       // Use a simple approach to simulate web search
@@ -155,7 +271,7 @@ export class SkillRegistry {
       const searchResults = await this.performWebSearch(query)
       
       return `Search results for "${query}":\n\n${searchResults}`
-    } catch (error) {
+    } catch (error: any) {
       throw new Error(`Web search failed: ${error.message}`)
     }
   }
@@ -190,7 +306,7 @@ export class SkillRegistry {
   }
 
   private async executeWeatherCheck(params: SkillExecutionParams): Promise<string> {
-    const location = params.location || 'current location'
+    const location = (params.args?.location as string | undefined) || params.location || 'current location'
     this.logger.info(`Weather check for: ${location}`)
 
     // Simulate weather check
@@ -0,0 +1,134 @@
+/**
+ * Storage - The persistence interface the server and persona engines use
+ *
+ * Two backends implement it: SQLiteDatabase (database.ts, the default), a
+ * file per tenant under workspace/database/ so conversations, preferences,
+ * accounts, usage and OAuth tokens survive restarts, and MockDatabase
+ * (mock-database.ts), in memory, for tests and throwaway runs.
+ */
+
+import { Logger } from './logger'
+import { OAuthTokenEntry } from '../services/gmail/types'
+import { UserAccount } from '../services/account-store'
+import { UsageRecord } from './usage-tracker'
+import { ToolCallRecord } from './skill-registry'
+import { SQLiteDatabase } from './database'
+import { MockDatabase } from './mock-database'
+
+export interface ConversationEntry {
+  // Assigned by the database when stored
+  id?: number
+  userId: string
+  // Thread the turn belongs to; proactive messages go to the persona's Updates thread
+  threadId?: string
+  userMessage: string
+  agentResponse: string
+  persona: string
+  skillUsed?: string
+  // OpenClaw agent Mega delegated the message to
+  delegatedAgent?: string
+  // Skills the model called while producing agentResponse, in order
+  toolCalls?: ToolCallRecord[]
+  timestamp: string
+}
+
+/** A conversation the user can list, reopen, rename and delete */
+export interface ConversationThread {
+  id: string
+  userId: string
+  title: string
+  // Persona of the first message
+  persona: string
+  createdAt: string
+  // Time of the latest message
+  updatedAt: string
+}
+
+/** Narrows getConversationHistory; applied before its limit */
+export interface ConversationFilter {
+  persona?: string
+  threadId?: string
+}
+
+export interface UserPreference {
+  userId: string
+  key: string
+  value: string
+}
+
+export type StorageBackend = 'sqlite' | 'memory'
+
+export const STORAGE_BACKENDS: StorageBackend[] = ['sqlite', 'memory']
+
+/**
+ * The backend a config value (STORAGE_BACKEND) names, 'sqlite' when unset.
+ * Throws on anything else, so a typo stops startup instead of reaching createDatabase.
+ */
+export function parseStorageBackend(value: string | undefined, name: string = 'STORAGE_BACKEND'): StorageBackend {
+  if (value === undefined || value.trim() === '') return 'sqlite'
+
+  const backend = STORAGE_BACKENDS.find(candidate => candidate === value.trim().toLowerCase())
+  if (!backend) {
+    throw new Error(`${name} must be ${STORAGE_BACKENDS.join(' or ')}, got "${value}"`)
+  }
+  return backend
+}
+
+export interface Database {
+  init(): Promise<void>
+  close(): Promise<void>
+  ping(): Promise<boolean>
+  getStats(): Promise<{ conversations: number, users: number }>
+  isFirstRun(): Promise<boolean>
+
+  storeConversation(entry: ConversationEntry): Promise<void>
+  // Newest first; only the persona's or thread's turns when the filter names them
+  getConversationHistory(userId: string, limit?: number, filter?: ConversationFilter): Promise<ConversationEntry[]>
+
+  createThread(thread: ConversationThread): Promise<void>
+  // Null unless the thread exists and belongs to the user
+  getThread(userId: string, threadId: string): Promise<ConversationThread | null>
+  // Most recently updated first
+  listThreads(userId: string, limit?: number): Promise<ConversationThread[]>
+  // False when the user has no such thread
+  updateThread(userId: string, threadId: string, changes: Partial<Pick<ConversationThread, 'title' | 'updatedAt'>>): Promise<boolean>
+  // Deletes the thread's turns too
+  deleteThread(userId: string, threadId: string): Promise<boolean>
+  // Newest first, starting below beforeId (a ConversationEntry id) when given
+  getThreadMessages(userId: string, threadId: string, limit: number, beforeId?: number): Promise<ConversationEntry[]>
+
+  setUserPreference(userId: string, key: string, value: string): Promise<void>
+  getUserPreference(userId: string, key: string): Promise<string | null>
+
+  setState(key: string, value: string): Promise<void>
+  getState(key: string): Promise<string | null>
+
+  storeUsageRecord(record: UsageRecord): Promise<void>
+  getUsageRecords(userId: string, since?: string, until?: string): Promise<UsageRecord[]>
+
+  /** Adds a new account; false if its email already belongs to another one */
+  storeUserAccount(account: UserAccount): Promise<boolean>
+  getUserAccount(id: string): Promise<UserAccount | null>
+  getUserAccountByEmail(email: string): Promise<UserAccount | null>
+
+  storeOAuthToken(entry: OAuthTokenEntry): Promise<void>
+  getOAuthToken(userId: string, provider: string): Promise<OAuthTokenEntry | null>
+  deleteOAuthToken(userId: string, provider: string): Promise<void>
+}
+
+/** A database for the backend; call init() before use */
+export function createDatabase(
+  backend: StorageBackend,
+  tenantId: string,
+  workspacePath: string,
+  logger: Logger
+): Database {
+  switch (backend) {
+    case 'sqlite':
+      return new SQLiteDatabase(tenantId, workspacePath, logger)
+    case 'memory':
+      return new MockDatabase(tenantId, workspacePath, logger)
+    default:
+      throw new Error(`Unknown storage backend: ${backend} (expected ${STORAGE_BACKENDS.join(' or ')})`)
+  }
+}
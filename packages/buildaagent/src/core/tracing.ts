@@ -0,0 +1,304 @@
+/**
+ * Tracing - Spans for each chat request, exported as OpenTelemetry JSON
+ *
+ * The server opens a trace per chat request; code underneath wraps its steps
+ * (orchestration, skill routing, skill execution, gateway calls) in withSpan,
+ * which attaches them to the active trace through AsyncLocalStorage, so no
+ * span objects are passed around. Outside a trace (scheduled jobs, scripts)
+ * withSpan just runs the step.
+ *
+ * Finished traces are kept in memory for the debug endpoint and exported in
+ * the OTLP/JSON format: appended to a file, one export request per line,
+ * and/or posted to a collector's /v1/traces endpoint.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks'
+import crypto from 'crypto'
+import fs from 'fs/promises'
+import path from 'path'
+import { Logger } from './logger'
+
+export type SpanAttributes = Record<string, string | number | boolean | undefined>
+
+// OTLP span kinds: server for the incoming request, client for calls out to LLMs
+export type SpanKind = 'internal' | 'server' | 'client'
+
+export type SpanStatus = 'unset' | 'ok' | 'error'
+
+export interface SpanData {
+  traceId: string
+  spanId: string
+  parentSpanId?: string
+  name: string
+  kind: SpanKind
+  // Epoch milliseconds
+  startTime: number
+  endTime?: number
+  attributes: SpanAttributes
+  status: SpanStatus
+  statusMessage?: string
+}
+
+export interface TraceSummary {
+  traceId: string
+  name: string
+  startTime: string
+  durationMs?: number
+  status: SpanStatus
+  spans: number
+}
+
+export interface TracerConfig {
+  // resource service.name on exported spans
+  serviceName: string
+  // Finished traces kept for the debug endpoint
+  maxTraces: number
+  // Append OTLP/JSON here, one export request per line
+  filePath?: string
+  // OTLP/HTTP collector base URL, e.g. http://localhost:4318
+  collectorUrl?: string
+}
+
+const DEFAULT_TRACER_CONFIG: TracerConfig = {
+  serviceName: 'buildaagent',
+  maxTraces: 100
+}
+
+const COLLECTOR_TIMEOUT_MS = 5000
+
+interface TraceContext {
+  tracer: Tracer
+  span: Span
+}
+
+const activeContext = new AsyncLocalStorage<TraceContext>()
+
+export class Span {
+  constructor(
+    readonly data: SpanData,
+    private onEnd: (span: SpanData) => void = () => {}
+  ) {}
+
+  get traceId(): string {
+    return this.data.traceId
+  }
+
+  setAttributes(attributes: SpanAttributes): this {
+    Object.assign(this.data.attributes, attributes)
+    return this
+  }
+
+  /** Mark the span failed; errors thrown out of withSpan are recorded automatically */
+  setError(error: unknown): this {
+    this.data.status = 'error'
+    this.data.statusMessage = error instanceof Error ? error.message : String(error)
+    return this
+  }
+
+  end(): void {
+    if (this.data.endTime !== undefined) return
+    this.data.endTime = Date.now()
+    if (this.data.status === 'unset') this.data.status = 'ok'
+    this.onEnd(this.data)
+  }
+}
+
+/** Handed to withSpan callbacks outside a trace, so they needn't check */
+const NOOP_SPAN = new Span({
+  traceId: '',
+  spanId: '',
+  name: 'noop',
+  kind: 'internal',
+  startTime: 0,
+  attributes: {},
+  status: 'unset'
+})
+
+function randomId(bytes: number): string {
+  return crypto.randomBytes(bytes).toString('hex')
+}
+
+/**
+ * Run `fn` in a child span of the active span. The span ends when `fn`
+ * settles, with error status (and the error rethrown) if it throws.
+ */
+export async function withSpan<T>(
+  name: string,
+  attributes: SpanAttributes,
+  fn: (span: Span) => Promise<T>,
+  kind: SpanKind = 'internal'
+): Promise<T> {
+  const context = activeContext.getStore()
+  if (!context) return fn(NOOP_SPAN)
+
+  const span = context.tracer.startSpan(name, attributes, kind, context.span.data)
+  return activeContext.run({ tracer: context.tracer, span }, async () => {
+    try {
+      return await fn(span)
+    } catch (error) {
+      span.setError(error)
+      throw error
+    } finally {
+      span.end()
+    }
+  })
+}
+
+/** Add attributes to the active span, if there is one */
+export function annotateSpan(attributes: SpanAttributes): void {
+  activeContext.getStore()?.span.setAttributes(attributes)
+}
+
+function otlpValue(value: string | number | boolean): Record<string, unknown> {
+  if (typeof value === 'boolean') return { boolValue: value }
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value }
+  }
+  return { stringValue: value }
+}
+
+function otlpAttributes(attributes: SpanAttributes): Array<{ key: string, value: Record<string, unknown> }> {
+  return Object.entries(attributes)
+    .filter((entry): entry is [string, string | number | boolean] => entry[1] !== undefined)
+    .map(([key, value]) => ({ key, value: otlpValue(value) }))
+}
+
+const OTLP_KIND = { internal: 1, server: 2, client: 3 } as const
+const OTLP_STATUS = { unset: 0, ok: 1, error: 2 } as const
+
+/** An OTLP/JSON ExportTraceServiceRequest for a trace's spans */
+export function toOTLP(spans: SpanData[], serviceName: string): Record<string, unknown> {
+  return {
+    resourceSpans: [{
+      resource: { attributes: otlpAttributes({ 'service.name': serviceName }) },
+      scopeSpans: [{
+        scope: { name: serviceName },
+        spans: spans.map(span => ({
+          traceId: span.traceId,
+          spanId: span.spanId,
+          ...(span.parentSpanId ? { parentSpanId: span.parentSpanId } : {}),
+          name: span.name,
+          kind: OTLP_KIND[span.kind],
+          startTimeUnixNano: `${span.startTime}000000`,
+          endTimeUnixNano: `${span.endTime ?? span.startTime}000000`,
+          attributes: otlpAttributes(span.attributes),
+          status: {
+            code: OTLP_STATUS[span.status],
+            ...(span.statusMessage ? { message: span.statusMessage } : {})
+          }
+        }))
+      }]
+    }]
+  }
+}
+
+export class Tracer {
+  readonly config: TracerConfig
+  // Finished and in-flight traces by id, oldest first
+  private traces = new Map<string, SpanData[]>()
+
+  constructor(
+    private logger: Logger,
+    config: Partial<TracerConfig> = {}
+  ) {
+    this.config = { ...DEFAULT_TRACER_CONFIG, ...config }
+  }
+
+  /**
+   * Run `fn` as a new trace. The root span ends (and the trace is exported)
+   * when `fn` settles.
+   */
+  async trace<T>(
+    name: string,
+    attributes: SpanAttributes,
+    fn: (span: Span) => Promise<T>,
+    kind: SpanKind = 'server'
+  ): Promise<T> {
+    const root = this.startSpan(name, attributes, kind)
+    this.remember(root.traceId)
+
+    return activeContext.run({ tracer: this, span: root }, async () => {
+      try {
+        return await fn(root)
+      } catch (error) {
+        root.setError(error)
+        throw error
+      } finally {
+        root.end()
+        this.export(root.traceId)
+      }
+    })
+  }
+
+  startSpan(name: string, attributes: SpanAttributes, kind: SpanKind, parent?: SpanData): Span {
+    const data: SpanData = {
+      traceId: parent?.traceId || randomId(16),
+      spanId: randomId(8),
+      ...(parent ? { parentSpanId: parent.spanId } : {}),
+      name,
+      kind,
+      startTime: Date.now(),
+      attributes: { ...attributes },
+      status: 'unset'
+    }
+    return new Span(data, span => this.traces.get(span.traceId)?.push(span))
+  }
+
+  /** A trace's finished spans, in the order they ended */
+  getTrace(traceId: string): SpanData[] | undefined {
+    return this.traces.get(traceId)
+  }
+
+  /** Most recent traces first */
+  recentTraces(): TraceSummary[] {
+    const summaries: TraceSummary[] = []
+    for (const [traceId, spans] of this.traces) {
+      const root = spans.find(span => !span.parentSpanId)
+      if (!root) continue
+      summaries.push({
+        traceId,
+        name: root.name,
+        startTime: new Date(root.startTime).toISOString(),
+        durationMs: root.endTime !== undefined ? root.endTime - root.startTime : undefined,
+        status: root.status,
+        spans: spans.length
+      })
+    }
+    return summaries.reverse()
+  }
+
+  private remember(traceId: string): void {
+    this.traces.set(traceId, [])
+    while (this.traces.size > this.config.maxTraces) {
+      this.traces.delete(this.traces.keys().next().value as string)
+    }
+  }
+
+  /** Write the trace to the file and collector; failures are logged, never thrown */
+  private export(traceId: string): void {
+    const spans = this.traces.get(traceId)
+    if (!spans || (!this.config.filePath && !this.config.collectorUrl)) return
+
+    const payload = JSON.stringify(toOTLP(spans, this.config.serviceName))
+
+    if (this.config.filePath) {
+      const filePath = this.config.filePath
+      fs.mkdir(path.dirname(filePath), { recursive: true })
+        .then(() => fs.appendFile(filePath, payload + '\n', 'utf8'))
+        .catch(error => this.logger.error('Failed to write trace file:', error))
+    }
+
+    if (this.config.collectorUrl) {
+      fetch(`${this.config.collectorUrl.replace(/\/+$/, '')}/v1/traces`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: payload,
+        signal: AbortSignal.timeout(COLLECTOR_TIMEOUT_MS)
+      })
+        .then(response => {
+          if (!response.ok) throw new Error(`HTTP ${response.status}`)
+        })
+        .catch(error => this.logger.warn(`Failed to export trace to collector: ${error.message}`))
+    }
+  }
+}
@@ -0,0 +1,153 @@
+/**
+ * UsageTracker - Token usage and cost accounting for LLM calls
+ *
+ * Every gateway and routing call reports the provider's `usage` block here.
+ * Cost is estimated from a per-model price table so spend can be broken down
+ * per user, per day, and by purpose (routing vs. response, etc.).
+ */
+
+import { Logger } from './logger'
+import { llmTokens } from './metrics'
+
+export type LLMPurpose = 'routing' | 'orchestration' | 'response' | 'delegation'
+
+export interface UsageRecord {
+  userId: string
+  personaId?: string
+  provider: string
+  model: string
+  purpose: LLMPurpose
+  inputTokens: number
+  outputTokens: number
+  cost: number
+  timestamp: string
+}
+
+export type UsageReport = Omit<UsageRecord, 'cost' | 'timestamp'>
+
+export interface UsageTotals {
+  calls: number
+  inputTokens: number
+  outputTokens: number
+  cost: number
+}
+
+export interface UsageSummary {
+  totals: UsageTotals
+  byDay: Record<string, UsageTotals>
+  byPurpose: Partial<Record<LLMPurpose, UsageTotals>>
+  byModel: Record<string, UsageTotals>
+}
+
+interface UsageDatabase {
+  storeUsageRecord(record: UsageRecord): Promise<void>
+  getUsageRecords(userId: string, since?: string, until?: string): Promise<UsageRecord[]>
+}
+
+/** USD per million tokens. OpenClaw aliases map to the model family they run. */
+const PRICE_TABLE: Record<string, { input: number, output: number }> = {
+  'claude-sonnet-4-20250514': { input: 3, output: 15 },
+  'claude-haiku-4-5-20251001': { input: 1, output: 5 },
+  'claude-opus-4-20250514': { input: 15, output: 75 },
+  'gpt-4': { input: 30, output: 60 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'sonnet': { input: 3, output: 15 },
+  'haiku': { input: 1, output: 5 },
+  'opus': { input: 15, output: 75 }
+}
+
+export function estimateCost(model: string, inputTokens: number, outputTokens: number): number {
+  const price = PRICE_TABLE[model]
+  if (!price) return 0
+  return (inputTokens * price.input + outputTokens * price.output) / 1_000_000
+}
+
+function emptyTotals(): UsageTotals {
+  return { calls: 0, inputTokens: 0, outputTokens: 0, cost: 0 }
+}
+
+function addTo(totals: UsageTotals, record: UsageRecord): void {
+  totals.calls += 1
+  totals.inputTokens += record.inputTokens
+  totals.outputTokens += record.outputTokens
+  totals.cost += record.cost
+}
+
+/** YYYY-MM-DD (UTC) for a timestamp */
+export function usageDay(timestamp: string | Date = new Date()): string {
+  return new Date(timestamp).toISOString().slice(0, 10)
+}
+
+export class UsageTracker {
+  constructor(
+    private database: UsageDatabase,
+    private logger: Logger
+  ) {}
+
+  /**
+   * Record one LLM call. Never throws — accounting must not break a response.
+   */
+  async record(report: UsageReport): Promise<void> {
+    if (!PRICE_TABLE[report.model]) {
+      this.logger.debug(`No price table entry for model "${report.model}", recording cost as 0`)
+    }
+
+    llmTokens.inc({ provider: report.provider, direction: 'input' }, report.inputTokens)
+    llmTokens.inc({ provider: report.provider, direction: 'output' }, report.outputTokens)
+
+    const record: UsageRecord = {
+      ...report,
+      cost: estimateCost(report.model, report.inputTokens, report.outputTokens),
+      timestamp: new Date().toISOString()
+    }
+
+    try {
+      await this.database.storeUsageRecord(record)
+      this.logger.debug('Recorded LLM usage', {
+        userId: record.userId,
+        purpose: record.purpose,
+        model: record.model,
+        inputTokens: record.inputTokens,
+        outputTokens: record.outputTokens
+      })
+    } catch (error) {
+      this.logger.warn('Failed to record LLM usage:', error)
+    }
+  }
+
+  /**
+   * Records for a user between two days (inclusive, YYYY-MM-DD).
+   */
+  async getRecords(userId: string, fromDay?: string, toDay?: string): Promise<UsageRecord[]> {
+    const since = fromDay ? `${fromDay}T00:00:00.000Z` : undefined
+    const until = toDay ? `${toDay}T23:59:59.999Z` : undefined
+    return this.database.getUsageRecords(userId, since, until)
+  }
+
+  async getDailyCost(userId: string, personaId?: string, day: string = usageDay()): Promise<number> {
+    const records = await this.getRecords(userId, day, day)
+    return records
+      .filter(record => !personaId || record.personaId === personaId)
+      .reduce((sum, record) => sum + record.cost, 0)
+  }
+
+  summarize(records: UsageRecord[]): UsageSummary {
+    const summary: UsageSummary = {
+      totals: emptyTotals(),
+      byDay: {},
+      byPurpose: {},
+      byModel: {}
+    }
+
+    for (const record of records) {
+      const day = usageDay(record.timestamp)
+      addTo(summary.totals, record)
+      addTo(summary.byDay[day] ??= emptyTotals(), record)
+      addTo(summary.byPurpose[record.purpose] ??= emptyTotals(), record)
+      addTo(summary.byModel[record.model] ??= emptyTotals(), record)
+    }
+
+    return summary
+  }
+}
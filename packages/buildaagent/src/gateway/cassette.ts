@@ -0,0 +1,160 @@
+/**
+ * Cassette - LLM requests and responses recorded to a JSON file
+ *
+ * RecordingGateway appends an interaction for every gateway and routing
+ * model call; ReplayGateway answers the same requests from the file with no
+ * network. Requests match on their content (prompt, history, persona, tools
+ * offered), not on user ids or timestamps. Identical requests replay their
+ * recordings in order; once those run out the last one repeats.
+ */
+
+import fs from 'fs'
+import path from 'path'
+import { ConversationMessage, ToolCall } from './agent-gateway'
+import { DelegationResult, TaskType } from './openclaw-gateway'
+import { LLMPurpose } from '../core/usage-tracker'
+import { ModelConfig } from '../core/model-config'
+
+export const CASSETTE_VERSION = 1
+
+export type CassetteRequest =
+  | {
+      kind: 'generate'
+      context: string
+      history: ConversationMessage[]
+      personaId?: string
+      purpose?: LLMPurpose
+      models?: ModelConfig
+      // Names of the tools offered
+      tools?: string[]
+    }
+  | {
+      kind: 'delegate'
+      taskType: TaskType
+      message: string
+      history: ConversationMessage[]
+      personaId?: string
+      models?: ModelConfig
+    }
+  | {
+      kind: 'complete'
+      prompt: string
+      personaId?: string
+      purpose: LLMPurpose
+      models?: ModelConfig
+    }
+  | {
+      kind: 'choose_tool'
+      message: string
+      system: string
+      tools: string[]
+      personaId?: string
+      purpose: LLMPurpose
+      models?: ModelConfig
+    }
+
+/** What happened while a response was produced, in order */
+export type CassetteEvent =
+  | { type: 'token', delta: string }
+  | { type: 'tool_call', call: ToolCall }
+
+export interface CassetteInteraction {
+  request: CassetteRequest
+  // generate/complete: string; delegate: DelegationResult; choose_tool: ToolCall | null
+  response?: string | DelegationResult | ToolCall | null
+  // Set instead of response when the call failed
+  error?: { message: string, status?: number }
+  events?: CassetteEvent[]
+}
+
+/** Capabilities of the recorded gateway, which replay reports as its own */
+export interface CassetteGatewayInfo {
+  supportsTools: boolean
+  supportsDelegation: boolean
+}
+
+interface CassetteFile {
+  version: number
+  gateway: CassetteGatewayInfo
+  interactions: CassetteInteraction[]
+}
+
+export class CassetteMissError extends Error {
+  constructor(public readonly request: CassetteRequest) {
+    super(`No recorded ${request.kind} interaction matches this request`)
+    this.name = 'CassetteMissError'
+  }
+}
+
+/** JSON with object keys sorted, so equal requests compare equal */
+function canonicalize(value: unknown): string {
+  return JSON.stringify(value, (_key, item) => {
+    if (!item || typeof item !== 'object' || Array.isArray(item)) return item
+    return Object.fromEntries(Object.keys(item).sort().map(key => [key, item[key]]))
+  })
+}
+
+export class Cassette {
+  // Requests that had no recording, for test assertions
+  readonly misses: CassetteRequest[] = []
+  private played = new Map<string, number>()
+  private writing: Promise<void> = Promise.resolve()
+
+  private constructor(
+    public readonly path: string,
+    public readonly gateway: CassetteGatewayInfo,
+    private interactions: CassetteInteraction[]
+  ) {}
+
+  /** Open a cassette for replay; the file must exist */
+  static load(filePath: string): Cassette {
+    const file = JSON.parse(fs.readFileSync(filePath, 'utf8')) as CassetteFile
+    if (file.version !== CASSETTE_VERSION || !Array.isArray(file.interactions)) {
+      throw new Error(`Unsupported cassette format in ${filePath} (expected version ${CASSETTE_VERSION})`)
+    }
+    return new Cassette(filePath, file.gateway, file.interactions)
+  }
+
+  /** Start an empty cassette for recording; replaces the file on first write */
+  static create(filePath: string, gateway: CassetteGatewayInfo): Cassette {
+    return new Cassette(filePath, gateway, [])
+  }
+
+  get size(): number {
+    return this.interactions.length
+  }
+
+  /**
+   * The next recording for this request. Throws CassetteMissError (and
+   * remembers the miss) when there is none.
+   */
+  find(request: CassetteRequest): CassetteInteraction {
+    const key = canonicalize(request)
+    const matches = this.interactions.filter(interaction => canonicalize(interaction.request) === key)
+    if (matches.length === 0) {
+      this.misses.push(request)
+      throw new CassetteMissError(request)
+    }
+
+    const played = this.played.get(key) || 0
+    this.played.set(key, played + 1)
+    return matches[Math.min(played, matches.length - 1)]
+  }
+
+  /** Append an interaction and rewrite the file (writes are serialized) */
+  record(interaction: CassetteInteraction): Promise<void> {
+    this.interactions.push(interaction)
+    this.writing = this.writing.catch(() => undefined).then(() => this.save())
+    return this.writing
+  }
+
+  private async save(): Promise<void> {
+    const file: CassetteFile = {
+      version: CASSETTE_VERSION,
+      gateway: this.gateway,
+      interactions: this.interactions
+    }
+    await fs.promises.mkdir(path.dirname(this.path), { recursive: true })
+    await fs.promises.writeFile(this.path, JSON.stringify(file, null, 2) + '\n', 'utf8')
+  }
+}
@@ -0,0 +1,108 @@
+/**
+ * CircuitBreaker - Stops sending requests to a provider that keeps failing
+ *
+ * closed:    requests flow; consecutive transient failures are counted
+ * open:      requests are refused until resetTimeoutMs has passed
+ * half_open: one trial request is let through; success closes the breaker,
+ *            failure opens it again
+ */
+
+import { Logger } from '../core/logger'
+
+export type CircuitState = 'closed' | 'open' | 'half_open'
+
+export interface CircuitBreakerConfig {
+  // Consecutive failures that open the breaker
+  failureThreshold: number
+  // How long the breaker stays open before a trial request
+  resetTimeoutMs: number
+}
+
+export interface CircuitBreakerStatus {
+  state: CircuitState
+  consecutiveFailures: number
+  lastError?: string
+  openedAt?: string
+  retryAt?: string
+}
+
+const DEFAULT_CONFIG: CircuitBreakerConfig = {
+  failureThreshold: 3,
+  resetTimeoutMs: 30_000
+}
+
+export class CircuitBreaker {
+  private config: CircuitBreakerConfig
+  private state: CircuitState = 'closed'
+  private consecutiveFailures = 0
+  private openedAt: number | null = null
+  private trialInFlight = false
+  private lastError?: string
+
+  constructor(
+    private name: string,
+    private logger: Logger,
+    config: Partial<CircuitBreakerConfig> = {}
+  ) {
+    this.config = { ...DEFAULT_CONFIG, ...config }
+  }
+
+  /**
+   * Whether a request may be sent now. Moves an expired open breaker to
+   * half_open and reserves its single trial request.
+   */
+  tryAcquire(now: number = Date.now()): boolean {
+    if (this.state === 'closed') return true
+
+    if (this.state === 'open' && now - this.openedAt! >= this.config.resetTimeoutMs) {
+      this.state = 'half_open'
+      this.logger.info(`Circuit half-open for ${this.name}, sending a trial request`)
+    }
+
+    if (this.state === 'half_open' && !this.trialInFlight) {
+      this.trialInFlight = true
+      return true
+    }
+
+    return false
+  }
+
+  recordSuccess(): void {
+    if (this.state !== 'closed') {
+      this.logger.info(`Circuit closed for ${this.name}`)
+    }
+    this.state = 'closed'
+    this.consecutiveFailures = 0
+    this.openedAt = null
+    this.trialInFlight = false
+  }
+
+  recordFailure(error: Error, now: number = Date.now()): void {
+    this.consecutiveFailures++
+    this.lastError = error.message
+    this.trialInFlight = false
+
+    if (this.state === 'half_open' || this.consecutiveFailures >= this.config.failureThreshold) {
+      if (this.state !== 'open') {
+        this.logger.warn(`Circuit opened for ${this.name} after ${this.consecutiveFailures} consecutive failure(s)`, {
+          retryInMs: this.config.resetTimeoutMs,
+          error: error.message
+        })
+      }
+      this.state = 'open'
+      this.openedAt = now
+    }
+  }
+
+  getStatus(): CircuitBreakerStatus {
+    return {
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      ...(this.lastError ? { lastError: this.lastError } : {}),
+      ...(this.openedAt !== null ? {
+        openedAt: new Date(this.openedAt).toISOString(),
+        retryAt: new Date(this.openedAt + this.config.resetTimeoutMs).toISOString()
+      } : {})
+    }
+  }
+}
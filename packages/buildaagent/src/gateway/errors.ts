@@ -0,0 +1,76 @@
+/**
+ * Gateway error classification
+ *
+ * Shared by OpenClawGateway's retry loop and FallbackGateway's circuit
+ * breakers to tell transient provider problems (timeouts, network, 5xx)
+ * apart from errors that would fail the same way again, and problems with
+ * one provider (rate limits, credentials) apart from bad requests.
+ */
+
+export type ErrorCategory = 'timeout' | 'network' | 'http' | 'agent'
+
+/**
+ * An error from an LLM provider's HTTP API, carrying the response status
+ * so callers can classify it without parsing the message.
+ */
+export class ProviderError extends Error {
+  constructor(
+    message: string,
+    public readonly status?: number,
+    public readonly cause?: unknown
+  ) {
+    super(message)
+    this.name = 'ProviderError'
+  }
+}
+
+/** A provider with no API key configured; it can't serve any request */
+export class ProviderNotConfiguredError extends ProviderError {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ProviderNotConfiguredError'
+  }
+}
+
+// Rate limited, or the key was rejected: this provider won't serve the request, another may
+const PROVIDER_SPECIFIC_STATUSES = [401, 403, 429]
+
+function httpStatus(error: any): number | null {
+  if (typeof error.status === 'number') return error.status
+  const match = error.message?.match(/^HTTP (\d{3})/)
+  return match ? Number(match[1]) : null
+}
+
+/**
+ * Categorize an error to distinguish network/timeout issues from agent-level failures.
+ */
+export function categorizeError(error: any): ErrorCategory {
+  if (error.name === 'AbortError' || error.cause?.name === 'AbortError') return 'timeout'
+  if (error.cause?.code === 'ECONNREFUSED' || error.cause?.code === 'ECONNRESET' ||
+      error.cause?.code === 'ENOTFOUND' || error.cause?.code === 'UND_ERR_CONNECT_TIMEOUT' ||
+      error.message?.includes('fetch failed')) return 'network'
+  if (httpStatus(error) !== null) return 'http'
+  return 'agent'
+}
+
+/**
+ * Returns true if the error is transient and worth retrying.
+ */
+export function isRetryable(error: any): boolean {
+  const category = categorizeError(error)
+  if (category === 'timeout' || category === 'network') return true
+  // Retry server errors (5xx) but not client errors (4xx)
+  if (category === 'http' && httpStatus(error)! >= 500) return true
+  return false
+}
+
+/**
+ * Returns true if another provider may succeed where this one failed: a
+ * transient error (isRetryable), a rate limit or rejected credentials, or no
+ * API key configured.
+ */
+export function canFallBack(error: any): boolean {
+  if (isRetryable(error) || error instanceof ProviderNotConfiguredError) return true
+  const status = httpStatus(error)
+  return status !== null && PROVIDER_SPECIFIC_STATUSES.includes(status)
+}
@@ -0,0 +1,135 @@
+/**
+ * FallbackGateway - Tries several AgentGateways in priority order
+ *
+ * Each provider has its own circuit breaker. A failure another provider
+ * may not share (timeout, network, 5xx, 429, 401/403, no API key — see
+ * canFallBack) counts against the provider and the request moves on to the
+ * next one; providers with an open breaker are skipped until their reset
+ * timeout passes. Errors that would fail the same way anywhere (bad
+ * request, governance) are thrown as-is.
+ * Model names in a persona's settings are meant for the first provider, so
+ * later providers get only its max_tokens and temperature.
+ */
+
+import { AgentGateway, ConversationMessage, GenerateOptions, HealthCheckResult } from './agent-gateway'
+import { CircuitBreaker, CircuitBreakerConfig, CircuitBreakerStatus } from './circuit-breaker'
+import { ProviderError, canFallBack } from './errors'
+import { withoutModelNames } from '../core/model-config'
+import { Logger } from '../core/logger'
+
+export interface FallbackProvider {
+  name: string
+  gateway: AgentGateway
+}
+
+export interface ProviderStatus extends CircuitBreakerStatus {
+  provider: string
+}
+
+export class FallbackGateway implements AgentGateway {
+  readonly supportsTools: boolean
+  private breakers: CircuitBreaker[]
+
+  constructor(
+    private providers: FallbackProvider[],
+    private logger: Logger,
+    breakerConfig: Partial<CircuitBreakerConfig> = {}
+  ) {
+    if (providers.length === 0) {
+      throw new Error('FallbackGateway needs at least one provider')
+    }
+
+    // Tools are only offered when every provider in the chain can run them
+    this.supportsTools = providers.every(provider => provider.gateway.supportsTools)
+    this.breakers = providers.map(provider => new CircuitBreaker(provider.name, logger, breakerConfig))
+  }
+
+  async generateResponse(
+    context: string,
+    userId: string,
+    history: ConversationMessage[] = [],
+    options: GenerateOptions = {}
+  ): Promise<string> {
+    const failures: string[] = []
+
+    for (const [i, provider] of this.providers.entries()) {
+      const breaker = this.breakers[i]
+      if (!breaker.tryAcquire()) {
+        failures.push(`${provider.name}: circuit open`)
+        continue
+      }
+
+      // Once text was streamed or a skill ran, another provider can't start over cleanly
+      let committed = false
+      const attemptOptions: GenerateOptions = {
+        ...options,
+        models: i === 0 ? options.models : withoutModelNames(options.models),
+        onToken: options.onToken && (delta => {
+          committed = true
+          options.onToken!(delta)
+        }),
+        tools: options.tools && {
+          ...options.tools,
+          execute: call => {
+            committed = true
+            return options.tools!.execute(call)
+          }
+        }
+      }
+
+      try {
+        const response = await provider.gateway.generateResponse(context, userId, history, attemptOptions)
+        breaker.recordSuccess()
+        return response
+      } catch (error: any) {
+        if (!canFallBack(error)) {
+          // The provider answered; the request itself was the problem
+          breaker.recordSuccess()
+          throw error
+        }
+
+        breaker.recordFailure(error)
+        if (committed) {
+          throw error
+        }
+
+        failures.push(`${provider.name}: ${error.message}`)
+        if (i < this.providers.length - 1) {
+          this.logger.warn(`Provider ${provider.name} failed, falling back: ${error.message}`)
+        }
+      }
+    }
+
+    throw new ProviderError(`All providers unavailable (${failures.join('; ')})`, 503)
+  }
+
+  getProviderStatus(): ProviderStatus[] {
+    return this.providers.map((provider, i) => ({
+      provider: provider.name,
+      ...this.breakers[i].getStatus()
+    }))
+  }
+
+  /**
+   * Healthy when any provider is. Providers with an open breaker aren't
+   * probed, so a health check never sends traffic to a tripped provider.
+   */
+  async healthCheck(): Promise<HealthCheckResult> {
+    const results = await Promise.all(this.providers.map(async (provider, i) => {
+      const status = this.breakers[i].getStatus()
+      if (status.state === 'open') {
+        return { healthy: false, provider: provider.name, error: 'Circuit open' }
+      }
+      return provider.gateway.healthCheck()
+    }))
+
+    const healthy = results.filter(result => result.healthy)
+
+    return {
+      healthy: healthy.length > 0,
+      provider: this.providers.map(provider => provider.name).join(' → '),
+      ...(healthy.length === 0 ? { error: results.map(result => `${result.provider}: ${result.error}`).join('; ') } : {}),
+      providers: this.getProviderStatus()
+    }
+  }
+}
@@ -0,0 +1,328 @@
+/**
+ * IlanaGateway - Governance layer around DirectGateway (or a FallbackGateway chain of them),
+ * or around OpenClawGateway, whose delegated calls get the same checks
+ *
+ * Enforces each persona's `governance` block per user:
+ * - skill_restrictions: restricted skills are hidden from routing and blocked at execution
+ * - max_cost_per_day: calls are rejected once a user's recorded spend for the day is reached
+ * - restricted_domains: requests mentioning them are rejected, responses have them redacted
+ * - both checks also cover the skill routing and orchestration calls made through `routingModel`
+ * - audit_level: how much of each call is written to the audit trail (JSON lines)
+ */
+
+import fs from 'fs/promises'
+import path from 'path'
+import { AgentGateway, ConversationMessage, GenerateOptions, HealthCheckResult, ToolCall, ToolDefinition } from './agent-gateway'
+import { DelegatingGateway, DelegationResult, TaskType, canDelegate } from './openclaw-gateway'
+import { RoutingModel, RoutingRequest } from './routing-model'
+import { Logger } from '../core/logger'
+import { UsageTracker } from '../core/usage-tracker'
+
+export type AuditLevel = 'none' | 'basic' | 'detailed' | 'full'
+
+export interface GovernanceConfig {
+  max_cost_per_day?: number | null
+  restricted_domains?: string[]
+  audit_level?: AuditLevel
+  skill_restrictions?: string[]
+}
+
+export type GovernanceViolationCode = 'budget_exceeded' | 'skill_restricted' | 'domain_restricted'
+
+/**
+ * Thrown when a call is blocked by policy. PersonaEngine turns it into a
+ * reply in the persona's tone rather than a generic error.
+ */
+export class GovernanceViolation extends Error {
+  constructor(
+    public readonly code: GovernanceViolationCode,
+    message: string
+  ) {
+    super(message)
+    this.name = 'GovernanceViolation'
+  }
+}
+
+export interface IlanaOptions {
+  auditPath: string
+  // Source of per-user daily spend for max_cost_per_day
+  usageTracker: UsageTracker
+}
+
+interface AuditEvent {
+  event: 'generate' | 'delegate' | 'route' | 'skill'
+  outcome: 'allowed' | 'blocked' | 'error'
+  userId: string
+  personaId: string
+  reason?: string
+}
+
+const DEFAULT_PERSONA = 'default'
+const LEVEL_ORDER: AuditLevel[] = ['none', 'basic', 'detailed', 'full']
+
+const DOMAIN_PATTERN = /\b(?:https?:\/\/)?((?:[a-z0-9-]+\.)+[a-z]{2,})(?:[/?#]\S*)?/gi
+
+export class IlanaGateway implements DelegatingGateway {
+  private policies = new Map<string, GovernanceConfig>()
+  // Use in place of the routing model it wraps
+  readonly routingModel: RoutingModel
+
+  constructor(
+    private directGateway: AgentGateway,
+    private logger: Logger,
+    private options: IlanaOptions,
+    routingModel: RoutingModel
+  ) {
+    this.routingModel = new GovernedRoutingModel(routingModel, (text, request) => this.checkRouting(text, request))
+  }
+
+  get supportsTools(): boolean {
+    return !!this.directGateway.supportsTools
+  }
+
+  get supportsDelegation(): boolean {
+    return canDelegate(this.directGateway)
+  }
+
+  /**
+   * Register (or replace) the governance block for a persona.
+   * Called by PersonaEngine when it loads a persona.
+   */
+  setPolicy(personaId: string, governance: GovernanceConfig = {}): void {
+    this.policies.set(personaId, governance)
+    this.logger.info(`Ilana policy set for persona: ${personaId}`, {
+      maxCostPerDay: governance.max_cost_per_day ?? null,
+      restrictedSkills: governance.skill_restrictions?.length || 0,
+      restrictedDomains: governance.restricted_domains?.length || 0,
+      auditLevel: governance.audit_level || 'basic'
+    })
+  }
+
+  private policyFor(personaId: string): GovernanceConfig {
+    return this.policies.get(personaId) || {}
+  }
+
+  isSkillAllowed(personaId: string, skillName: string): boolean {
+    return !(this.policyFor(personaId).skill_restrictions || []).includes(skillName)
+  }
+
+  /**
+   * Throws GovernanceViolation if the persona may not use this skill.
+   */
+  async checkSkill(personaId: string, userId: string, skillName: string): Promise<void> {
+    const policy = this.policyFor(personaId)
+
+    if (!this.isSkillAllowed(personaId, skillName)) {
+      await this.audit(policy, { event: 'skill', outcome: 'blocked', userId, personaId, reason: 'skill_restricted' }, { skill: skillName })
+      throw new GovernanceViolation('skill_restricted', `Skill "${skillName}" is restricted for persona ${personaId}`)
+    }
+
+    await this.audit(policy, { event: 'skill', outcome: 'allowed', userId, personaId }, { skill: skillName })
+  }
+
+  async getDailyCost(userId: string, personaId: string): Promise<number> {
+    return this.options.usageTracker.getDailyCost(userId, personaId)
+  }
+
+  async generateResponse(
+    context: string,
+    userId: string,
+    history: ConversationMessage[] = [],
+    options: GenerateOptions = {}
+  ): Promise<string> {
+    return this.govern('generate', context, userId, history, options, innerOptions =>
+      this.directGateway.generateResponse(context, userId, history, innerOptions)
+    )
+  }
+
+  async delegateToAgent(
+    taskType: TaskType,
+    message: string,
+    userId: string = 'anonymous',
+    history: ConversationMessage[] = [],
+    options: GenerateOptions = {}
+  ): Promise<DelegationResult> {
+    if (!canDelegate(this.directGateway)) {
+      throw new Error('Governed gateway does not support delegation')
+    }
+    const inner = this.directGateway
+
+    let agentId = ''
+    const response = await this.govern('delegate', message, userId, history, options, async innerOptions => {
+      const result = await inner.delegateToAgent(taskType, message, userId, history, innerOptions)
+      agentId = result.agentId
+      return result.response
+    })
+    return { taskType, agentId, response }
+  }
+
+  /**
+   * Throws GovernanceViolation if a routing call may not be made. Its reply
+   * is a tool choice or agent name, so there is nothing to redact.
+   */
+  private async checkRouting(text: string, request: RoutingRequest): Promise<void> {
+    const personaId = request.personaId || DEFAULT_PERSONA
+    const policy = this.policyFor(personaId)
+    const base = { event: 'route' as const, userId: request.userId, personaId }
+
+    await this.checkRequest(policy, base, text)
+    await this.audit(policy, { ...base, outcome: 'allowed' }, { purpose: request.purpose })
+  }
+
+  /**
+   * Throws GovernanceViolation if the text names a restricted domain or the
+   * user's daily budget for the persona is spent.
+   */
+  private async checkRequest(
+    policy: GovernanceConfig,
+    base: Omit<AuditEvent, 'outcome' | 'reason'>,
+    context: string
+  ): Promise<void> {
+    const restrictedDomain = this.findRestrictedDomain(context, policy)
+    if (restrictedDomain) {
+      await this.audit(policy, { ...base, outcome: 'blocked', reason: 'domain_restricted' }, { domain: restrictedDomain }, { context })
+      throw new GovernanceViolation('domain_restricted', `Request references restricted domain: ${restrictedDomain}`)
+    }
+
+    const maxCost = policy.max_cost_per_day
+    const spent = await this.getDailyCost(base.userId, base.personaId)
+    if (maxCost !== null && maxCost !== undefined && spent >= maxCost) {
+      await this.audit(policy, { ...base, outcome: 'blocked', reason: 'budget_exceeded' }, { spent, maxCost })
+      throw new GovernanceViolation('budget_exceeded', `Daily budget of $${maxCost} reached for ${base.userId}`)
+    }
+  }
+
+  /**
+   * Domain and budget checks before the call, redaction and auditing after it.
+   */
+  private async govern(
+    event: 'generate' | 'delegate',
+    context: string,
+    userId: string,
+    history: ConversationMessage[],
+    options: GenerateOptions,
+    call: (options: GenerateOptions) => Promise<string>
+  ): Promise<string> {
+    const personaId = options.personaId || DEFAULT_PERSONA
+    const policy = this.policyFor(personaId)
+    const base = { event, userId, personaId }
+
+    await this.checkRequest(policy, base, context)
+
+    // Redaction needs the whole response, so deltas are held back when domains are restricted
+    const bufferStream = !!options.onToken && this.normalizeDomains(policy).length > 0
+    const innerOptions = bufferStream ? { ...options, onToken: undefined } : options
+
+    let response: string
+    try {
+      response = await call(innerOptions)
+    } catch (error: any) {
+      await this.audit(policy, { ...base, outcome: 'error', reason: error.message })
+      throw error
+    }
+
+    const filtered = this.redactRestrictedDomains(response, policy)
+    if (bufferStream) {
+      options.onToken!(filtered)
+    }
+
+    await this.audit(
+      policy,
+      { ...base, outcome: 'allowed' },
+      {
+        dailyCost: Number((await this.getDailyCost(userId, personaId)).toFixed(6)),
+        contextLength: context.length,
+        historyMessages: history.length,
+        responseLength: response.length,
+        redacted: filtered !== response
+      },
+      { context, response: filtered }
+    )
+
+    return filtered
+  }
+
+  private normalizeDomains(policy: GovernanceConfig): string[] {
+    return (policy.restricted_domains || []).map(domain => domain.toLowerCase().replace(/^\*\./, ''))
+  }
+
+  private isRestrictedHost(host: string, domains: string[]): boolean {
+    const lower = host.toLowerCase()
+    return domains.some(domain => lower === domain || lower.endsWith(`.${domain}`))
+  }
+
+  private findRestrictedDomain(text: string, policy: GovernanceConfig): string | null {
+    const domains = this.normalizeDomains(policy)
+    if (domains.length === 0) return null
+
+    for (const match of text.matchAll(DOMAIN_PATTERN)) {
+      if (this.isRestrictedHost(match[1], domains)) return match[1]
+    }
+    return null
+  }
+
+  private redactRestrictedDomains(text: string, policy: GovernanceConfig): string {
+    const domains = this.normalizeDomains(policy)
+    if (domains.length === 0) return text
+
+    return text.replace(DOMAIN_PATTERN, (match, host: string) =>
+      this.isRestrictedHost(host, domains) ? '[restricted link]' : match
+    )
+  }
+
+  /**
+   * Append an audit record. `basic` records who/what/outcome, `detailed` adds
+   * call metadata, `full` adds prompt and response content.
+   */
+  private async audit(
+    policy: GovernanceConfig,
+    event: AuditEvent,
+    detailed: Record<string, unknown> = {},
+    full: Record<string, unknown> = {}
+  ): Promise<void> {
+    const level = LEVEL_ORDER.indexOf(policy.audit_level || 'basic')
+    if (level <= 0) return
+
+    const record = {
+      timestamp: new Date().toISOString(),
+      ...event,
+      ...(level >= 2 ? detailed : {}),
+      ...(level >= 3 ? full : {})
+    }
+
+    try {
+      await fs.mkdir(path.dirname(this.options.auditPath), { recursive: true })
+      await fs.appendFile(this.options.auditPath, JSON.stringify(record) + '\n', 'utf8')
+    } catch (error) {
+      // Auditing must never break the conversation
+      this.logger.error('Failed to write Ilana audit record:', error)
+    }
+  }
+
+  async healthCheck(): Promise<HealthCheckResult> {
+    const directHealth = await this.directGateway.healthCheck()
+
+    return {
+      ...directHealth,
+      provider: `${directHealth.provider} (via Ilana)`
+    }
+  }
+}
+
+/** A routing model whose calls are checked against the persona's policy first */
+class GovernedRoutingModel implements RoutingModel {
+  constructor(
+    private inner: RoutingModel,
+    private check: (text: string, request: RoutingRequest) => Promise<void>
+  ) {}
+
+  async complete(prompt: string, request: RoutingRequest): Promise<string> {
+    await this.check(prompt, request)
+    return this.inner.complete(prompt, request)
+  }
+
+  async chooseTool(message: string, system: string, tools: ToolDefinition[], request: RoutingRequest): Promise<ToolCall | null> {
+    await this.check(message, request)
+    return this.inner.chooseTool(message, system, tools, request)
+  }
+}
@@ -6,10 +6,17 @@
  * and proper error categorization for network vs agent issues.
  */
 
-import { AgentGateway, HealthCheckResult } from './agent-gateway'
+import { AgentGateway, ConversationMessage, GenerateOptions, HealthCheckResult, readOpenAIStream } from './agent-gateway'
+import { categorizeError, isRetryable } from './errors'
 import { Logger } from '../core/logger'
+import { UsageTracker, LLMPurpose } from '../core/usage-tracker'
+import { observeLLMCall, openclawRetries } from '../core/metrics'
+import { ModelConfig, ResolvedModelSettings, resolveModelSettings } from '../core/model-config'
+import { AgentRoster } from '../core/agent-roster'
+import { OpenClawSessionManager } from './openclaw-sessions'
 
-export type TaskType = 'main' | 'coder' | 'marketing' | 'assistant'
+/** An agent id from the AgentRoster, e.g. "coder" */
+export type TaskType = string
 
 export interface DelegationResult {
   taskType: TaskType
@@ -17,6 +24,25 @@ export interface DelegationResult {
   response: string
 }
 
+/**
+ * A gateway that can hand a request to a specialized agent. PersonaEngine
+ * orchestrates and delegates only when its gateway is one of these.
+ */
+export interface DelegatingGateway extends AgentGateway {
+  readonly supportsDelegation: boolean
+  delegateToAgent(
+    taskType: TaskType,
+    message: string,
+    userId?: string,
+    history?: ConversationMessage[],
+    options?: GenerateOptions
+  ): Promise<DelegationResult>
+}
+
+export function canDelegate(gateway: AgentGateway): gateway is DelegatingGateway {
+  return (gateway as Partial<DelegatingGateway>).supportsDelegation === true
+}
+
 export interface RetryConfig {
   maxRetries: number
   baseDelayMs: number
@@ -26,8 +52,13 @@ export interface RetryConfig {
 export interface OpenClawConfig {
   gatewayUrl?: string
   agentId?: string
+  // Model family the agents run (e.g. "sonnet"), used to price usage. The
+  // request's `model` field selects the agent, so agents keep their own model.
   model?: string
+  // Session keys start with this (default "buildaagent")
   sessionPrefix?: string
+  // Sessions idle this long are replaced by a fresh one (default 4 hours)
+  sessionIdleTimeoutMs?: number
   authToken?: string
   timeout?: number
   retry?: Partial<RetryConfig>
@@ -39,6 +70,10 @@ interface OpenAIResponse {
       content: string
     }
   }>
+  usage?: {
+    prompt_tokens: number
+    completion_tokens: number
+  }
 }
 
 const DEFAULT_TIMEOUT = 120_000 // 120s — VPS agents can take time
@@ -48,29 +83,6 @@ const DEFAULT_RETRY: RetryConfig = {
   maxDelayMs: 30_000,
 }
 
-/**
- * Categorize an error to distinguish network/timeout issues from agent-level failures.
- */
-function categorizeError(error: any): 'timeout' | 'network' | 'http' | 'agent' {
-  if (error.name === 'AbortError') return 'timeout'
-  if (error.cause?.code === 'ECONNREFUSED' || error.cause?.code === 'ECONNRESET' ||
-      error.cause?.code === 'ENOTFOUND' || error.cause?.code === 'UND_ERR_CONNECT_TIMEOUT' ||
-      error.message?.includes('fetch failed')) return 'network'
-  if (error.message?.startsWith('HTTP ')) return 'http'
-  return 'agent'
-}
-
-/**
- * Returns true if the error is transient and worth retrying.
- */
-function isRetryable(error: any): boolean {
-  const category = categorizeError(error)
-  if (category === 'timeout' || category === 'network') return true
-  // Retry server errors (5xx) but not client errors (4xx)
-  if (category === 'http' && error.message?.match(/^HTTP 5\d\d/)) return true
-  return false
-}
-
 function buildErrorMessage(error: any, context: string): string {
   const category = categorizeError(error)
   switch (category) {
@@ -90,7 +102,16 @@ function buildErrorMessage(error: any, context: string): string {
   }
 }
 
-export class OpenClawGateway implements AgentGateway {
+function samplingParams(settings: ResolvedModelSettings): Record<string, number> {
+  return {
+    ...(settings.max_tokens !== undefined ? { max_tokens: settings.max_tokens } : {}),
+    ...(settings.temperature !== undefined ? { temperature: settings.temperature } : {})
+  }
+}
+
+export class OpenClawGateway implements DelegatingGateway {
+  readonly supportsDelegation = true
+  readonly sessions: OpenClawSessionManager
   private gatewayUrl: string
   private agentId: string
   private authToken?: string
@@ -99,13 +120,20 @@ export class OpenClawGateway implements AgentGateway {
 
   constructor(
     private config: OpenClawConfig,
-    private logger: Logger
+    private logger: Logger,
+    private usageTracker?: UsageTracker,
+    private models?: ModelConfig,
+    private roster: AgentRoster = AgentRoster.default()
   ) {
     this.gatewayUrl = config.gatewayUrl || 'http://localhost:18789'
     this.agentId = config.agentId || 'main'
     this.authToken = config.authToken
     this.timeout = config.timeout || DEFAULT_TIMEOUT
     this.retry = { ...DEFAULT_RETRY, ...config.retry }
+    this.sessions = new OpenClawSessionManager(logger, {
+      ...(config.sessionPrefix ? { prefix: config.sessionPrefix } : {}),
+      ...(config.sessionIdleTimeoutMs ? { idleTimeoutMs: config.sessionIdleTimeoutMs } : {})
+    })
   }
 
   /**
@@ -139,14 +167,22 @@ export class OpenClawGateway implements AgentGateway {
     }
   }
 
-  async generateResponse(message: string, userId: string): Promise<string> {
+  async generateResponse(
+    message: string,
+    userId: string,
+    history: ConversationMessage[] = [],
+    options: GenerateOptions = {}
+  ): Promise<string> {
     this.logger.info(`Sending message to OpenClaw agent: ${this.agentId} for user: ${userId}`)
 
     if (!this.authToken) {
       throw new Error('Auth token required for OpenClaw OpenAI API')
     }
 
-    return this.withRetry('generateResponse', async () => {
+    const settings = this.settingsFor(this.agentId, options)
+    const session = this.sessionRequest(this.agentId, userId, message, history, options)
+
+    const text = await this.withRetry('generateResponse', options.purpose || 'response', async () => {
       const controller = new AbortController()
       const timeoutId = setTimeout(() => controller.abort(), this.timeout)
 
@@ -159,8 +195,9 @@ export class OpenClawGateway implements AgentGateway {
           },
           body: JSON.stringify({
             model: `openclaw:${this.agentId}`,
-            messages: [{ role: 'user', content: message }],
-            user: userId
+            ...session,
+            ...samplingParams(settings),
+            ...(options.onToken ? { stream: true } : {})
           }),
           signal: controller.signal
         })
@@ -170,7 +207,15 @@ export class OpenClawGateway implements AgentGateway {
           throw new Error(`HTTP ${response.status}: ${errorText}`)
         }
 
+        if (options.onToken) {
+          const result = await this.readStream(response, options.onToken)
+          await this.recordUsage(result.usage, settings.model, userId, options.purpose || 'response', options.personaId)
+          this.logger.info(`OpenClaw streamed response received (${result.text.length} chars)`)
+          return result.text
+        }
+
         const data = await response.json() as OpenAIResponse
+        await this.recordUsage(data.usage, settings.model, userId, options.purpose || 'response', options.personaId)
 
         if (data.choices && data.choices.length > 0) {
           const result = data.choices[0].message.content
@@ -183,21 +228,23 @@ export class OpenClawGateway implements AgentGateway {
         clearTimeout(timeoutId)
       }
     })
+
+    this.sessions.recordTurn(userId, this.agentId, options.threadId)
+    return text
   }
 
   /**
    * Delegate a task to a specialized OpenClaw agent.
    * Includes a pre-flight connection check and retry logic for transient failures.
    */
-  async delegateToAgent(taskType: TaskType, message: string, userId: string = 'anonymous'): Promise<DelegationResult> {
-    const agentMap: Record<TaskType, string> = {
-      main: this.agentId,
-      coder: 'coder',
-      marketing: 'marketing',
-      assistant: 'assistant'
-    }
-
-    const targetAgent = agentMap[taskType]
+  async delegateToAgent(
+    taskType: TaskType,
+    message: string,
+    userId: string = 'anonymous',
+    history: ConversationMessage[] = [],
+    options: GenerateOptions = {}
+  ): Promise<DelegationResult> {
+    const targetAgent = this.roster.openclawAgent(taskType, this.agentId)
     this.logger.info(`Delegating "${taskType}" task to agent: ${targetAgent}`)
 
     if (!this.authToken) {
@@ -213,7 +260,10 @@ export class OpenClawGateway implements AgentGateway {
     }
     this.logger.info(`VPS connection OK (${conn.latencyMs}ms latency), proceeding with delegation`)
 
-    return this.withRetry(`delegateToAgent(${targetAgent})`, async () => {
+    const settings = this.settingsFor(targetAgent, { ...options, purpose: 'delegation' })
+    const session = this.sessionRequest(targetAgent, userId, message, history, options)
+
+    const result = await this.withRetry(`delegateToAgent(${targetAgent})`, 'delegation', async (): Promise<DelegationResult> => {
       const controller = new AbortController()
       const timeoutId = setTimeout(() => controller.abort(), this.timeout)
 
@@ -226,8 +276,9 @@ export class OpenClawGateway implements AgentGateway {
           },
           body: JSON.stringify({
             model: `openclaw:${targetAgent}`,
-            messages: [{ role: 'user', content: message }],
-            user: `buildaagent-${userId}`
+            ...session,
+            ...samplingParams(settings),
+            ...(options.onToken ? { stream: true } : {})
           }),
           signal: controller.signal
         })
@@ -237,7 +288,15 @@ export class OpenClawGateway implements AgentGateway {
           throw new Error(`HTTP ${response.status}: ${errorText}`)
         }
 
+        if (options.onToken) {
+          const result = await this.readStream(response, options.onToken)
+          await this.recordUsage(result.usage, settings.model, userId, 'delegation', options.personaId)
+          this.logger.info(`Agent "${targetAgent}" streamed response (${result.text.length} chars)`)
+          return { taskType, agentId: targetAgent, response: result.text }
+        }
+
         const data = await response.json() as OpenAIResponse
+        await this.recordUsage(data.usage, settings.model, userId, 'delegation', options.personaId)
 
         if (data.choices && data.choices.length > 0) {
           const result = data.choices[0].message.content
@@ -250,6 +309,9 @@ export class OpenClawGateway implements AgentGateway {
         clearTimeout(timeoutId)
       }
     })
+
+    this.sessions.recordTurn(userId, targetAgent, options.threadId)
+    return result
   }
 
   async healthCheck(): Promise<HealthCheckResult> {
@@ -306,16 +368,85 @@ export class OpenClawGateway implements AgentGateway {
     }
   }
 
+  /**
+   * Session key and messages for a request. OpenClaw keeps the transcript
+   * of an ongoing session, so only a session's first message carries the
+   * conversation history; later ones send just the new message.
+   */
+  private sessionRequest(
+    agent: string,
+    userId: string,
+    message: string,
+    history: ConversationMessage[],
+    options: GenerateOptions
+  ): { user: string, messages: ConversationMessage[] } {
+    const session = this.sessions.acquire(userId, agent, options.threadId)
+    return {
+      user: session.key,
+      messages: [...(session.isNew ? history : []), { role: 'user', content: message }]
+    }
+  }
+
+  /**
+   * Read a streamed completion. Failures after the stream starts are wrapped so
+   * withRetry won't replay a response the caller has already partly received.
+   */
+  private async readStream(
+    response: Response,
+    onToken: (delta: string) => void
+  ): Promise<{ text: string; usage: OpenAIResponse['usage'] }> {
+    try {
+      const result = await readOpenAIStream(response, onToken)
+      return {
+        text: result.text,
+        usage: { prompt_tokens: result.inputTokens, completion_tokens: result.outputTokens }
+      }
+    } catch (error: any) {
+      throw new Error(`Stream interrupted: ${error.message}`)
+    }
+  }
+
+  /**
+   * Persona settings, then server settings. Only max_tokens and temperature
+   * reach the agent; the model name prices usage (configured family, else the agent).
+   */
+  private settingsFor(agent: string, options: GenerateOptions): ResolvedModelSettings {
+    return resolveModelSettings(options.purpose || 'response', [options.models, this.models], {
+      model: this.config.model || `openclaw:${agent}`
+    })
+  }
+
+  private async recordUsage(
+    usage: OpenAIResponse['usage'],
+    model: string,
+    userId: string,
+    purpose: LLMPurpose,
+    personaId?: string
+  ): Promise<void> {
+    if (!this.usageTracker) return
+
+    await this.usageTracker.record({
+      userId,
+      personaId,
+      provider: 'openclaw',
+      model,
+      purpose,
+      inputTokens: usage?.prompt_tokens || 0,
+      outputTokens: usage?.completion_tokens || 0
+    })
+  }
+
   /**
    * Execute an async operation with retry + exponential backoff.
    * Only retries on transient errors (timeouts, network failures, 5xx).
+   * Each attempt's latency and each retry are recorded in the metrics.
    */
-  private async withRetry<T>(operationName: string, fn: () => Promise<T>): Promise<T> {
+  private async withRetry<T>(operationName: string, purpose: LLMPurpose, fn: () => Promise<T>): Promise<T> {
     let lastError: any
 
     for (let attempt = 0; attempt <= this.retry.maxRetries; attempt++) {
       try {
-        return await fn()
+        return await observeLLMCall('openclaw', purpose, fn)
       } catch (error: any) {
         lastError = error
 
@@ -328,6 +459,7 @@ export class OpenClawGateway implements AgentGateway {
           this.retry.maxDelayMs
         )
         const category = categorizeError(error)
+        openclawRetries.inc({ purpose, category })
         this.logger.warn(
           `${operationName} failed (${category}, attempt ${attempt + 1}/${this.retry.maxRetries + 1}), retrying in ${delay}ms...`
         )
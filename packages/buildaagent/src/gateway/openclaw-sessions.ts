@@ -0,0 +1,168 @@
+/**
+ * OpenClawSessionManager - Which OpenClaw session each conversation uses
+ *
+ * OpenClaw keeps a session (agent transcript and memory) per session key,
+ * taken from the `user` field of its OpenAI-compatible endpoint. Each user,
+ * agent and conversation thread gets its own key derived from the session
+ * prefix, e.g. `buildaagent:alice:coder:trip-planning:lx3k9q2a`, reused for
+ * every message until the session is reset or sits idle past the timeout.
+ * The next message then starts a fresh session, so stale transcripts stop
+ * growing (OpenClaw's own pruning removes them). Replaces the old
+ * scripts/cleanup-sessions.sh cron job.
+ */
+
+import { Logger } from '../core/logger'
+
+export interface SessionManagerConfig {
+  // First part of every session key
+  prefix: string
+  // Sessions unused for this long are expired
+  idleTimeoutMs: number
+}
+
+export interface OpenClawSession {
+  key: string
+  userId: string
+  agent: string
+  threadId?: string
+  createdAt: string
+  lastUsedAt: string
+  // Messages sent in this session
+  turns: number
+}
+
+export interface SessionLease {
+  key: string
+  // True until the session has received a message; that first message carries the history
+  isNew: boolean
+}
+
+const DEFAULT_SESSION_CONFIG: SessionManagerConfig = {
+  prefix: 'buildaagent',
+  idleTimeoutMs: 4 * 60 * 60 * 1000 // 4 hours, as cleanup-sessions.sh pruned
+}
+
+export class OpenClawSessionManager {
+  private sessions = new Map<string, OpenClawSession>()
+  private config: SessionManagerConfig
+  private sweepTimer: NodeJS.Timeout | null = null
+
+  constructor(
+    private logger: Logger,
+    config: Partial<SessionManagerConfig> = {}
+  ) {
+    this.config = { ...DEFAULT_SESSION_CONFIG, ...config }
+
+    // An invalid timeout (e.g. an unparseable env value) falls back to the default
+    if (!Number.isFinite(this.config.idleTimeoutMs) || this.config.idleTimeoutMs <= 0) {
+      this.logger.warn(`OpenClaw sessions: invalid idleTimeoutMs ${this.config.idleTimeoutMs}, using ${DEFAULT_SESSION_CONFIG.idleTimeoutMs}`)
+      this.config.idleTimeoutMs = DEFAULT_SESSION_CONFIG.idleTimeoutMs
+    }
+
+    // Sweep at a fraction of the timeout so idle sessions don't linger much past it
+    const sweepInterval = Math.max(1000, Math.floor(this.config.idleTimeoutMs / 4))
+    this.sweepTimer = setInterval(() => this.expireIdle(), sweepInterval)
+    this.sweepTimer.unref()
+  }
+
+  private slot(userId: string, agent: string, threadId?: string): string {
+    return `${userId}:${agent}:${threadId || ''}`
+  }
+
+  /**
+   * The session key for a message, starting a new session when there is
+   * none or the previous one has expired. Call recordTurn once the message
+   * has gone through, so a failed first message still carries the history.
+   */
+  acquire(userId: string, agent: string, threadId?: string): SessionLease {
+    const slot = this.slot(userId, agent, threadId)
+    const now = new Date()
+    let session = this.sessions.get(slot)
+
+    if (session && now.getTime() - Date.parse(session.lastUsedAt) >= this.config.idleTimeoutMs) {
+      this.expire(slot, 'idle')
+      session = undefined
+    }
+
+    if (!session) {
+      session = {
+        key: [this.config.prefix, userId, agent, threadId, now.getTime().toString(36)].filter(Boolean).join(':'),
+        userId,
+        agent,
+        ...(threadId ? { threadId } : {}),
+        createdAt: now.toISOString(),
+        lastUsedAt: now.toISOString(),
+        turns: 0
+      }
+      this.sessions.set(slot, session)
+      this.logger.debug(`OpenClaw session started: ${session.key}`, { sessions: this.sessions.size })
+    }
+
+    session.lastUsedAt = now.toISOString()
+    return { key: session.key, isNew: session.turns === 0 }
+  }
+
+  /** Count a message the session has received */
+  recordTurn(userId: string, agent: string, threadId?: string): void {
+    const session = this.sessions.get(this.slot(userId, agent, threadId))
+    if (!session) return
+
+    session.turns++
+    session.lastUsedAt = new Date().toISOString()
+  }
+
+  /** A user's active sessions, most recently used first */
+  list(userId: string): OpenClawSession[] {
+    return Array.from(this.sessions.values())
+      .filter(session => session.userId === userId)
+      .sort((a, b) => b.lastUsedAt.localeCompare(a.lastUsedAt))
+      .map(session => ({ ...session }))
+  }
+
+  /**
+   * End a user's sessions so their next messages start fresh. Narrow it to
+   * one agent and/or one thread; returns how many sessions were reset.
+   */
+  reset(userId: string, filter: { agent?: string, threadId?: string } = {}): number {
+    let count = 0
+    for (const [slot, session] of this.sessions) {
+      if (session.userId !== userId) continue
+      if (filter.agent && session.agent !== filter.agent) continue
+      if (filter.threadId && session.threadId !== filter.threadId) continue
+      this.expire(slot, 'reset')
+      count++
+    }
+    return count
+  }
+
+  private expireIdle(): void {
+    const cutoff = Date.now() - this.config.idleTimeoutMs
+    for (const [slot, session] of this.sessions) {
+      if (Date.parse(session.lastUsedAt) < cutoff) {
+        this.expire(slot, 'idle')
+      }
+    }
+  }
+
+  private expire(slot: string, reason: 'idle' | 'reset'): void {
+    const session = this.sessions.get(slot)
+    if (!session) return
+
+    this.sessions.delete(slot)
+    this.logger.debug(`OpenClaw session ended: ${session.key} (${reason})`, { sessions: this.sessions.size })
+  }
+
+  getStats(): { sessions: number, idleTimeoutMs: number } {
+    return {
+      sessions: this.sessions.size,
+      idleTimeoutMs: this.config.idleTimeoutMs
+    }
+  }
+
+  stop(): void {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer)
+      this.sweepTimer = null
+    }
+  }
+}
@@ -0,0 +1,258 @@
+/**
+ * RecordingGateway / ReplayGateway - Deterministic LLM traffic for offline tests
+ *
+ * RecordingGateway wraps a live gateway (and the routing model) and writes
+ * every call to a Cassette. ReplayGateway serves a cassette back: responses,
+ * streamed tokens and OpenClaw delegations come from the file, while the
+ * recorded tool calls are executed again through the live ToolSet, so skills
+ * really run. Each exposes a `routingModel` covering routeWithLLM and skill
+ * routing; hand it to PersonaEngine alongside the gateway.
+ */
+
+import { AgentGateway, ConversationMessage, GenerateOptions, HealthCheckResult, ToolCall, ToolDefinition } from './agent-gateway'
+import { DelegatingGateway, DelegationResult, TaskType, canDelegate } from './openclaw-gateway'
+import { RoutingModel, RoutingRequest } from './routing-model'
+import { Cassette, CassetteEvent, CassetteInteraction, CassetteRequest } from './cassette'
+import { ProviderError } from './errors'
+
+function generateRequest(context: string, history: ConversationMessage[], options: GenerateOptions): CassetteRequest {
+  return {
+    kind: 'generate',
+    context,
+    history,
+    personaId: options.personaId,
+    purpose: options.purpose,
+    models: options.models,
+    tools: options.tools?.definitions.map(tool => tool.name)
+  }
+}
+
+function delegateRequest(taskType: TaskType, message: string, history: ConversationMessage[], options: GenerateOptions): CassetteRequest {
+  return {
+    kind: 'delegate',
+    taskType,
+    message,
+    history,
+    personaId: options.personaId,
+    models: options.models
+  }
+}
+
+function completeRequest(prompt: string, request: RoutingRequest): CassetteRequest {
+  return {
+    kind: 'complete',
+    prompt,
+    personaId: request.personaId,
+    purpose: request.purpose,
+    models: request.models
+  }
+}
+
+function chooseToolRequest(message: string, system: string, tools: ToolDefinition[], request: RoutingRequest): CassetteRequest {
+  return {
+    kind: 'choose_tool',
+    message,
+    system,
+    tools: tools.map(tool => tool.name),
+    personaId: request.personaId,
+    purpose: request.purpose,
+    models: request.models
+  }
+}
+
+export class RecordingGateway implements DelegatingGateway {
+  readonly routingModel: RoutingModel
+
+  constructor(
+    private inner: AgentGateway,
+    private cassette: Cassette,
+    routingModel: RoutingModel
+  ) {
+    this.routingModel = new RecordingRoutingModel(routingModel, cassette)
+  }
+
+  get supportsTools(): boolean {
+    return !!this.inner.supportsTools
+  }
+
+  get supportsDelegation(): boolean {
+    return canDelegate(this.inner)
+  }
+
+  async generateResponse(
+    context: string,
+    userId: string,
+    history: ConversationMessage[] = [],
+    options: GenerateOptions = {}
+  ): Promise<string> {
+    return this.capture(generateRequest(context, history, options), options, recordingOptions =>
+      this.inner.generateResponse(context, userId, history, recordingOptions)
+    )
+  }
+
+  async delegateToAgent(
+    taskType: TaskType,
+    message: string,
+    userId: string = 'anonymous',
+    history: ConversationMessage[] = [],
+    options: GenerateOptions = {}
+  ): Promise<DelegationResult> {
+    if (!canDelegate(this.inner)) {
+      throw new Error('Recorded gateway does not support delegation')
+    }
+    const inner = this.inner
+    return this.capture(delegateRequest(taskType, message, history, options), options, recordingOptions =>
+      inner.delegateToAgent(taskType, message, userId, history, recordingOptions)
+    )
+  }
+
+  healthCheck(): Promise<HealthCheckResult> {
+    return this.inner.healthCheck()
+  }
+
+  /** Run the call with token and tool-call taps, then record what happened */
+  private async capture<T extends string | DelegationResult>(
+    request: CassetteRequest,
+    options: GenerateOptions,
+    call: (options: GenerateOptions) => Promise<T>
+  ): Promise<T> {
+    const events: CassetteEvent[] = []
+    const recordingOptions: GenerateOptions = {
+      ...options,
+      onToken: options.onToken && (delta => {
+        events.push({ type: 'token', delta })
+        options.onToken!(delta)
+      }),
+      tools: options.tools && {
+        ...options.tools,
+        execute: toolCall => {
+          events.push({ type: 'tool_call', call: toolCall })
+          return options.tools!.execute(toolCall)
+        }
+      }
+    }
+
+    try {
+      const response = await call(recordingOptions)
+      await this.cassette.record({ request, response, events })
+      return response
+    } catch (error: any) {
+      await this.cassette.record({ request, error: { message: error.message, status: error.status }, events })
+      throw error
+    }
+  }
+}
+
+class RecordingRoutingModel implements RoutingModel {
+  constructor(
+    private inner: RoutingModel,
+    private cassette: Cassette
+  ) {}
+
+  async complete(prompt: string, request: RoutingRequest): Promise<string> {
+    return this.capture(completeRequest(prompt, request), () => this.inner.complete(prompt, request))
+  }
+
+  async chooseTool(message: string, system: string, tools: ToolDefinition[], request: RoutingRequest): Promise<ToolCall | null> {
+    return this.capture(chooseToolRequest(message, system, tools, request), () =>
+      this.inner.chooseTool(message, system, tools, request)
+    )
+  }
+
+  private async capture<T extends string | ToolCall | null>(request: CassetteRequest, call: () => Promise<T>): Promise<T> {
+    try {
+      const response = await call()
+      await this.cassette.record({ request, response })
+      return response
+    } catch (error: any) {
+      await this.cassette.record({ request, error: { message: error.message, status: error.status } })
+      throw error
+    }
+  }
+}
+
+/** Throws the recorded failure, if the interaction recorded one */
+function rethrowRecorded(interaction: CassetteInteraction): void {
+  if (interaction.error) {
+    throw new ProviderError(interaction.error.message, interaction.error.status)
+  }
+}
+
+export class ReplayGateway implements DelegatingGateway {
+  readonly supportsTools: boolean
+  readonly supportsDelegation: boolean
+  readonly routingModel: RoutingModel
+
+  constructor(private cassette: Cassette) {
+    this.supportsTools = cassette.gateway.supportsTools
+    this.supportsDelegation = cassette.gateway.supportsDelegation
+    this.routingModel = new ReplayRoutingModel(cassette)
+  }
+
+  async generateResponse(
+    context: string,
+    userId: string,
+    history: ConversationMessage[] = [],
+    options: GenerateOptions = {}
+  ): Promise<string> {
+    const interaction = this.cassette.find(generateRequest(context, history, options))
+    await this.play(interaction, options)
+    return interaction.response as string
+  }
+
+  async delegateToAgent(
+    taskType: TaskType,
+    message: string,
+    userId: string = 'anonymous',
+    history: ConversationMessage[] = [],
+    options: GenerateOptions = {}
+  ): Promise<DelegationResult> {
+    const interaction = this.cassette.find(delegateRequest(taskType, message, history, options))
+    await this.play(interaction, options)
+    return interaction.response as DelegationResult
+  }
+
+  async healthCheck(): Promise<HealthCheckResult> {
+    return { healthy: true, provider: 'replay' }
+  }
+
+  /**
+   * Re-emit recorded tokens and re-run recorded tool calls in their original
+   * order, then throw if the recorded call failed. A recording made without
+   * streaming replays its whole response as one token.
+   */
+  private async play(interaction: CassetteInteraction, options: GenerateOptions): Promise<void> {
+    const events = interaction.events || []
+    for (const event of events) {
+      if (event.type === 'token') {
+        options.onToken?.(event.delta)
+      } else if (options.tools) {
+        await options.tools.execute(event.call)
+      }
+    }
+
+    rethrowRecorded(interaction)
+
+    if (options.onToken && !events.some(event => event.type === 'token')) {
+      const response = interaction.response
+      const text = typeof response === 'string' ? response : (response as DelegationResult).response
+      if (text) options.onToken(text)
+    }
+  }
+}
+
+class ReplayRoutingModel implements RoutingModel {
+  constructor(private cassette: Cassette) {}
+
+  async complete(prompt: string, request: RoutingRequest): Promise<string> {
+    const interaction = this.cassette.find(completeRequest(prompt, request))
+    rethrowRecorded(interaction)
+    return interaction.response as string
+  }
+
+  async chooseTool(message: string, system: string, tools: ToolDefinition[], request: RoutingRequest): Promise<ToolCall | null> {
+    const interaction = this.cassette.find(chooseToolRequest(message, system, tools, request))
+    rethrowRecorded(interaction)
+    return interaction.response as ToolCall | null
+  }
+}
@@ -0,0 +1,217 @@
+/**
+ * RoutingModel - Small, fast LLM calls for routing decisions
+ *
+ * PersonaEngine uses these for skill routing and Mega orchestration, separate
+ * from the gateway that writes the persona's response. Anthropic (haiku) is
+ * the default; OpenAICompatibleRoutingModel targets a local server so routing
+ * works offline alongside the `local` provider. Both honour per-purpose
+ * model settings from the persona and server (see model-config.ts).
+ */
+
+import { ToolCall, ToolDefinition, LocalModelConfig, modelForPurpose } from './agent-gateway'
+import { ProviderError } from './errors'
+import { UsageTracker, LLMPurpose } from '../core/usage-tracker'
+import { observeLLMCall } from '../core/metrics'
+import { ModelConfig, ResolvedModelSettings, resolveModelSettings } from '../core/model-config'
+
+export interface RoutingRequest {
+  userId: string
+  personaId?: string
+  purpose: LLMPurpose
+  // The persona's model settings
+  models?: ModelConfig
+  // Default max_tokens for this call when none is configured
+  maxTokens?: number
+}
+
+export interface RoutingModel {
+  /** Short free-text answer (e.g. an agent name) */
+  complete(prompt: string, request: RoutingRequest): Promise<string>
+  /** The tool the model chose and its arguments, or null when it chose none */
+  chooseTool(message: string, system: string, tools: ToolDefinition[], request: RoutingRequest): Promise<ToolCall | null>
+}
+
+/** Small, fast model for routing and orchestration decisions */
+const ANTHROPIC_ROUTING_MODEL = 'claude-haiku-4-5-20251001'
+
+// Defaults when max_tokens isn't configured: a one-word answer vs. a tool call
+const COMPLETE_MAX_TOKENS = 20
+const TOOL_MAX_TOKENS = 500
+
+function requestBody(settings: ResolvedModelSettings, body: Record<string, unknown>): string {
+  return JSON.stringify({
+    model: settings.model,
+    max_tokens: settings.max_tokens,
+    ...(settings.temperature !== undefined ? { temperature: settings.temperature } : {}),
+    ...body
+  })
+}
+
+interface AnthropicRoutingResponse {
+  content?: Array<{ type: string, id?: string, text?: string, name?: string, input?: Record<string, unknown> }>
+  usage?: { input_tokens: number, output_tokens: number }
+}
+
+interface OpenAIRoutingResponse {
+  choices?: Array<{ message: {
+    content: string | null
+    tool_calls?: Array<{ id: string, function: { name: string, arguments: string } }>
+  } }>
+  usage?: { prompt_tokens: number, completion_tokens: number }
+}
+
+export class AnthropicRoutingModel implements RoutingModel {
+  constructor(
+    private usageTracker?: UsageTracker,
+    private models?: ModelConfig
+  ) {}
+
+  async complete(prompt: string, request: RoutingRequest): Promise<string> {
+    const data = await this.call({
+      messages: [{ role: 'user', content: prompt }]
+    }, request, COMPLETE_MAX_TOKENS)
+
+    return data.content?.find(block => block.type === 'text')?.text || 'none'
+  }
+
+  async chooseTool(message: string, system: string, tools: ToolDefinition[], request: RoutingRequest): Promise<ToolCall | null> {
+    const data = await this.call({
+      system,
+      tools,
+      tool_choice: { type: 'auto' },
+      messages: [{ role: 'user', content: message }]
+    }, request, TOOL_MAX_TOKENS)
+
+    const call = data.content?.find(block => block.type === 'tool_use')
+    return call?.name ? { id: call.id || '', name: call.name, input: call.input || {} } : null
+  }
+
+  private call(body: Record<string, unknown>, request: RoutingRequest, maxTokens: number): Promise<AnthropicRoutingResponse> {
+    return observeLLMCall('anthropic', request.purpose, () => this.send(body, request, maxTokens))
+  }
+
+  private async send(body: Record<string, unknown>, request: RoutingRequest, maxTokens: number): Promise<AnthropicRoutingResponse> {
+    const settings = resolveModelSettings(request.purpose, [request.models, this.models], {
+      model: ANTHROPIC_ROUTING_MODEL,
+      max_tokens: request.maxTokens ?? maxTokens
+    })
+
+    const apiKey = process.env.ANTHROPIC_API_KEY
+    if (!apiKey) {
+      throw new Error('No ANTHROPIC_API_KEY for routing')
+    }
+
+    const response = await fetch('https://api.anthropic.com/v1/messages', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': apiKey,
+        'anthropic-version': '2023-06-01'
+      },
+      body: requestBody(settings, body)
+    })
+
+    if (!response.ok) {
+      const error = await response.text()
+      throw new ProviderError(`Routing LLM error: ${response.status} ${error}`, response.status)
+    }
+
+    const data = await response.json() as AnthropicRoutingResponse
+
+    await this.usageTracker?.record({
+      userId: request.userId,
+      personaId: request.personaId,
+      provider: 'anthropic',
+      model: settings.model,
+      purpose: request.purpose,
+      inputTokens: data.usage?.input_tokens || 0,
+      outputTokens: data.usage?.output_tokens || 0
+    })
+
+    return data
+  }
+}
+
+/**
+ * Routing against an OpenAI-compatible chat completions endpoint
+ * (Ollama, llama.cpp server, vLLM, ...), with a model per purpose.
+ */
+export class OpenAICompatibleRoutingModel implements RoutingModel {
+  constructor(
+    private config: LocalModelConfig,
+    private usageTracker?: UsageTracker,
+    private models?: ModelConfig
+  ) {}
+
+  async complete(prompt: string, request: RoutingRequest): Promise<string> {
+    const data = await this.call({
+      messages: [{ role: 'user', content: prompt }]
+    }, request, COMPLETE_MAX_TOKENS)
+
+    return data.choices?.[0]?.message.content || 'none'
+  }
+
+  async chooseTool(message: string, system: string, tools: ToolDefinition[], request: RoutingRequest): Promise<ToolCall | null> {
+    const data = await this.call({
+      tools: tools.map(tool => ({
+        type: 'function',
+        function: { name: tool.name, description: tool.description, parameters: tool.input_schema }
+      })),
+      tool_choice: 'auto',
+      messages: [
+        { role: 'system', content: system },
+        { role: 'user', content: message }
+      ]
+    }, request, TOOL_MAX_TOKENS)
+
+    const call = data.choices?.[0]?.message.tool_calls?.[0]
+    if (!call) return null
+
+    let input: Record<string, unknown> = {}
+    try {
+      input = JSON.parse(call.function.arguments || '{}')
+    } catch {
+      // Leave arguments empty; SkillRegistry validation reports what's missing
+    }
+    return { id: call.id, name: call.function.name, input }
+  }
+
+  private call(body: Record<string, unknown>, request: RoutingRequest, maxTokens: number): Promise<OpenAIRoutingResponse> {
+    return observeLLMCall('local', request.purpose, () => this.send(body, request, maxTokens))
+  }
+
+  private async send(body: Record<string, unknown>, request: RoutingRequest, maxTokens: number): Promise<OpenAIRoutingResponse> {
+    const settings = resolveModelSettings(request.purpose, [request.models, this.models], {
+      model: modelForPurpose(this.config, request.purpose),
+      max_tokens: request.maxTokens ?? maxTokens
+    })
+
+    const response = await fetch(`${this.config.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.config.apiKey ? { 'Authorization': `Bearer ${this.config.apiKey}` } : {})
+      },
+      body: requestBody(settings, body)
+    })
+
+    if (!response.ok) {
+      const error = await response.text()
+      throw new ProviderError(`Routing LLM error: ${response.status} ${error}`, response.status)
+    }
+
+    const data = await response.json() as OpenAIRoutingResponse
+
+    await this.usageTracker?.record({
+      userId: request.userId,
+      personaId: request.personaId,
+      provider: 'local',
+      model: settings.model,
+      purpose: request.purpose,
+      inputTokens: data.usage?.prompt_tokens || 0,
+      outputTokens: data.usage?.completion_tokens || 0
+    })
+
+    return data
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * Server-Sent Events reader for streaming LLM responses
+ *
+ * Anthropic, OpenAI and OpenClaw all stream completions as SSE.
+ * This yields each event's name and raw data as it arrives.
+ */
+
+export interface SSEEvent {
+  event?: string
+  data: string
+}
+
+export async function* readSSE(response: Response): AsyncGenerator<SSEEvent> {
+  if (!response.body) {
+    throw new Error('Streaming response has no body')
+  }
+
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+
+      buffer += decoder.decode(value, { stream: true })
+
+      // Events are separated by a blank line
+      let boundary = buffer.search(/\r?\n\r?\n/)
+      while (boundary !== -1) {
+        const raw = buffer.slice(0, boundary)
+        buffer = buffer.slice(boundary).replace(/^\r?\n\r?\n/, '')
+
+        const event = parseEvent(raw)
+        if (event) yield event
+
+        boundary = buffer.search(/\r?\n\r?\n/)
+      }
+    }
+
+    const trailing = parseEvent(buffer)
+    if (trailing) yield trailing
+  } finally {
+    reader.releaseLock()
+  }
+}
+
+function parseEvent(raw: string): SSEEvent | null {
+  let event: string | undefined
+  const data: string[] = []
+
+  for (const line of raw.split(/\r?\n/)) {
+    if (line.startsWith('event:')) {
+      event = line.slice(6).trim()
+    } else if (line.startsWith('data:')) {
+      data.push(line.slice(5).replace(/^ /, ''))
+    }
+  }
+
+  if (data.length === 0) return null
+  return { event, data: data.join('\n') }
+}
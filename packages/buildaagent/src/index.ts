@@ -11,7 +11,7 @@
 import { PersonaEngine } from './core/persona-engine'
 import { SkillRegistry } from './core/skill-registry'
 import { AgentGateway, DirectGateway } from './gateway/agent-gateway'
-import { Database } from './core/database'
+import { Database, StorageBackend, createDatabase, parseStorageBackend } from './core/storage'
 import { Logger } from './core/logger'
 
 export interface RuntimeConfig {
@@ -20,6 +20,8 @@ export interface RuntimeConfig {
   aiProvider: 'anthropic' | 'openai'
   aiKeyRef: string
   workspacePath: string
+  // Default: sqlite
+  storageBackend?: StorageBackend
   memoryPath: string
   browserPath: string
   port?: number
@@ -35,7 +37,12 @@ export class BuildAAgentRuntime {
 
   constructor(private config: RuntimeConfig) {
     this.logger = new Logger(config.logLevel || 'info')
-    this.database = new Database(config.tenantId, config.workspacePath)
+    this.database = createDatabase(
+      config.storageBackend || 'sqlite',
+      config.tenantId,
+      config.workspacePath,
+      this.logger.child({ component: 'database' })
+    )
     this.skillRegistry = new SkillRegistry(this.logger)
     this.gateway = new DirectGateway(config.aiProvider, config.aiKeyRef)
     this.personaEngine = new PersonaEngine(
@@ -56,9 +63,6 @@ export class BuildAAgentRuntime {
       await this.skillRegistry.loadSkills()
       await this.personaEngine.loadPersona(this.config.personaConfig)
       
-      // Start the persona
-      await this.personaEngine.start()
-      
       this.logger.info('✅ BuildAAgent Runtime started successfully')
       
       // Send first message if this is a fresh deployment
@@ -101,7 +105,7 @@ export class BuildAAgentRuntime {
           uptime: process.uptime()
         }
       }
-    } catch (error) {
+    } catch (error: any) {
       return {
         status: 'unhealthy',
         details: { error: error.message }
@@ -112,12 +116,21 @@ export class BuildAAgentRuntime {
 
 // CLI entry point
 if (require.main === module) {
+  let storageBackend: StorageBackend
+  try {
+    storageBackend = parseStorageBackend(process.env.STORAGE_BACKEND)
+  } catch (error: any) {
+    console.error(`Invalid configuration: ${error.message}`)
+    process.exit(1)
+  }
+
   const config: RuntimeConfig = {
     tenantId: process.env.TENANT_ID!,
     personaConfig: process.env.PERSONA_CONFIG || 'personal-assistant',
     aiProvider: (process.env.AI_PROVIDER as any) || 'anthropic',
     aiKeyRef: process.env.AI_KEY_REF!,
     workspacePath: process.env.WORKSPACE_PATH || '/app/workspace',
+    storageBackend,
     memoryPath: process.env.MEMORY_PATH || '/app/memory',
     browserPath: process.env.BROWSER_PATH || '/app/browser',
     port: parseInt(process.env.PORT || '3000'),
@@ -0,0 +1,222 @@
+/**
+ * AccountStore - User accounts and signed session tokens
+ *
+ * Accounts are an email and a scrypt password hash. Signing up or logging in
+ * issues a session token: a JWT (HS256) naming the account id, checked on
+ * every API request by the auth middleware without a database lookup. The
+ * account id is the user id everything else (conversations, OAuth tokens,
+ * engines, schedules) is keyed by.
+ */
+
+import crypto from 'crypto'
+import { Logger } from '../core/logger'
+
+export interface UserAccount {
+  id: string
+  email: string
+  displayName?: string
+  // scrypt$<salt hex>$<hash hex>
+  passwordHash: string
+  createdAt: string
+}
+
+/** An account as returned by the API */
+export interface PublicAccount {
+  id: string
+  email: string
+  display_name?: string
+  created_at: string
+}
+
+export interface SessionToken {
+  token: string
+  // Unix timestamp in ms
+  expiresAt: number
+}
+
+export interface AccountStoreConfig {
+  // HMAC key for session tokens; tokens signed with another key are rejected
+  sessionSecret: string
+  sessionTtlMs: number
+  minPasswordLength: number
+}
+
+export type AccountErrorCode = 'invalid_email' | 'weak_password' | 'invalid_display_name' | 'email_taken'
+
+export class AccountError extends Error {
+  constructor(message: string, readonly code: AccountErrorCode) {
+    super(message)
+    this.name = 'AccountError'
+  }
+}
+
+interface AccountDatabase {
+  storeUserAccount(account: UserAccount): Promise<boolean>
+  getUserAccount(id: string): Promise<UserAccount | null>
+  getUserAccountByEmail(email: string): Promise<UserAccount | null>
+}
+
+const DEFAULT_ACCOUNT_CONFIG = {
+  sessionTtlMs: 30 * 24 * 60 * 60 * 1000, // 30 days
+  minPasswordLength: 8
+}
+
+const SCRYPT_KEY_LENGTH = 64
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+// Example values from .env.example and the docs; anyone could sign tokens with them
+const PLACEHOLDER_SECRET_PATTERN = /^(your[-_]|change[-_]?me|replace[-_]?me|example|placeholder|secret$)/i
+
+/** Whether a configured secret is a documentation placeholder rather than a real key */
+export function isPlaceholderSecret(secret: string): boolean {
+  return PLACEHOLDER_SECRET_PATTERN.test(secret.trim())
+}
+
+function base64url(input: Buffer | string): string {
+  return Buffer.from(input).toString('base64url')
+}
+
+function scrypt(password: string, salt: Buffer): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    crypto.scrypt(password, salt, SCRYPT_KEY_LENGTH, (error, key) => error ? reject(error) : resolve(key))
+  })
+}
+
+export function toPublicAccount(account: UserAccount): PublicAccount {
+  return {
+    id: account.id,
+    email: account.email,
+    ...(account.displayName ? { display_name: account.displayName } : {}),
+    created_at: account.createdAt
+  }
+}
+
+export class AccountStore {
+  readonly config: AccountStoreConfig
+  private dummyHash?: Promise<string>
+
+  constructor(
+    private db: AccountDatabase,
+    private logger: Logger,
+    config: Partial<AccountStoreConfig> & { sessionSecret: string }
+  ) {
+    if (!config.sessionSecret || config.sessionSecret.length < 32) {
+      throw new Error('Session secret must be at least 32 characters')
+    }
+    if (isPlaceholderSecret(config.sessionSecret)) {
+      throw new Error('Session secret is a placeholder value; generate one (e.g. `openssl rand -hex 32`)')
+    }
+    this.config = { ...DEFAULT_ACCOUNT_CONFIG, ...config }
+  }
+
+  // Arguments come straight from request bodies, so their types are checked here too
+  async signUp(email: unknown, password: unknown, displayName?: unknown): Promise<UserAccount> {
+    const normalized = typeof email === 'string' ? email.trim().toLowerCase() : ''
+    if (!EMAIL_PATTERN.test(normalized)) {
+      throw new AccountError('A valid email address is required', 'invalid_email')
+    }
+    if (typeof password !== 'string' || password.length < this.config.minPasswordLength) {
+      throw new AccountError(`Password must be at least ${this.config.minPasswordLength} characters`, 'weak_password')
+    }
+    if (displayName !== undefined && displayName !== null && typeof displayName !== 'string') {
+      throw new AccountError('Display name must be text', 'invalid_display_name')
+    }
+    const name = typeof displayName === 'string' ? displayName.trim() : ''
+    if (await this.db.getUserAccountByEmail(normalized)) {
+      throw new AccountError('An account with this email already exists', 'email_taken')
+    }
+
+    const account: UserAccount = {
+      id: `user_${crypto.randomUUID()}`,
+      email: normalized,
+      ...(name ? { displayName: name } : {}),
+      passwordHash: await this.hashPassword(password),
+      createdAt: new Date().toISOString()
+    }
+
+    // Another sign-up for the same email can land between the check above and this insert
+    if (!(await this.db.storeUserAccount(account))) {
+      throw new AccountError('An account with this email already exists', 'email_taken')
+    }
+    this.logger.info(`[Accounts] Created account ${account.id}`, { email: normalized })
+    return account
+  }
+
+  /** The account, if the email exists and the password matches */
+  async logIn(email: unknown, password: unknown): Promise<UserAccount | null> {
+    if (typeof email !== 'string' || typeof password !== 'string' || !password) {
+      return null
+    }
+
+    const account = await this.db.getUserAccountByEmail(email.trim().toLowerCase())
+    // Unknown emails still cost a hash, so response times don't reveal which are registered
+    const passwordHash = account ? account.passwordHash : await this.dummyPasswordHash()
+    const matches = await this.verifyPassword(password, passwordHash)
+    if (!account || !matches) {
+      this.logger.warn('[Accounts] Failed login', { email })
+      return null
+    }
+    return account
+  }
+
+  getAccount(id: string): Promise<UserAccount | null> {
+    return this.db.getUserAccount(id)
+  }
+
+  issueSessionToken(account: UserAccount): SessionToken {
+    const now = Date.now()
+    const expiresAt = now + this.config.sessionTtlMs
+    const header = base64url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }))
+    const payload = base64url(JSON.stringify({
+      sub: account.id,
+      iat: Math.floor(now / 1000),
+      exp: Math.floor(expiresAt / 1000)
+    }))
+    return { token: `${header}.${payload}.${this.sign(`${header}.${payload}`)}`, expiresAt }
+  }
+
+  /** The user id a session token was issued to, or null if it is forged, malformed or expired */
+  verifySessionToken(token: string): string | null {
+    const parts = token.split('.')
+    if (parts.length !== 3) return null
+
+    const [header, payload, signature] = parts
+    const expected = Buffer.from(this.sign(`${header}.${payload}`))
+    const actual = Buffer.from(signature)
+    if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) {
+      return null
+    }
+
+    try {
+      const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8')) as { sub?: string, exp?: number }
+      if (!claims.sub || !claims.exp || claims.exp * 1000 <= Date.now()) return null
+      return claims.sub
+    } catch {
+      return null
+    }
+  }
+
+  private dummyPasswordHash(): Promise<string> {
+    this.dummyHash ??= this.hashPassword(crypto.randomBytes(16).toString('hex'))
+    return this.dummyHash
+  }
+
+  private sign(data: string): string {
+    return crypto.createHmac('sha256', this.config.sessionSecret).update(data).digest('base64url')
+  }
+
+  private async hashPassword(password: string): Promise<string> {
+    const salt = crypto.randomBytes(16)
+    const hash = await scrypt(password, salt)
+    return `scrypt$${salt.toString('hex')}$${hash.toString('hex')}`
+  }
+
+  private async verifyPassword(password: string, stored: string): Promise<boolean> {
+    const [scheme, saltHex, hashHex] = stored.split('$')
+    if (scheme !== 'scrypt' || !saltHex || !hashHex) return false
+
+    const hash = await scrypt(password, Buffer.from(saltHex, 'hex'))
+    const expected = Buffer.from(hashHex, 'hex')
+    return hash.length === expected.length && crypto.timingSafeEqual(hash, expected)
+  }
+}
@@ -7,6 +7,7 @@
 
 import crypto from 'crypto'
 import { Logger } from '../core/logger'
+import { tokenRefreshes } from '../core/metrics'
 import { OAuthTokens, OAuthTokenEntry } from './gmail/types'
 
 const ALGORITHM = 'aes-256-gcm'
@@ -56,16 +57,15 @@ export class TokenStore {
   }
 
   async storeTokens(userId: string, provider: string, tokens: OAuthTokens): Promise<void> {
-    this.logger.info(`[TokenStore] storeTokens called: userId="${userId}" provider="${provider}" email=${tokens.email}`)
-    this.logger.info(`[TokenStore]   accessToken length=${tokens.accessToken.length} refreshToken length=${tokens.refreshToken.length}`)
-    this.logger.info(`[TokenStore]   expiresAt=${new Date(tokens.expiresAt).toISOString()} (in ${Math.round((tokens.expiresAt - Date.now()) / 1000)}s)`)
+    this.logger.debug(`[TokenStore] storeTokens called: userId="${userId}" provider="${provider}"`, {
+      email: tokens.email,
+      expiresIn: Math.round((tokens.expiresAt - Date.now()) / 1000),
+      hasRefreshToken: !!tokens.refreshToken
+    })
 
     const accessEncrypted = this.encrypt(tokens.accessToken)
     const refreshEncrypted = this.encrypt(tokens.refreshToken)
 
-    this.logger.info(`[TokenStore]   encrypted accessToken ciphertext length=${accessEncrypted.ciphertext.length}`)
-    this.logger.info(`[TokenStore]   encrypted refreshToken ciphertext length=${refreshEncrypted.ciphertext.length}`)
-
     const entry: OAuthTokenEntry = {
       userId,
       provider,
@@ -85,7 +85,7 @@ export class TokenStore {
   }
 
   async getValidAccessToken(userId: string, provider: string): Promise<string | null> {
-    this.logger.info(`[TokenStore] getValidAccessToken called: userId="${userId}" provider="${provider}"`)
+    this.logger.debug(`[TokenStore] getValidAccessToken called: userId="${userId}" provider="${provider}"`)
 
     const entry = await this.db.getOAuthToken(userId, provider)
     if (!entry) {
@@ -97,7 +97,7 @@ export class TokenStore {
     const expiresIn = entry.expiresAt - now
     const needsRefresh = expiresIn < REFRESH_BUFFER_MS
 
-    this.logger.info(`[TokenStore] getValidAccessToken: found token email=${entry.email} expiresIn=${Math.round(expiresIn / 1000)}s needsRefresh=${needsRefresh}`)
+    this.logger.debug(`[TokenStore] getValidAccessToken: found token expiresIn=${Math.round(expiresIn / 1000)}s needsRefresh=${needsRefresh}`)
 
     if (needsRefresh) {
       this.logger.info(`[TokenStore] Token near expiry for user ${userId}, refreshing...`)
@@ -107,18 +107,19 @@ export class TokenStore {
           entry.refreshIv,
           entry.refreshAuthTag
         )
-        this.logger.info(`[TokenStore] Refresh token decrypted successfully (length=${refreshToken.length})`)
-
         const newTokens = await this.refreshAccessToken(refreshToken, entry.email, entry.scope)
         if (!newTokens) {
+          tokenRefreshes.inc({ provider, outcome: 'failure' })
           this.logger.error(`[TokenStore] Token refresh FAILED for userId="${userId}" — returning null`)
           return null
         }
 
+        tokenRefreshes.inc({ provider, outcome: 'success' })
         this.logger.info(`[TokenStore] Token refresh succeeded, storing new tokens`)
         await this.storeTokens(userId, provider, newTokens)
         return newTokens.accessToken
       } catch (error: any) {
+        tokenRefreshes.inc({ provider, outcome: 'error' })
         this.logger.error(`[TokenStore] Decrypt/refresh error for userId="${userId}": ${error.message}`)
         return null
       }
@@ -126,7 +127,6 @@ export class TokenStore {
 
     try {
       const accessToken = this.decrypt(entry.accessTokenEncrypted, entry.iv, entry.authTag)
-      this.logger.info(`[TokenStore] Access token decrypted successfully (length=${accessToken.length})`)
       return accessToken
     } catch (error: any) {
       this.logger.error(`[TokenStore] Access token decrypt FAILED for userId="${userId}": ${error.message}`)
@@ -135,22 +135,21 @@ export class TokenStore {
   }
 
   async hasValidConnection(userId: string, provider: string): Promise<boolean> {
-    this.logger.info(`[TokenStore] hasValidConnection called: userId="${userId}" provider="${provider}"`)
     const entry = await this.db.getOAuthToken(userId, provider)
     const connected = entry !== null
-    this.logger.info(`[TokenStore] hasValidConnection: ${connected}`)
+    this.logger.debug(`[TokenStore] hasValidConnection: userId="${userId}" provider="${provider}" → ${connected}`)
     return connected
   }
 
   async getConnectionEmail(userId: string, provider: string): Promise<string | null> {
     const entry = await this.db.getOAuthToken(userId, provider)
     const email = entry?.email ?? null
-    this.logger.info(`[TokenStore] getConnectionEmail: userId="${userId}" provider="${provider}" → ${email}`)
+    this.logger.debug(`[TokenStore] getConnectionEmail: userId="${userId}" provider="${provider}"`, { email })
     return email
   }
 
   async deleteTokens(userId: string, provider: string): Promise<void> {
-    this.logger.info(`[TokenStore] deleteTokens called: userId="${userId}" provider="${provider}"`)
+    this.logger.debug(`[TokenStore] deleteTokens called: userId="${userId}" provider="${provider}"`)
     const entry = await this.db.getOAuthToken(userId, provider)
     if (entry) {
       // Try to revoke the token at Google
@@ -2,16 +2,20 @@
  * Email Manager Skill Executor
  *
  * Replaces the placeholder email-manager skill with real Gmail integration.
- * Detects user intent (read, send, count, search) and calls GmailService.
+ * Uses the capability and arguments chosen by the skill router; falls back to
+ * detecting intent (read, send, count, search) from free text when called
+ * without them. Labeling (organize_emails) needs message IDs, so it is only
+ * reachable through the router. Calls GmailService.
  */
 
 import { TokenStore } from '../../services/token-store'
 import { GmailService } from '../../services/gmail/gmail-service'
-import { EmailSummary } from '../../services/gmail/types'
+import { EmailSummary, GmailLabel, SendEmailParams } from '../../services/gmail/types'
 import { Logger } from '../../core/logger'
 import { SkillExecutionParams } from '../../core/skill-registry'
+import { SkillContext, SkillExecutor } from '../../core/skill-loader'
 
-type EmailIntent = 'read' | 'send' | 'unread_count' | 'search'
+type EmailIntent = 'read' | 'send' | 'unread_count' | 'search' | 'organize'
 
 interface ParsedSendIntent {
   to: string
@@ -19,6 +23,30 @@ interface ParsedSendIntent {
   body: string
 }
 
+interface EmailRequest {
+  intent: EmailIntent
+  searchQuery?: string
+  limit: number
+  // null when the free-text message didn't contain a parseable send request
+  send?: SendEmailParams | null
+  organize?: { emailIds: string[], labels: string[] }
+}
+
+const DEFAULT_LIMIT = 5
+
+/**
+ * Skill loader entry point. Needs the server's tokenStore and gmailService;
+ * without a token store (no ENCRYPTION_KEY) the placeholder stays registered.
+ */
+export function createExecutor(context: SkillContext): SkillExecutor | null {
+  const tokenStore = context.services.tokenStore as TokenStore | undefined
+  const gmailService = context.services.gmailService as GmailService | undefined
+  if (!tokenStore || !gmailService) {
+    return null
+  }
+  return createEmailManagerExecutor(tokenStore, gmailService, context.logger)
+}
+
 export function createEmailManagerExecutor(
   tokenStore: TokenStore,
   gmailService: GmailService,
@@ -39,18 +67,23 @@ export function createEmailManagerExecutor(
       return 'Your Gmail connection has expired. Please reconnect in Settings.'
     }
 
-    const intent = detectEmailIntent(query)
-    logger.info(`Email intent detected: ${intent}`, { query })
+    const request = params.capability
+      ? requestFromArguments(params.capability, params.args || {})
+      : requestFromQuery(query)
+    logger.info(`Email intent detected: ${request.intent}`, {
+      capability: params.capability,
+      argKeys: Object.keys(params.args || {})
+    })
 
     try {
-      switch (intent) {
+      switch (request.intent) {
         case 'unread_count': {
           const count = await gmailService.getUnreadCount(accessToken)
           return `You have ${count} unread email${count === 1 ? '' : 's'}.`
         }
 
         case 'send': {
-          const parsed = parseSendIntent(query)
+          const parsed = request.send
           if (!parsed) {
             return 'I can help you send an email! Please tell me who to send it to, the subject, and what you want to say. For example: "Send an email to alice@example.com about Meeting Tomorrow saying Let\'s meet at 3pm."'
           }
@@ -58,11 +91,31 @@ export function createEmailManagerExecutor(
           return `Email sent to ${parsed.to} with subject "${parsed.subject}" (Message ID: ${result.id}).`
         }
 
+        case 'organize': {
+          const { emailIds, labels } = request.organize!
+          // Gmail applies labels by ID; the user names them
+          const existing = await gmailService.getLabels(accessToken)
+          const matched: GmailLabel[] = []
+          const unknown: string[] = []
+          for (const label of labels) {
+            const match = existing.find(candidate =>
+              candidate.id === label || candidate.name.toLowerCase() === label.trim().toLowerCase()
+            )
+            if (match) matched.push(match)
+            else unknown.push(label)
+          }
+          if (unknown.length > 0) {
+            return `I couldn't find the label${unknown.length === 1 ? '' : 's'} ${unknown.map(label => `"${label}"`).join(', ')} in Gmail. Create ${unknown.length === 1 ? 'it' : 'them'} in Gmail first, or pick an existing label.`
+          }
+          await gmailService.addLabels(accessToken, emailIds, matched.map(label => label.id))
+          return `Labeled ${emailIds.length} email${emailIds.length === 1 ? '' : 's'} with ${matched.map(label => label.name).join(', ')}.`
+        }
+
         case 'search': {
-          const searchQuery = extractSearchQuery(query)
+          const searchQuery = request.searchQuery!
           const emails = await gmailService.getRecentEmails(accessToken, {
             query: searchQuery,
-            maxResults: 5
+            maxResults: request.limit
           })
           if (emails.length === 0) {
             return `No emails found matching "${searchQuery}".`
@@ -73,7 +126,7 @@ export function createEmailManagerExecutor(
         case 'read':
         default: {
           const emails = await gmailService.getRecentEmails(accessToken, {
-            maxResults: 5
+            maxResults: request.limit
           })
           if (emails.length === 0) {
             return 'Your inbox is empty!'
@@ -88,6 +141,53 @@ export function createEmailManagerExecutor(
   }
 }
 
+/**
+ * Map a capability from skill.yaml to a request. Arguments were already
+ * validated against the capability's parameters by SkillRegistry.
+ */
+function requestFromArguments(capability: string, args: Record<string, unknown>): EmailRequest {
+  const limit = (args.limit as number | undefined) ?? DEFAULT_LIMIT
+
+  switch (capability) {
+    case 'unread_count':
+      return { intent: 'unread_count', limit }
+    case 'send_email': {
+      const cc = args.cc as string[] | undefined
+      return {
+        intent: 'send',
+        limit,
+        send: {
+          to: (args.to as string[]).join(', '),
+          subject: args.subject as string,
+          body: args.body as string,
+          ...(cc && cc.length > 0 ? { cc: cc.join(', ') } : {})
+        }
+      }
+    }
+    case 'organize_emails':
+      return {
+        intent: 'organize',
+        limit,
+        organize: { emailIds: args.email_ids as string[], labels: args.labels as string[] }
+      }
+    case 'read_emails':
+    default: {
+      const searchQuery = (args.query as string | undefined)?.trim()
+      return searchQuery ? { intent: 'search', searchQuery, limit } : { intent: 'read', limit }
+    }
+  }
+}
+
+function requestFromQuery(query: string): EmailRequest {
+  const intent = detectEmailIntent(query)
+  return {
+    intent,
+    limit: DEFAULT_LIMIT,
+    ...(intent === 'send' ? { send: parseSendIntent(query) } : {}),
+    ...(intent === 'search' ? { searchQuery: extractSearchQuery(query) } : {})
+  }
+}
+
 export function detectEmailIntent(query: string): EmailIntent {
   const q = query.toLowerCase()
 
@@ -142,7 +242,7 @@ function formatEmailSummaries(emails: EmailSummary[]): string {
   return emails
     .map((email, i) => {
       const unread = email.isUnread ? ' [UNREAD]' : ''
-      return `${i + 1}. ${email.subject}${unread}\n   From: ${email.from}\n   ${email.snippet}`
+      return `${i + 1}. ${email.subject}${unread}\n   From: ${email.from}\n   ID: ${email.id}\n   ${email.snippet}`
     })
     .join('\n\n')
 }
@@ -0,0 +1,72 @@
+/**
+ * Chat and tool-loop path, replayed from cassettes/weather.json
+ *
+ * The cassette was recorded through ReplayHarness against a local
+ * OpenAI-compatible server that asks for get_weather before answering; to
+ * refresh it, start the harness with `mode: 'record'` and the same config.
+ */
+
+import path from 'path'
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import { ReplayHarness } from './replay-harness'
+
+const CASSETTE_PATH = path.resolve(__dirname, '..', '..', 'cassettes', 'weather.json')
+
+describe('chat replayed from a cassette', () => {
+  let harness: ReplayHarness
+
+  beforeAll(async () => {
+    harness = await ReplayHarness.start({
+      cassettePath: CASSETTE_PATH,
+      persona: 'personal-assistant',
+      config: {
+        aiProvider: 'local',
+        aiKeyRef: 'LOCAL_API_KEY',
+        local: { baseUrl: 'http://localhost:3919/v1', model: 'llama3.1' },
+        storage: { backend: 'memory' },
+        logLevel: 'error'
+      }
+    })
+  }, 30000)
+
+  afterAll(async () => {
+    await harness?.stop()
+  })
+
+  it('runs the tool the model asked for, then continues the thread with its history', async () => {
+    const reply = await harness.chat('What is the weather in Paris?')
+
+    expect(reply.skill_used).toBe('weather-check')
+    expect(reply.tool_calls).toHaveLength(1)
+    expect(reply.tool_calls?.[0]).toMatchObject({
+      skill: 'weather-check',
+      capability: 'get_weather',
+      args: { location: 'Paris' },
+      success: true
+    })
+    expect(reply.tool_calls?.[0].result).toContain('Current weather for Paris')
+    expect(reply.response).toBe('Sunny in Paris (3)')
+    expect(reply.thread_id).toMatch(/^thread_/)
+
+    const followUp = await harness.chat('And tomorrow?', { threadId: reply.thread_id })
+    expect(followUp.thread_id).toBe(reply.thread_id)
+    // Only matched because the request carried the first exchange as history
+    expect(followUp.response).toBe('Sunny in Paris (5)')
+
+    const page = await harness.get(`/api/threads/${reply.thread_id}/messages`)
+    expect(page.messages.map((m: any) => m.user_message)).toEqual(['What is the weather in Paris?', 'And tomorrow?'])
+    expect(page.next_cursor).toBeNull()
+    expect(harness.misses).toEqual([])
+  })
+
+  it('streams tokens and skill progress in recorded order', async () => {
+    const reply = await harness.chatStream('Is it sunny in Paris?')
+
+    expect(reply.events.map(e => e.event)).toEqual([
+      'token', 'skill_start', 'skill_finish', 'token', 'token', 'token', 'token', 'done'
+    ])
+    expect(reply.events[1].data).toEqual({ skill: 'weather-check' })
+    expect(reply.done?.skill_used).toBe('weather-check')
+    expect(harness.misses).toEqual([])
+  })
+})
@@ -0,0 +1,174 @@
+/**
+ * ReplayHarness - Drives BuildAAgentServer end-to-end against a cassette
+ *
+ * Starts a real server (HTTP routes, persona engines, skill registry) on a
+ * free port with a throwaway workspace, with every LLM call served by
+ * ReplayGateway. Routing decisions, skill execution and responses can then
+ * be checked offline and without API keys:
+ *
+ *   const harness = await ReplayHarness.start({ cassettePath: 'cassettes/weather.json' })
+ *   const reply = await harness.chat('What is the weather in Paris?')
+ *   // reply.skill_used === 'weather-check', harness.misses.length === 0
+ *   await harness.stop()
+ *
+ * Each `userId` is signed up as its own account on first use, and requests
+ * carry that account's session token.
+ *
+ * Make or refresh a cassette by starting with `mode: 'record'` and a live
+ * provider config (API keys set), then sending the same messages.
+ */
+
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { BuildAAgentServer, ServerConfig } from '../api/server'
+import { CassetteRequest } from '../gateway/cassette'
+import { readSSE } from '../gateway/sse'
+import { ToolCallRecord } from '../core/skill-registry'
+
+const PACKAGE_ROOT = path.resolve(__dirname, '..', '..')
+
+export interface ReplayHarnessOptions {
+  cassettePath: string
+  // Default: replay
+  mode?: 'record' | 'replay'
+  // Defaults for chat(); each call can override them. userId names an account the harness signs up
+  persona?: string
+  userId?: string
+  // Merged over the harness defaults (port 0, temp workspace, repo personas, agents and skills)
+  config?: Partial<ServerConfig>
+}
+
+/** The /api/chat response body */
+export interface ChatReply {
+  response: string
+  persona: string
+  skill_used?: string
+  tool_calls?: ToolCallRecord[]
+  thread_id?: string
+  timestamp: string
+  user_id: string
+}
+
+export interface StreamedChatReply {
+  // Every event in order, including the final done (or error)
+  events: Array<{ event: string, data: any }>
+  done?: ChatReply
+}
+
+export interface ChatOptions {
+  persona?: string
+  userId?: string
+  // A thread_id from an earlier reply to continue that thread; each chat without one starts a new thread
+  threadId?: string
+}
+
+export class ReplayHarness {
+  // Session token per harness userId
+  private sessionTokens = new Map<string, string>()
+
+  private constructor(
+    private server: BuildAAgentServer,
+    private workspacePath: string,
+    private options: ReplayHarnessOptions
+  ) {}
+
+  static async start(options: ReplayHarnessOptions): Promise<ReplayHarness> {
+    const workspacePath = fs.mkdtempSync(path.join(os.tmpdir(), 'buildaagent-replay-'))
+    const config: ServerConfig = {
+      port: 0,
+      logLevel: 'warn',
+      aiProvider: 'anthropic',
+      aiKeyRef: 'ANTHROPIC_API_KEY',
+      workspacePath,
+      personasPath: path.join(PACKAGE_ROOT, 'config', 'personas'),
+      agentsPath: path.join(PACKAGE_ROOT, 'config', 'agents.yaml'),
+      skillsPath: path.join(PACKAGE_ROOT, 'src', 'skills'),
+      ...options.config,
+      cassette: { mode: options.mode || 'replay', path: options.cassettePath }
+    }
+
+    const server = new BuildAAgentServer(config)
+    await server.start()
+    return new ReplayHarness(server, workspacePath, options)
+  }
+
+  get baseUrl(): string {
+    return `http://localhost:${this.server.port}`
+  }
+
+  /** Requests the cassette had no recording for (always empty when recording) */
+  get misses(): CassetteRequest[] {
+    return this.server.getCassette()?.misses || []
+  }
+
+  async chat(message: string, options: ChatOptions = {}): Promise<ChatReply> {
+    const response = await this.post('/api/chat', message, options)
+    if (!response.ok) {
+      throw new Error(`POST /api/chat failed: ${response.status} ${await response.text()}`)
+    }
+    return await response.json() as ChatReply
+  }
+
+  async chatStream(message: string, options: ChatOptions = {}): Promise<StreamedChatReply> {
+    const response = await this.post('/api/chat/stream', message, options)
+    const reply: StreamedChatReply = { events: [] }
+
+    for await (const event of readSSE(response)) {
+      const data = JSON.parse(event.data)
+      reply.events.push({ event: event.event || 'message', data })
+      if (event.event === 'done') reply.done = data
+    }
+
+    return reply
+  }
+
+  /** GET a server endpoint as the default user and parse its JSON body */
+  async get<T = any>(endpoint: string): Promise<T> {
+    const response = await fetch(`${this.baseUrl}${endpoint}`, {
+      headers: { 'Authorization': `Bearer ${await this.sessionToken(this.defaultUserId)}` }
+    })
+    return await response.json() as T
+  }
+
+  /** Sign the user up (once) and return their session token */
+  async sessionToken(userId: string): Promise<string> {
+    const existing = this.sessionTokens.get(userId)
+    if (existing) return existing
+
+    const response = await fetch(`${this.baseUrl}/api/auth/signup`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ email: `${userId}@replay.test`, password: `replay-${userId}-password` })
+    })
+    if (!response.ok) {
+      throw new Error(`Sign-up for ${userId} failed: ${response.status} ${await response.text()}`)
+    }
+
+    const { token } = await response.json() as { token: string }
+    this.sessionTokens.set(userId, token)
+    return token
+  }
+
+  async stop(): Promise<void> {
+    await this.server.stop()
+    fs.rmSync(this.workspacePath, { recursive: true, force: true })
+  }
+
+  private get defaultUserId(): string {
+    return this.options.userId || 'replay_user'
+  }
+
+  private async post(endpoint: string, message: string, options: ChatOptions): Promise<Response> {
+    const token = await this.sessionToken(options.userId || this.defaultUserId)
+    return fetch(`${this.baseUrl}${endpoint}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${token}` },
+      body: JSON.stringify({
+        message,
+        persona: options.persona || this.options.persona,
+        thread_id: options.threadId
+      })
+    })
+  }
+}
@@ -62,7 +62,7 @@ fi
 echo ""
 echo "🔧 Recommendations:"
 if [ "$OLD" -gt 5 ]; then
-  echo "  • Run cleanup-sessions.sh to remove old sessions"
+  echo "  • Reset stale BuildAAgent sessions with DELETE /api/sessions (idle ones expire automatically)"
 fi
 if [ "$BA_SESSIONS" -gt 5 ]; then
   echo "  • Consider reducing BuildAAgent test session creation" 